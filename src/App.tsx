@@ -10,82 +10,153 @@
 import { useEffect } from 'react';
 import { AnimatePresence } from 'framer-motion';
 import useSceneStore from './core/SceneManager';
+import { bindSceneHistory } from './core/SceneRouter';
+import { bindJourneyPersistence } from './core/JourneyPersistence';
+import { bindKioskMode } from './core/KioskMode';
+import { bindLocale } from './core/Localization';
+import { bindRandomSeed } from './core/Random';
+import { bindContentHotReload } from './core/ContentHotReload';
+import { restoreContentPacks } from './core/ContentPacks';
+import { bindMicroMoments } from './core/MicroMoments';
+import { CaptionDisplay } from './core/CaptionManager';
+import { profile } from './core/Personalization';
+import journeyEvents, { createLocalStorageSink } from './core/JourneyEvents';
+import { getSceneComponent, registerSceneComponents } from './core/SceneRegistry';
+import CrescendoIndicator from './ui/CrescendoIndicator';
+import TransitionVeil from './ui/TransitionVeil';
+import DirectorOverlay from './ui/DirectorOverlay';
+import MicroMomentLayer from './ui/MicroMomentLayer';
 
-// Scene components - V2 Cinematic versions
+// Scene components - every variant a journey manifest may name
 import AudioCalibrator from './components/AudioCalibrator';
-import HeroScene from './components/HeroScene.v2';
-import GalaxyOfWishes from './components/GalaxyOfWishes.v2';
-import WorldGlobe from './components/WorldGlobe.v2';
-import WordConstellation from './components/WordConstellation.v2';
-import ApologyGarden from './components/ApologyGarden.v2';
-import PromisesChamber from './components/PromisesChamber.v2';
-import MelodySphere from './components/MelodySphere.v2';
-import FinaleSupernova from './components/FinaleSupernova.v2';
+import HeroScene from './components/HeroScene';
+import HeroSceneV2 from './components/HeroScene.v2';
+import HeroSceneV3 from './components/HeroScene.v3';
+import GalaxyOfWishes from './components/GalaxyOfWishes';
+import GalaxyOfWishesV2 from './components/GalaxyOfWishes.v2';
+import GalaxyOfWishesV3 from './components/GalaxyOfWishes.v3';
+import GalaxyOfWishesCinematic from './components/GalaxyOfWishes.CINEMATIC';
+import WorldGlobe from './components/WorldGlobe';
+import WorldGlobeV2 from './components/WorldGlobe.v2';
+import WordConstellation from './components/WordConstellation';
+import WordConstellationV2 from './components/WordConstellation.v2';
+import ApologyGarden from './components/ApologyGarden';
+import ApologyGardenV2 from './components/ApologyGarden.v2';
+import PromisesChamber from './components/PromisesChamber';
+import PromisesChamberV2 from './components/PromisesChamber.v2';
+import MelodySphere from './components/MelodySphere';
+import MelodySphereV2 from './components/MelodySphere.v2';
+import FinaleSupernova from './components/FinaleSupernova';
+import FinaleSupernovaV2 from './components/FinaleSupernova.v2';
 
 // Styles
 import './styles/globals.css';
 
+// Variant key (as written in journey manifests) → component
+registerSceneComponents({
+  'AudioCalibrator': AudioCalibrator,
+  'HeroScene': HeroScene,
+  'HeroScene.v2': HeroSceneV2,
+  'HeroScene.v3': HeroSceneV3,
+  'GalaxyOfWishes': GalaxyOfWishes,
+  'GalaxyOfWishes.v2': GalaxyOfWishesV2,
+  'GalaxyOfWishes.v3': GalaxyOfWishesV3,
+  'GalaxyOfWishes.CINEMATIC': GalaxyOfWishesCinematic,
+  'WorldGlobe': WorldGlobe,
+  'WorldGlobe.v2': WorldGlobeV2,
+  'WordConstellation': WordConstellation,
+  'WordConstellation.v2': WordConstellationV2,
+  'ApologyGarden': ApologyGarden,
+  'ApologyGarden.v2': ApologyGardenV2,
+  'PromisesChamber': PromisesChamber,
+  'PromisesChamber.v2': PromisesChamberV2,
+  'MelodySphere': MelodySphere,
+  'MelodySphere.v2': MelodySphereV2,
+  'FinaleSupernova': FinaleSupernova,
+  'FinaleSupernova.v2': FinaleSupernovaV2,
+});
+
 function App() {
-  const { currentScene, initializeScenes, isTransitioning } = useSceneStore();
+  const { currentScene, journey, initializeScenes, recordInteraction } = useSceneStore();
 
   useEffect(() => {
+    // Journal the journey on this device (before the first scene is entered)
+    const removeJournal = journeyEvents.addSink(createLocalStorageSink());
+
+    // One seed for every random choice, so a journey can be replayed (?seed=)
+    const unbindSeed = bindRandomSeed();
+
     // Initialize scene registry on mount
     initializeScenes();
 
+    // Content packs installed on earlier visits (before resuming, for their scenes)
+    restoreContentPacks();
+
+    // Snapshot the journey so a reload can resume it
+    const unbindPersistence = bindJourneyPersistence();
+
+    // Reflect scenes in the URL and honour deep links / back button
+    const unbindHistory = bindSceneHistory();
+
+    // Hands-free auto-play for event screens (?kiosk or the kiosk setting)
+    const unbindKiosk = bindKioskMode();
+
+    // Keep <html lang> on the chosen language
+    const unbindLocale = bindLocale();
+
+    // Small surprises inside scenes, each once per journey
+    const unbindMoments = bindMicroMoments();
+
+    // Edited content files swap in without a reload (dev server only)
+    const unbindContentReload = bindContentHotReload();
+
     // Log the journey beginning
     console.log('%c✨ Welcome to the Loveverse ✨', 'font-size: 20px; color: #FFB6C1; font-weight: bold;');
-    console.log('%cA universe built with love for Thanishka', 'font-size: 14px; color: #8A4FFF; font-style: italic;');
-    console.log('%cBy Vedant 💖', 'font-size: 12px; color: #FFCBA4;');
+    console.log(`%cA universe built with love for ${profile.recipient}`, 'font-size: 14px; color: #8A4FFF; font-style: italic;');
+    console.log(`%cBy ${profile.author} 💖`, 'font-size: 12px; color: #FFCBA4;');
+
+    return () => {
+      unbindContentReload();
+      unbindMoments();
+      unbindLocale();
+      unbindKiosk();
+      unbindHistory();
+      unbindPersistence();
+      unbindSeed();
+      removeJournal();
+    };
   }, [initializeScenes]);
 
-  // Render current scene based on state
+  // Render the variant the journey manifest names for the current scene
   const renderScene = () => {
-    switch (currentScene) {
-      case 'calibration':
-        return <AudioCalibrator key="calibration" />;
-      case 'hero':
-        return <HeroScene key="hero" />;
-      case 'galaxy':
-        return <GalaxyOfWishes key="galaxy" />;
-      case 'globe':
-        return <WorldGlobe key="globe" />;
-      case 'constellation':
-        return <WordConstellation key="constellation" />;
-      case 'garden':
-        return <ApologyGarden key="garden" />;
-      case 'sanctuary':
-        return <PromisesChamber key="sanctuary" />;
-      case 'melody':
-        return <MelodySphere key="melody" />;
-      case 'finale':
-        return <FinaleSupernova key="finale" />;
-      default:
-        return <AudioCalibrator key="calibration" />;
+    const variant = journey?.getNode(currentScene)?.component;
+    const SceneComponent = (variant && getSceneComponent(variant)) || AudioCalibrator;
+
+    if (variant && !getSceneComponent(variant)) {
+      console.error(`❌ Unknown scene component: ${variant}`);
     }
+
+    return <SceneComponent key={currentScene} />;
   };
 
   return (
-    <div className="loveverse-app">
+    <div className="loveverse-app" onPointerDown={() => recordInteraction('tap')}>
       <AnimatePresence mode="wait">
         {renderScene()}
       </AnimatePresence>
 
-      {/* Global transition overlay */}
-      {isTransitioning && (
-        <div
-          style={{
-            position: 'fixed',
-            top: 0,
-            left: 0,
-            width: '100%',
-            height: '100%',
-            background: 'rgba(14, 0, 26, 0.8)',
-            zIndex: 9999,
-            pointerEvents: 'none',
-            transition: 'opacity 1.5s ease',
-          }}
-        />
-      )}
+      {/* Micro-moments and captions over the scene */}
+      <MicroMomentLayer />
+      <CaptionDisplay />
+
+      {/* How close the finale is */}
+      <CrescendoIndicator />
+
+      {/* Transition veil between scenes */}
+      <TransitionVeil />
+
+      {/* Developer overlay (?debug or Ctrl+Shift+D in dev) */}
+      <DirectorOverlay />
     </div>
   );
 }
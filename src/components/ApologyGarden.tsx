@@ -7,12 +7,13 @@
  * Emotion: Tenderness, vulnerability, gentle sorrow
  */
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { motion, AnimatePresence } from 'framer-motion';
 import * as THREE from 'three';
 import useSceneStore from '../core/SceneManager';
-import apologies from '../data/apologies.json';
+import { useApologies } from '../core/NarrativeBuffer';
+import { freshRandom } from '../core/Random';
 import '../styles/ApologyGarden.css';
 
 interface Apology {
@@ -78,11 +79,12 @@ const RainEffect = () => {
     if (!rainRef.current) return;
 
     const positions = new Float32Array(500 * 3);
+    const rng = freshRandom('garden:rain');
 
     for (let i = 0; i < 500; i++) {
-      positions[i * 3] = (Math.random() - 0.5) * 20;
-      positions[i * 3 + 1] = Math.random() * 20;
-      positions[i * 3 + 2] = (Math.random() - 0.5) * 20;
+      positions[i * 3] = rng.spread(20);
+      positions[i * 3 + 1] = rng.next() * 20;
+      positions[i * 3 + 2] = rng.spread(20);
     }
 
     rainRef.current.geometry.setAttribute(
@@ -125,14 +127,18 @@ const ApologyGarden = () => {
   const [currentApology, setCurrentApology] = useState<Apology | null>(null);
   const { nextScene } = useSceneStore();
 
-  const apologyList: Apology[] = apologies as Apology[];
+  const { data } = useApologies();
+  const apologyList = data as Apology[];
 
-  // Generate petal positions
-  const petalPositions: [number, number, number][] = apologyList.map((_, index) => [
-    (Math.random() - 0.5) * 8,
-    3 + Math.random() * 5,
-    (Math.random() - 0.5) * 5,
-  ]);
+  // Generate petal positions (seeded, and kept across renders)
+  const petalPositions = useMemo(() => {
+    const rng = freshRandom('garden:petals');
+    return apologyList.map((): [number, number, number] => [
+      rng.spread(8),
+      3 + rng.next() * 5,
+      rng.spread(5),
+    ]);
+  }, [apologyList]);
 
   const handlePetalCollect = (index: number) => {
     if (!collectedApologies.includes(index)) {
@@ -150,7 +156,7 @@ const ApologyGarden = () => {
     nextScene();
   };
 
-  const completionPercentage = (collectedApologies.length / apologyList.length) * 100;
+  const completionPercentage = apologyList.length > 0 ? (collectedApologies.length / apologyList.length) * 100 : 0;
 
   return (
     <div className="garden-container">
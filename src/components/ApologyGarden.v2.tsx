@@ -7,16 +7,23 @@
  * Emotion: Tenderness, soft sorrow, gentle healing, intimate vulnerability.
  */
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { motion, AnimatePresence } from 'framer-motion';
 import * as THREE from 'three';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
 
 import useSceneStore from '../core/SceneManager';
+import { useLocale } from '../core/Localization';
 import audioManager from '../core/AudioManager';
+import { useSceneProgress } from '../core/JourneyPersistence';
+import { useSceneLifecycle } from '../core/SceneLifecycle';
+import { useKioskStaging } from '../core/KioskMode';
+import { freshRandom } from '../core/Random';
 import { rainShader, waterRippleShader } from '../shaders/RainShader';
-import apologies from '../data/apologies.json';
+import { useApologies } from '../core/NarrativeBuffer';
+import { markRevealed } from '../core/ContentQuery';
+import RichText from '../ui/RichText';
 import '../styles/ApologyGarden.v2.css';
 
 interface Apology {
@@ -25,6 +32,9 @@ interface Apology {
   intensity: 'soft' | 'deep';
 }
 
+// Rain fades out before the garden lets her go
+const RAIN_FADE_SECONDS = 2;
+
 /**
  * Volumetric Rain System
  */
@@ -35,18 +45,19 @@ const VolumetricRain = () => {
   useEffect(() => {
     if (!rainRef.current) return;
 
+    const rng = freshRandom('garden:rain');
     const rainCount = 2000;
     const positions = new Float32Array(rainCount * 3);
     const sizes = new Float32Array(rainCount);
     const phases = new Float32Array(rainCount);
 
     for (let i = 0; i < rainCount; i++) {
-      positions[i * 3] = (Math.random() - 0.5) * 40;
-      positions[i * 3 + 1] = Math.random() * 30;
-      positions[i * 3 + 2] = (Math.random() - 0.5) * 30;
+      positions[i * 3] = rng.spread(40);
+      positions[i * 3 + 1] = rng.next() * 30;
+      positions[i * 3 + 2] = rng.spread(30);
 
-      sizes[i] = Math.random() * 4 + 2;
-      phases[i] = Math.random() * 100;
+      sizes[i] = rng.next() * 4 + 2;
+      phases[i] = rng.next() * 100;
     }
 
     rainRef.current.geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
@@ -118,11 +129,12 @@ const Petal = ({ initialPosition, apologyIndex, onCollect, collected }: PetalPro
   const meshRef = useRef<THREE.Mesh>(null);
   const velocity = useRef(new THREE.Vector3(0, 0, 0));
   const rotation = useRef(new THREE.Euler(0, 0, 0));
-  const rotationVelocity = useRef(new THREE.Vector3(
-    (Math.random() - 0.5) * 0.02,
-    (Math.random() - 0.5) * 0.02,
-    (Math.random() - 0.5) * 0.02
-  ));
+  // Seeded per petal and drawn once, so re-renders keep the same spin
+  const spin = useMemo(() => {
+    const rng = freshRandom(`garden:petal:${apologyIndex}`);
+    return new THREE.Vector3(rng.spread(0.02), rng.spread(0.02), rng.spread(0.02));
+  }, [apologyIndex]);
+  const rotationVelocity = useRef(spin);
 
   const [hovered, setHovered] = useState(false);
 
@@ -189,32 +201,43 @@ const Petal = ({ initialPosition, apologyIndex, onCollect, collected }: PetalPro
  * Main Apology Garden Component
  */
 const ApologyGardenV2 = () => {
-  const [collectedApologies, setCollectedApologies] = useState<Set<number>>(new Set());
+  const [collectedIndices, setCollectedIndices] = useSceneProgress<number[]>('garden', []);
+  const collectedApologies = useMemo(() => new Set(collectedIndices), [collectedIndices]);
   const [currentApology, setCurrentApology] = useState<Apology | null>(null);
-  const { nextScene } = useSceneStore();
-
-  const apologyList: Apology[] = apologies as Apology[];
-
-  // Generate initial petal positions (floating in air)
-  const petalPositions = apologyList.map((_, index) => {
-    const angle = (index / apologyList.length) * Math.PI * 2;
-    const radius = 3 + Math.random() * 2;
-
-    return new THREE.Vector3(
-      Math.cos(angle) * radius,
-      5 + Math.random() * 5,
-      Math.sin(angle) * radius
-    );
-  });
-
-  useEffect(() => {
+  const { nextScene, revealContent } = useSceneStore();
+  const { dir, t } = useLocale();
+
+  // In the active locale
+  const { data } = useApologies();
+  const apologyList = data as Apology[];
+
+  // Generate initial petal positions (floating in air; seeded)
+  const petalPositions = useMemo(() => {
+    const rng = freshRandom('garden:petals');
+    return apologyList.map((_, index) => {
+      const angle = (index / apologyList.length) * Math.PI * 2;
+      const radius = 3 + rng.next() * 2;
+
+      return new THREE.Vector3(
+        Math.cos(angle) * radius,
+        5 + rng.next() * 5,
+        Math.sin(angle) * radius
+      );
+    });
+  }, [apologyList]);
+
+  useSceneLifecycle('garden', {
     // Play rain ambient sound
-    audioManager.play('rain_garden', 2);
-
-    return () => {
-      audioManager.stop('rain_garden', 2);
-    };
-  }, []);
+    onEnter: () => {
+      audioManager.play('rain_garden', 2);
+    },
+
+    // Let the rain fade out before the garden dissolves
+    onExit: async () => {
+      audioManager.stop('rain_garden', RAIN_FADE_SECONDS);
+      await new Promise(resolve => setTimeout(resolve, RAIN_FADE_SECONDS * 1000));
+    },
+  });
 
   const handlePetalCollect = (index: number) => {
     if (collectedApologies.has(index)) return;
@@ -223,8 +246,10 @@ const ApologyGardenV2 = () => {
     audioManager.fx('petal_collect', 0.3);
 
     // Show apology
-    setCollectedApologies(prev => new Set([...prev, index]));
+    setCollectedIndices(prev => [...prev, index]);
     setCurrentApology(apologyList[index]);
+    markRevealed('apologies', data[index]);
+    revealContent();
 
     // Auto-hide after reading
     setTimeout(() => {
@@ -232,16 +257,19 @@ const ApologyGardenV2 = () => {
     }, 8000);
   };
 
+  // Kiosk: gather the petals one by one
+  useKioskStaging('garden', apologyList, (_, index) => handlePetalCollect(index));
+
   const handleContinue = () => {
     audioManager.fx('transition_whoosh', 0.3);
     nextScene();
   };
 
-  const progress = (collectedApologies.size / apologyList.length) * 100;
-  const allCollected = collectedApologies.size >= apologyList.length;
+  const progress = apologyList.length > 0 ? (collectedApologies.size / apologyList.length) * 100 : 0;
+  const allCollected = apologyList.length > 0 && collectedApologies.size >= apologyList.length;
 
   return (
-    <div className="garden-v2-container">
+    <div className="garden-v2-container" dir={dir}>
       {/* 3D Scene */}
       <div className="garden-v2-canvas">
         <Canvas camera={{ position: [0, 2, 12], fov: 55 }} dpr={[1, 2]}>
@@ -289,11 +317,11 @@ const ApologyGardenV2 = () => {
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 2 }}
         >
-          <h2 className="garden-v2-title">The Apology Garden</h2>
+          <h2 className="garden-v2-title">{t('garden.title')}</h2>
           <p className="garden-v2-subtitle">
-            Where sorrow becomes softness,
+            {t('garden.subtitle1')}
             <br />
-            and every petal carries a tender truth.
+            {t('garden.subtitle2')}
           </p>
         </motion.div>
 
@@ -309,7 +337,7 @@ const ApologyGardenV2 = () => {
               transition={{ duration: 0.8, ease: [0.43, 0.13, 0.23, 0.96] }}
             >
               <div className="apology-rain-overlay" />
-              <p className="apology-text">{currentApology.text}</p>
+              <p className="apology-text"><RichText text={currentApology.text} /></p>
             </motion.div>
           )}
         </AnimatePresence>
@@ -322,7 +350,7 @@ const ApologyGardenV2 = () => {
           transition={{ delay: 2 }}
         >
           <p className="progress-label">
-            {collectedApologies.size} / {apologyList.length} apologies read
+            {t('garden.progress', { read: collectedApologies.size, total: apologyList.length })}
           </p>
           <div className="progress-bar-container">
             <motion.div
@@ -344,7 +372,7 @@ const ApologyGardenV2 = () => {
             whileHover={{ scale: 1.05, boxShadow: '0 0 40px rgba(128, 245, 255, 0.6)' }}
             whileTap={{ scale: 0.95 }}
           >
-            Continue to Promises
+            {t('garden.continue')}
           </motion.button>
         )}
       </div>
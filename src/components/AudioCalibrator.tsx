@@ -11,13 +11,25 @@ import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import audioManager from '../core/AudioManager';
 import useSceneStore from '../core/SceneManager';
+import { useLocale } from '../core/Localization';
+import useJourneyProgressStore, {
+  hasResumableJourney,
+  resumeSavedJourney,
+  clearSavedJourney,
+} from '../core/JourneyPersistence';
 import '../styles/AudioCalibrator.css';
 
 const AudioCalibrator = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [loadProgress, setLoadProgress] = useState(0);
   const [isReady, setIsReady] = useState(false);
-  const { setScene } = useSceneStore();
+  const [resumeChoice, setResumeChoice] = useState<'resume' | 'fresh' | null>(null);
+  const { setScene, journey, scenes } = useSceneStore();
+  const { dir, t } = useLocale();
+  const savedScene = useJourneyProgressStore(s => s.currentScene);
+
+  // Offer to resume only once the journey is loaded and has a saved scene
+  const canResume = !!journey && resumeChoice === null && hasResumableJourney();
 
   useEffect(() => {
     // Preload critical audio files
@@ -51,13 +63,29 @@ const AudioCalibrator = () => {
     setIsLoading(true);
   };
 
+  const handleContinue = () => {
+    setResumeChoice('resume');
+    setIsLoading(true);
+  };
+
+  const handleStartOver = () => {
+    clearSavedJourney();
+    setResumeChoice('fresh');
+  };
+
   const handleBegin = () => {
+    if (resumeChoice === 'resume') {
+      // Step back into the saved scene
+      resumeSavedJourney();
+      return;
+    }
+
     // Start the journey
     setScene('hero');
   };
 
   return (
-    <div className="calibrator-container">
+    <div className="calibrator-container" dir={dir}>
       {/* Animated background particles */}
       <div className="calibrator-stars"></div>
 
@@ -70,11 +98,11 @@ const AudioCalibrator = () => {
             transition={{ duration: 2, ease: 'easeOut' }}
           >
             <h1 className="calibrator-title">
-              Welcome to the Loveverse
+              {t('calibrator.title')}
             </h1>
 
             <p className="calibrator-subtitle">
-              A universe built for you, Thanishka
+              {t('calibrator.subtitle')}
             </p>
 
             <motion.p
@@ -83,20 +111,58 @@ const AudioCalibrator = () => {
               animate={{ opacity: 1 }}
               transition={{ delay: 2, duration: 3 }}
             >
-              This experience is best with sound...
+              {t('calibrator.whisper')}
             </motion.p>
 
-            <motion.button
-              className="calibrator-button"
-              onClick={handleEnter}
-              initial={{ opacity: 0, scale: 0.8 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ delay: 3, duration: 1, ease: 'backOut' }}
-              whileHover={{ scale: 1.05, boxShadow: '0 0 30px rgba(255, 182, 193, 0.6)' }}
-              whileTap={{ scale: 0.95 }}
-            >
-              Enable Audio & Enter
-            </motion.button>
+            {canResume ? (
+              <>
+                <motion.button
+                  className="calibrator-button"
+                  onClick={handleContinue}
+                  initial={{ opacity: 0, scale: 0.8 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ delay: 3, duration: 1, ease: 'backOut' }}
+                  whileHover={{ scale: 1.05, boxShadow: '0 0 30px rgba(255, 182, 193, 0.6)' }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {t('calibrator.continue')}
+                </motion.button>
+
+                {savedScene && scenes.get(savedScene) && (
+                  <motion.p
+                    className="calibrator-resume-note"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 0.7 }}
+                    transition={{ delay: 3.5, duration: 1.5 }}
+                  >
+                    {t('calibrator.lastScene', { scene: scenes.get(savedScene)!.name })}
+                  </motion.p>
+                )}
+
+                <motion.button
+                  className="calibrator-button secondary"
+                  onClick={handleStartOver}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: 3.5, duration: 1 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {t('calibrator.startOver')}
+                </motion.button>
+              </>
+            ) : (
+              <motion.button
+                className="calibrator-button"
+                onClick={handleEnter}
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ delay: 3, duration: 1, ease: 'backOut' }}
+                whileHover={{ scale: 1.05, boxShadow: '0 0 30px rgba(255, 182, 193, 0.6)' }}
+                whileTap={{ scale: 0.95 }}
+              >
+                {t('calibrator.enter')}
+              </motion.button>
+            )}
 
             <motion.p
               className="calibrator-note"
@@ -104,7 +170,7 @@ const AudioCalibrator = () => {
               animate={{ opacity: 0.5 }}
               transition={{ delay: 4, duration: 2 }}
             >
-              Use headphones for the full experience
+              {t('calibrator.headphones')}
             </motion.p>
           </motion.div>
         ) : !isReady ? (
@@ -117,7 +183,7 @@ const AudioCalibrator = () => {
             <div className="loading-ring"></div>
 
             <p className="loading-text">
-              Tuning into your frequency...
+              {t('calibrator.loading')}
             </p>
 
             <div className="loading-progress">
@@ -136,10 +202,10 @@ const AudioCalibrator = () => {
             animate={{ opacity: 1, scale: 1 }}
             transition={{ duration: 1.5, ease: 'easeOut' }}
           >
-            <h2 className="ready-title">Everything is ready</h2>
+            <h2 className="ready-title">{t('calibrator.readyTitle')}</h2>
 
             <p className="ready-subtitle">
-              Take a breath. Then step through.
+              {t('calibrator.readySubtitle')}
             </p>
 
             <motion.button
@@ -154,7 +220,7 @@ const AudioCalibrator = () => {
               }}
               whileTap={{ scale: 0.95 }}
             >
-              Begin the Journey
+              {resumeChoice === 'resume' ? t('calibrator.continue') : t('calibrator.begin')}
             </motion.button>
           </motion.div>
         )}
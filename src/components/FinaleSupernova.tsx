@@ -11,9 +11,11 @@ import { useEffect, useState } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { motion, AnimatePresence } from 'framer-motion';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
+import { useLocale } from '../core/Localization';
 import '../styles/FinaleSupernova.css';
 
 const FinaleSupernova = () => {
+  const { t } = useLocale();
   const [phase, setPhase] = useState<'convergence' | 'explosion' | 'message'>('convergence');
 
   useEffect(() => {
@@ -92,7 +94,7 @@ const FinaleSupernova = () => {
                 animate={{ opacity: 1, scale: 1 }}
                 transition={{ delay: 1, duration: 2 }}
               >
-                Happy Birthday, Thanishka
+                {t('finale.title')}
               </motion.h1>
 
               <motion.p
@@ -112,7 +114,7 @@ const FinaleSupernova = () => {
                 animate={{ opacity: 0.7 }}
                 transition={{ delay: 6, duration: 2 }}
               >
-                — With all my love, Vedant
+                {t('finale.signature')}
               </motion.p>
 
               <motion.div
@@ -123,7 +125,7 @@ const FinaleSupernova = () => {
               >
                 <button
                   className="finale-restart-btn"
-                  onClick={() => window.location.reload()}
+                  onClick={() => window.location.assign(window.location.pathname)}
                 >
                   Experience Again
                 </button>
@@ -1,21 +1,29 @@
 /**
  * FinaleSupernova.v2.tsx
- * The emotional climax - orchestrated finale with heart nebula
+ * The emotional climax - orchestrated finale with heart nebula.
+ * Stages, lines and timings come from finale.json, in HeartNebulaStage order.
  */
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useMemo, useState, useRef } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { motion, AnimatePresence } from 'framer-motion';
 import { EffectComposer, Bloom, ChromaticAberration } from '@react-three/postprocessing';
 import * as THREE from 'three';
+import { useFinale } from '../core/NarrativeBuffer';
+import { orderFinaleLines } from '../core/HeartNebulaFinale';
+import { useLocale } from '../core/Localization';
+import RichText from '../ui/RichText';
 import '../styles/FinaleSupernova.v2.css';
 
-const HeartNebula = ({ phase }: { phase: string }) => {
+// Seconds between the afterglow lines appearing
+const AFTERGLOW_STAGGER = 3;
+
+const HeartNebula = ({ glow }: { glow: number }) => {
   const meshRef = useRef<THREE.Mesh>(null);
 
   useFrame((state) => {
     if (meshRef.current) {
-      const scale = phase === 'explosion' ? 3 : 0.5;
+      const scale = 0.5 + glow * 2.5;
       meshRef.current.scale.lerp(new THREE.Vector3(scale, scale, scale), 0.05);
       meshRef.current.rotation.z = state.clock.elapsedTime * 0.2;
     }
@@ -27,35 +35,50 @@ const HeartNebula = ({ phase }: { phase: string }) => {
       <meshStandardMaterial
         color="#FFCBA4"
         emissive="#FFB6C1"
-        emissiveIntensity={phase === 'explosion' ? 3 : 1}
+        emissiveIntensity={1 + glow * 2}
       />
     </mesh>
   );
 };
 
 const FinaleSupernova_V2 = () => {
-  const [phase, setPhase] = useState<'convergence' | 'explosion' | 'message'>('convergence');
+  const { data, loaded, isLoading } = useFinale();
+  const { dir, t } = useLocale();
+  const [step, setStep] = useState(0);
+
+  // Timed lines play one after another; from the first that lingers on, it's afterglow
+  const { timed, afterglow } = useMemo(() => {
+    const lines = orderFinaleLines(data);
+    const lingerFrom = lines.findIndex(line => line.stage === 'afterglow' || typeof line.timing !== 'number');
+    const split = lingerFrom === -1 ? lines.length : lingerFrom;
+    return { timed: lines.slice(0, split), afterglow: lines.slice(split) };
+  }, [data]);
+
+  const current = timed[step];
+  const showMessage = !isLoading && !current;
+  const afterglowEnd = 1 + afterglow.length * AFTERGLOW_STAGGER;
 
   useEffect(() => {
-    const timer1 = setTimeout(() => setPhase('explosion'), 3000);
-    const timer2 = setTimeout(() => setPhase('message'), 6000);
-    return () => {
-      clearTimeout(timer1);
-      clearTimeout(timer2);
-    };
-  }, []);
+    if (!current) return;
+    const timer = setTimeout(() => setStep(s => s + 1), (current.timing as number) * 1000);
+    return () => clearTimeout(timer);
+  }, [current]);
+
+  // Quiet lines stay quiet, the flare blazes
+  const intensity = current?.intensity ?? afterglow[0]?.intensity ?? (loaded ? 1 : 0.3);
+  const glow = intensity * intensity;
 
   return (
-    <div className="finale-v2-container">
+    <div className="finale-v2-container" dir={dir}>
       <div className="finale-v2-canvas">
         <Canvas camera={{ position: [0, 0, 5], fov: 75 }} dpr={[1, 2]}>
           <ambientLight intensity={0.5} />
-          <pointLight position={[0, 0, 0]} intensity={phase === 'explosion' ? 8 : 2} color="#FFB6C1" />
+          <pointLight position={[0, 0, 0]} intensity={2 + glow * 6} color="#FFB6C1" />
 
-          <HeartNebula phase={phase} />
+          <HeartNebula glow={glow} />
 
           <EffectComposer>
-            <Bloom intensity={phase === 'explosion' ? 3 : 1} luminanceThreshold={0} luminanceSmoothing={0.9} />
+            <Bloom intensity={1 + glow * 2} luminanceThreshold={0} luminanceSmoothing={0.9} />
             <ChromaticAberration offset={new THREE.Vector2(0.002, 0.002)} />
           </EffectComposer>
         </Canvas>
@@ -63,33 +86,20 @@ const FinaleSupernova_V2 = () => {
 
       <div className="finale-v2-content">
         <AnimatePresence mode="wait">
-          {phase === 'convergence' && (
-            <motion.div
-              key="convergence"
-              className="finale-phase"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              transition={{ duration: 2 }}
-            >
-              <p className="finale-subtitle">All moments converge...</p>
-            </motion.div>
-          )}
-
-          {phase === 'explosion' && (
+          {current && (
             <motion.div
-              key="explosion"
+              key={current.id}
               className="finale-phase"
-              initial={{ opacity: 0, scale: 0.5 }}
+              initial={{ opacity: 0, scale: 0.9 + current.intensity * 0.1 }}
               animate={{ opacity: 1, scale: 1 }}
               exit={{ opacity: 0 }}
-              transition={{ duration: 2 }}
+              transition={{ duration: Math.min(2, (current.timing as number) / 2) }}
             >
-              <p className="finale-subtitle">Into infinite light...</p>
+              <p className="finale-subtitle"><RichText text={current.text} /></p>
             </motion.div>
           )}
 
-          {phase === 'message' && (
+          {showMessage && (
             <motion.div
               key="message"
               className="finale-message"
@@ -97,44 +107,36 @@ const FinaleSupernova_V2 = () => {
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 3 }}
             >
-              <motion.h1
-                className="finale-title"
-                initial={{ opacity: 0, scale: 0.9 }}
-                animate={{ opacity: 1, scale: 1 }}
-                transition={{ delay: 1, duration: 2 }}
-              >
-                Happy Birthday, Thanishka
-              </motion.h1>
-
-              <motion.p
-                className="finale-quote"
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ delay: 3, duration: 3 }}
-              >
-                In a universe of infinite possibilities,
-                <br />
-                you are the one constant that makes everything make sense.
-              </motion.p>
+              {afterglow.map((line, i) => (
+                <motion.p
+                  key={line.id}
+                  className="finale-quote"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: 1 + i * AFTERGLOW_STAGGER, duration: 3 }}
+                >
+                  <RichText text={line.text} />
+                </motion.p>
+              ))}
 
               <motion.p
                 className="finale-signature"
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 0.7 }}
-                transition={{ delay: 6, duration: 2 }}
+                transition={{ delay: afterglowEnd, duration: 2 }}
               >
-                — With all my love, Vedant
+                {t('finale.signature')}
               </motion.p>
 
               <motion.button
                 className="finale-restart-btn"
-                onClick={() => window.location.reload()}
+                onClick={() => window.location.assign(window.location.pathname)}
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
-                transition={{ delay: 8, duration: 2 }}
+                transition={{ delay: afterglowEnd + 2, duration: 2 }}
                 whileHover={{ scale: 1.05 }}
               >
-                Experience Again
+                {t('finale.restart')}
               </motion.button>
             </motion.div>
           )}
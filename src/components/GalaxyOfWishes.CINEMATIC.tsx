@@ -14,7 +14,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import * as THREE from 'three';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
 import { useHapticFeedback } from '../core/useHapticFeedback';
-import wishesData from '../data/wishes.json';
+import { useWishes } from '../core/NarrativeBuffer';
+import { freshRandom, random } from '../core/Random';
 import '../styles/GalaxyOfWishes.v2.css';
 
 interface Wish {
@@ -50,23 +51,24 @@ const ParallaxStarfield = () => {
 
   // Generate layered stars (drastically reduced density)
   const starLayers = useMemo(() => {
+    const rng = freshRandom('galaxy:stars');
     const layers: Star[][] = [[], [], [], []];
 
     // Layer 0: Foreground — 80 bright stars (fast drift)
     for (let i = 0; i < 80; i++) {
       layers[0].push({
         position: new THREE.Vector3(
-          (Math.random() - 0.5) * 60,
-          (Math.random() - 0.5) * 40,
-          Math.random() * 5 + 10 // Close to camera
+          rng.spread(60),
+          rng.spread(40),
+          rng.next() * 5 + 10 // Close to camera
         ),
-        size: Math.random() * 0.4 + 0.3,
-        brightness: Math.random() * 0.5 + 0.7,
+        size: rng.next() * 0.4 + 0.3,
+        brightness: rng.next() * 0.5 + 0.7,
         layer: 0,
-        twinklePhase: Math.random() * Math.PI * 2,
+        twinklePhase: rng.next() * Math.PI * 2,
         driftVelocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 0.02,
-          (Math.random() - 0.5) * 0.02,
+          rng.spread(0.02),
+          rng.spread(0.02),
           0
         )
       });
@@ -76,17 +78,17 @@ const ParallaxStarfield = () => {
     for (let i = 0; i < 200; i++) {
       layers[1].push({
         position: new THREE.Vector3(
-          (Math.random() - 0.5) * 80,
-          (Math.random() - 0.5) * 50,
-          Math.random() * 10 - 5 // Mid depth
+          rng.spread(80),
+          rng.spread(50),
+          rng.next() * 10 - 5 // Mid depth
         ),
-        size: Math.random() * 0.25 + 0.15,
-        brightness: Math.random() * 0.4 + 0.5,
+        size: rng.next() * 0.25 + 0.15,
+        brightness: rng.next() * 0.4 + 0.5,
         layer: 1,
-        twinklePhase: Math.random() * Math.PI * 2,
+        twinklePhase: rng.next() * Math.PI * 2,
         driftVelocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 0.01,
-          (Math.random() - 0.5) * 0.01,
+          rng.spread(0.01),
+          rng.spread(0.01),
           0
         )
       });
@@ -96,17 +98,17 @@ const ParallaxStarfield = () => {
     for (let i = 0; i < 400; i++) {
       layers[2].push({
         position: new THREE.Vector3(
-          (Math.random() - 0.5) * 100,
-          (Math.random() - 0.5) * 60,
-          Math.random() * 20 - 30 // Far from camera
+          rng.spread(100),
+          rng.spread(60),
+          rng.next() * 20 - 30 // Far from camera
         ),
-        size: Math.random() * 0.15 + 0.08,
-        brightness: Math.random() * 0.3 + 0.3,
+        size: rng.next() * 0.15 + 0.08,
+        brightness: rng.next() * 0.3 + 0.3,
         layer: 2,
-        twinklePhase: Math.random() * Math.PI * 2,
+        twinklePhase: rng.next() * Math.PI * 2,
         driftVelocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 0.005,
-          (Math.random() - 0.5) * 0.005,
+          rng.spread(0.005),
+          rng.spread(0.005),
           0
         )
       });
@@ -116,17 +118,17 @@ const ParallaxStarfield = () => {
     for (let i = 0; i < 600; i++) {
       layers[3].push({
         position: new THREE.Vector3(
-          (Math.random() - 0.5) * 120,
-          (Math.random() - 0.5) * 70,
-          Math.random() * 30 - 50 // Deep background
+          rng.spread(120),
+          rng.spread(70),
+          rng.next() * 30 - 50 // Deep background
         ),
-        size: Math.random() * 0.08 + 0.03,
-        brightness: Math.random() * 0.2 + 0.2,
+        size: rng.next() * 0.08 + 0.03,
+        brightness: rng.next() * 0.2 + 0.2,
         layer: 3,
-        twinklePhase: Math.random() * Math.PI * 2,
+        twinklePhase: rng.next() * Math.PI * 2,
         driftVelocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 0.002,
-          (Math.random() - 0.5) * 0.002,
+          rng.spread(0.002),
+          rng.spread(0.002),
           0
         )
       });
@@ -348,20 +350,15 @@ const ShootingStar = ({
   const lifetime = useRef(0);
   const trailPoints = useRef<THREE.Vector3[]>([]);
 
-  // Determine velocity based on direction
-  const velocity = useRef(
-    direction === 'outward'
-      ? new THREE.Vector3(
-          (Math.random() - 0.5) * 15,
-          Math.random() * 8 + 5,
-          (Math.random() - 0.5) * 3
-        )
-      : new THREE.Vector3(
-          -startPos.x * 0.3,
-          -startPos.y * 0.3,
-          -startPos.z * 0.5
-        )
-  );
+  // Determine velocity based on direction (seeded per wish, drawn once)
+  const launchVelocity = useMemo(() => {
+    if (direction !== 'outward') {
+      return new THREE.Vector3(-startPos.x * 0.3, -startPos.y * 0.3, -startPos.z * 0.5);
+    }
+    const launch = freshRandom(`galaxy:shooting-star:${wishId}`);
+    return new THREE.Vector3(launch.spread(15), launch.next() * 8 + 5, launch.spread(3));
+  }, [direction, startPos, wishId]);
+  const velocity = useRef(launchVelocity);
 
   useFrame((state, delta) => {
     if (!starRef.current) return;
@@ -463,9 +460,10 @@ const GalaxyOfWishes_Cinematic = () => {
   const [currentWishIndex, setCurrentWishIndex] = useState(0);
   const { trigger } = useHapticFeedback();
 
-  const wishes = wishesData as Wish[];
-  const currentWish = wishes[currentWishIndex];
-  const progress = releasedWishes.length / wishes.length;
+  const { data } = useWishes();
+  const wishes = data as Wish[];
+  const currentWish: Wish | undefined = wishes[currentWishIndex];
+  const progress = wishes.length > 0 ? releasedWishes.length / wishes.length : 0;
 
   // Ambient guidance text (changes as user progresses)
   const guidanceText = useMemo(() => {
@@ -477,16 +475,18 @@ const GalaxyOfWishes_Cinematic = () => {
   }, [releasedWishes.length, progress]);
 
   const handleStarClick = () => {
-    if (releasedWishes.includes(currentWish.id)) return;
+    if (!currentWish || releasedWishes.includes(currentWish.id)) return;
+
+    const rng = random('galaxy:shooting-stars');
 
     // 50/50 chance: outward or inward
-    const direction = Math.random() > 0.5 ? 'outward' : 'inward';
+    const direction = rng.next() > 0.5 ? 'outward' : 'inward';
 
     // Random start position on screen edges
     const startPos = new THREE.Vector3(
-      (Math.random() - 0.5) * 40,
-      (Math.random() - 0.5) * 25,
-      Math.random() * 5
+      rng.spread(40),
+      rng.spread(25),
+      rng.next() * 5
     );
 
     setActiveShootingStars((prev) => [
@@ -571,7 +571,7 @@ const GalaxyOfWishes_Cinematic = () => {
 
         {/* Current wish display */}
         <AnimatePresence mode="wait">
-          {!releasedWishes.includes(currentWish.id) && (
+          {currentWish && !releasedWishes.includes(currentWish.id) && (
             <motion.div
               key={currentWish.id}
               className="wish-display"
@@ -14,7 +14,7 @@ import * as THREE from 'three';
 import { createParticleSystem } from '../core/ParticleEngine';
 import useSceneStore from '../core/SceneManager';
 import audioManager from '../core/AudioManager';
-import wishesData from '../data/wishes.json';
+import { useWishes } from '../core/NarrativeBuffer';
 import '../styles/GalaxyOfWishes.css';
 
 interface Wish {
@@ -68,6 +68,9 @@ const GalaxyBackground = () => {
 
     particleSystemRef.current = particleSystem;
 
+    // The stars pulse on the beats of whatever is playing
+    particleSystem.pulseWithAudio();
+
     if (groupRef.current) {
       groupRef.current.add(particleSystem.points);
     }
@@ -96,10 +99,13 @@ const GalaxyOfWishes = () => {
   const [showStar, setShowStar] = useState(false);
   const { nextScene } = useSceneStore();
 
-  const wishes: Wish[] = wishesData as Wish[];
-  const currentWish = currentWishIndex !== null ? wishes[currentWishIndex] : null;
+  const { data } = useWishes();
+  const wishes = data as Wish[];
+  const currentWish = currentWishIndex !== null ? wishes[currentWishIndex] ?? null : null;
 
   const handleStarClick = () => {
+    if (wishes.length === 0) return;
+
     // Play sound effect
     audioManager.fx('star_click', 0.3);
 
@@ -205,7 +211,7 @@ const GalaxyOfWishes = () => {
               className="progress-fill"
               initial={{ width: '0%' }}
               animate={{
-                width: `${((currentWishIndex !== null ? currentWishIndex + 1 : 0) / wishes.length) * 100}%`,
+                width: `${wishes.length > 0 ? ((currentWishIndex !== null ? currentWishIndex + 1 : 0) / wishes.length) * 100 : 0}%`,
               }}
               transition={{ duration: 0.5 }}
             ></motion.div>
@@ -14,13 +14,21 @@ import { motion, AnimatePresence } from 'framer-motion';
 import * as THREE from 'three';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
 import { useHapticFeedback } from '../core/useHapticFeedback';
-import wishesData from '../data/wishes.json';
+import { createParticleSystem, type ParticleSystem } from '../core/ParticleEngine';
+import useSceneStore from '../core/SceneManager';
+import { useLocale } from '../core/Localization';
+import { useSceneProgress } from '../core/JourneyPersistence';
+import { useKioskStaging } from '../core/KioskMode';
+import { freshRandom, random } from '../core/Random';
+import { formatCountdown, scheduleContent, sealedContent, useScheduleClock } from '../core/ContentSchedule';
+import { useWishes } from '../core/NarrativeBuffer';
+import { markRevealed } from '../core/ContentQuery';
+import type { EmotionalContent } from '../core/ContentTypes';
+import RichText from '../ui/RichText';
 import '../styles/GalaxyOfWishes.v2.css';
 
-interface Wish {
+interface Wish extends EmotionalContent {
   id: number;
-  text: string;
-  emotion: string;
   animation: 'shooting-star' | 'twinkle' | 'bloom' | 'spiral' | 'pulse';
   intensity: string;
   timing: number;
@@ -50,23 +58,24 @@ const ParallaxStarfield = () => {
 
   // Generate layered stars (drastically reduced density)
   const starLayers = useMemo(() => {
+    const rng = freshRandom('galaxy:stars');
     const layers: Star[][] = [[], [], [], []];
 
     // Layer 0: Foreground — 80 bright stars (fast drift)
     for (let i = 0; i < 80; i++) {
       layers[0].push({
         position: new THREE.Vector3(
-          (Math.random() - 0.5) * 60,
-          (Math.random() - 0.5) * 40,
-          Math.random() * 5 + 10 // Close to camera
+          rng.spread(60),
+          rng.spread(40),
+          rng.next() * 5 + 10 // Close to camera
         ),
-        size: Math.random() * 0.4 + 0.3,
-        brightness: Math.random() * 0.5 + 0.7,
+        size: rng.next() * 0.4 + 0.3,
+        brightness: rng.next() * 0.5 + 0.7,
         layer: 0,
-        twinklePhase: Math.random() * Math.PI * 2,
+        twinklePhase: rng.next() * Math.PI * 2,
         driftVelocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 0.02,
-          (Math.random() - 0.5) * 0.02,
+          rng.spread(0.02),
+          rng.spread(0.02),
           0
         )
       });
@@ -76,17 +85,17 @@ const ParallaxStarfield = () => {
     for (let i = 0; i < 200; i++) {
       layers[1].push({
         position: new THREE.Vector3(
-          (Math.random() - 0.5) * 80,
-          (Math.random() - 0.5) * 50,
-          Math.random() * 10 - 5 // Mid depth
+          rng.spread(80),
+          rng.spread(50),
+          rng.next() * 10 - 5 // Mid depth
         ),
-        size: Math.random() * 0.25 + 0.15,
-        brightness: Math.random() * 0.4 + 0.5,
+        size: rng.next() * 0.25 + 0.15,
+        brightness: rng.next() * 0.4 + 0.5,
         layer: 1,
-        twinklePhase: Math.random() * Math.PI * 2,
+        twinklePhase: rng.next() * Math.PI * 2,
         driftVelocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 0.01,
-          (Math.random() - 0.5) * 0.01,
+          rng.spread(0.01),
+          rng.spread(0.01),
           0
         )
       });
@@ -96,17 +105,17 @@ const ParallaxStarfield = () => {
     for (let i = 0; i < 400; i++) {
       layers[2].push({
         position: new THREE.Vector3(
-          (Math.random() - 0.5) * 100,
-          (Math.random() - 0.5) * 60,
-          Math.random() * 20 - 30 // Far from camera
+          rng.spread(100),
+          rng.spread(60),
+          rng.next() * 20 - 30 // Far from camera
         ),
-        size: Math.random() * 0.15 + 0.08,
-        brightness: Math.random() * 0.3 + 0.3,
+        size: rng.next() * 0.15 + 0.08,
+        brightness: rng.next() * 0.3 + 0.3,
         layer: 2,
-        twinklePhase: Math.random() * Math.PI * 2,
+        twinklePhase: rng.next() * Math.PI * 2,
         driftVelocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 0.005,
-          (Math.random() - 0.5) * 0.005,
+          rng.spread(0.005),
+          rng.spread(0.005),
           0
         )
       });
@@ -116,17 +125,17 @@ const ParallaxStarfield = () => {
     for (let i = 0; i < 600; i++) {
       layers[3].push({
         position: new THREE.Vector3(
-          (Math.random() - 0.5) * 120,
-          (Math.random() - 0.5) * 70,
-          Math.random() * 30 - 50 // Deep background
+          rng.spread(120),
+          rng.spread(70),
+          rng.next() * 30 - 50 // Deep background
         ),
-        size: Math.random() * 0.08 + 0.03,
-        brightness: Math.random() * 0.2 + 0.2,
+        size: rng.next() * 0.08 + 0.03,
+        brightness: rng.next() * 0.2 + 0.2,
         layer: 3,
-        twinklePhase: Math.random() * Math.PI * 2,
+        twinklePhase: rng.next() * Math.PI * 2,
         driftVelocity: new THREE.Vector3(
-          (Math.random() - 0.5) * 0.002,
-          (Math.random() - 0.5) * 0.002,
+          rng.spread(0.002),
+          rng.spread(0.002),
           0
         )
       });
@@ -328,6 +337,45 @@ const NebulaHaze = () => {
   );
 };
 
+/**
+ * Beat Dust — a faint layer between the stars that pulses on the beats
+ * of whatever is playing
+ */
+const BeatDust = () => {
+  const groupRef = useRef<THREE.Group>(null);
+  const particleSystemRef = useRef<ParticleSystem | null>(null);
+
+  useEffect(() => {
+    const particleSystem = createParticleSystem('dust', {
+      count: 600,
+      size: 0.08,
+      color: ['#FFE4F0', '#B794F6', '#80F5FF'],
+      spread: 40,
+      opacity: 0.5,
+      speed: 0.003,
+      randomness: 0.4,
+      stream: 'galaxy:beat-dust',
+    });
+    particleSystemRef.current = particleSystem;
+    particleSystem.pulseWithAudio();
+
+    const group = groupRef.current;
+    group?.add(particleSystem.points);
+
+    return () => {
+      group?.remove(particleSystem.points);
+      particleSystem.dispose();
+      particleSystemRef.current = null;
+    };
+  }, []);
+
+  useFrame((_, delta) => {
+    particleSystemRef.current?.update(delta);
+  });
+
+  return <group ref={groupRef} />;
+};
+
 /**
  * Hybrid Shooting Star System
  * 50% outward (released wish), 50% inward (joins constellation)
@@ -348,20 +396,15 @@ const ShootingStar = ({
   const lifetime = useRef(0);
   const trailPoints = useRef<THREE.Vector3[]>([]);
 
-  // Determine velocity based on direction
-  const velocity = useRef(
-    direction === 'outward'
-      ? new THREE.Vector3(
-          (Math.random() - 0.5) * 15,
-          Math.random() * 8 + 5,
-          (Math.random() - 0.5) * 3
-        )
-      : new THREE.Vector3(
-          -startPos.x * 0.3,
-          -startPos.y * 0.3,
-          -startPos.z * 0.5
-        )
-  );
+  // Determine velocity based on direction (seeded per wish, drawn once)
+  const launchVelocity = useMemo(() => {
+    if (direction !== 'outward') {
+      return new THREE.Vector3(-startPos.x * 0.3, -startPos.y * 0.3, -startPos.z * 0.5);
+    }
+    const launch = freshRandom(`galaxy:shooting-star:${wishId}`);
+    return new THREE.Vector3(launch.spread(15), launch.next() * 8 + 5, launch.spread(3));
+  }, [direction, startPos, wishId]);
+  const velocity = useRef(launchVelocity);
 
   useFrame((state, delta) => {
     if (!starRef.current) return;
@@ -452,7 +495,9 @@ const ConstellationCluster = ({ points }: { points: ConstellationPoint[] }) => {
  * Main Galaxy Scene
  */
 const GalaxyOfWishesV2 = () => {
-  const [releasedWishes, setReleasedWishes] = useState<number[]>([]);
+  const [releasedWishes, setReleasedWishes] = useSceneProgress<number[]>('galaxy', []);
+  const { revealContent } = useSceneStore();
+  const { dir, t, locale } = useLocale();
   const [activeShootingStars, setActiveShootingStars] = useState<Array<{
     id: number;
     startPos: THREE.Vector3;
@@ -460,33 +505,42 @@ const GalaxyOfWishesV2 = () => {
     wishId: number;
   }>>([]);
   const [constellationPoints, setConstellationPoints] = useState<ConstellationPoint[]>([]);
-  const [currentWishIndex, setCurrentWishIndex] = useState(0);
+
+  // In the active locale, sealed ones included: wishes open today show, the
+  // ones sent ahead wait as sealed stars
+  const { data } = useWishes({ includeLocked: true });
+  const allWishes = data as Wish[];
+  const now = useScheduleClock(allWishes);
+  const wishes = useMemo(() => scheduleContent(allWishes, now), [allWishes, now]);
+  const sealedWishes = useMemo(() => sealedContent(allWishes, now), [allWishes, now]);
   const { trigger } = useHapticFeedback();
 
-  const wishes = wishesData as Wish[];
-  const currentWish = wishes[currentWishIndex];
-  const progress = releasedWishes.length / wishes.length;
+  // The first wish not yet released (resumes where the journey left off)
+  const currentWish: Wish | undefined = wishes.find(w => !releasedWishes.includes(w.id));
+  const progress = wishes.length > 0 ? releasedWishes.length / wishes.length : 0;
 
   // Ambient guidance text (changes as user progresses)
   const guidanceText = useMemo(() => {
-    if (releasedWishes.length === 0) return 'A star waits for your touch';
-    if (progress < 0.3) return 'The cosmos listens';
-    if (progress < 0.6) return 'Your wishes are writing the sky';
-    if (progress < 0.9) return 'A constellation takes shape';
-    return 'The universe holds your heart';
-  }, [releasedWishes.length, progress]);
+    if (releasedWishes.length === 0) return t('galaxy.guidance.waiting');
+    if (progress < 0.3) return t('galaxy.guidance.listening');
+    if (progress < 0.6) return t('galaxy.guidance.writing');
+    if (progress < 0.9) return t('galaxy.guidance.forming');
+    return t('galaxy.guidance.complete');
+  }, [releasedWishes.length, progress, t]);
 
   const handleStarClick = () => {
-    if (releasedWishes.includes(currentWish.id)) return;
+    if (!currentWish || releasedWishes.includes(currentWish.id)) return;
+
+    const rng = random('galaxy:shooting-stars');
 
     // 50/50 chance: outward or inward
-    const direction = Math.random() > 0.5 ? 'outward' : 'inward';
+    const direction = rng.next() > 0.5 ? 'outward' : 'inward';
 
     // Random start position on screen edges
     const startPos = new THREE.Vector3(
-      (Math.random() - 0.5) * 40,
-      (Math.random() - 0.5) * 25,
-      Math.random() * 5
+      rng.spread(40),
+      rng.spread(25),
+      rng.next() * 5
     );
 
     setActiveShootingStars((prev) => [
@@ -500,12 +554,16 @@ const GalaxyOfWishesV2 = () => {
     ]);
 
     setReleasedWishes((prev) => [...prev, currentWish.id]);
-    setCurrentWishIndex((prev) => (prev + 1) % wishes.length);
+    markRevealed('wishes', currentWish);
+    revealContent();
 
     // Haptic feedback
     trigger('light');
   };
 
+  // Kiosk: release the wishes one by one
+  useKioskStaging('galaxy', wishes, () => handleStarClick());
+
   const handleShootingStarComplete = (wishId: number, finalPos?: THREE.Vector3) => {
     setActiveShootingStars((prev) => prev.filter((star) => star.wishId !== wishId));
 
@@ -523,7 +581,7 @@ const GalaxyOfWishesV2 = () => {
   };
 
   return (
-    <div className="galaxy-container">
+    <div className="galaxy-container" dir={dir}>
       <div className="galaxy-canvas">
         <Canvas camera={{ position: [0, 0, 30], fov: 60 }} dpr={[1, 2]}>
           <color attach="background" args={['#0a0a1a']} />
@@ -534,6 +592,9 @@ const GalaxyOfWishesV2 = () => {
           {/* Parallax starfield (4 layers) */}
           <ParallaxStarfield />
 
+          {/* Dust that moves with the music */}
+          <BeatDust />
+
           {/* Constellation cluster */}
           <ConstellationCluster points={constellationPoints} />
 
@@ -571,7 +632,7 @@ const GalaxyOfWishesV2 = () => {
 
         {/* Current wish display */}
         <AnimatePresence mode="wait">
-          {!releasedWishes.includes(currentWish.id) && (
+          {currentWish && !releasedWishes.includes(currentWish.id) && (
             <motion.div
               key={currentWish.id}
               className="wish-display"
@@ -581,10 +642,24 @@ const GalaxyOfWishesV2 = () => {
               transition={{ duration: 1 }}
               onClick={handleStarClick}
             >
-              <p className="wish-text">{currentWish.text}</p>
+              <p className="wish-text"><RichText text={currentWish.text} /></p>
             </motion.div>
           )}
         </AnimatePresence>
+
+        {/* Wishes sent ahead: sealed stars counting down to their day */}
+        {sealedWishes.length > 0 && (
+          <ul className="sealed-stars" aria-label={t('galaxy.sealed')}>
+            {sealedWishes.map((wish) => (
+              <li key={wish.id} className="sealed-star">
+                <span className="sealed-star-glyph" aria-hidden="true">✦</span>
+                <span className="sealed-star-countdown">
+                  {t('sealed.opens', { when: formatCountdown(wish.opensAt - now, locale) })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </div>
   );
@@ -23,7 +23,9 @@ import useSettingsStore from '../core/SettingsManager';
 import useCaptionStore, { createCaption } from '../core/CaptionManager';
 import audioManager from '../core/AudioManager';
 import useSceneStore from '../core/SceneManager';
-import wishesData from '../data/wishes.json';
+import { useLocale } from '../core/Localization';
+import { useWishes } from '../core/NarrativeBuffer';
+import { freshRandom } from '../core/Random';
 import '../styles/GalaxyOfWishes.v3.css';
 
 // Optimized galaxy background particles using InstancedMesh
@@ -36,6 +38,7 @@ const GalaxyParticles = () => {
     if (!meshRef.current) return;
 
     const dummy = new THREE.Object3D();
+    const rng = freshRandom('galaxy:particles');
 
     for (let i = 0; i < particleCount; i++) {
       // Spiral galaxy distribution
@@ -43,10 +46,10 @@ const GalaxyParticles = () => {
       const radius = i * 0.02;
 
       dummy.position.x = Math.cos(angle) * radius;
-      dummy.position.y = (Math.random() - 0.5) * 10;
+      dummy.position.y = rng.spread(10);
       dummy.position.z = Math.sin(angle) * radius;
 
-      dummy.scale.setScalar(Math.random() * 0.3 + 0.1);
+      dummy.scale.setScalar(rng.next() * 0.3 + 0.1);
       dummy.updateMatrix();
 
       meshRef.current.setMatrixAt(i, dummy.matrix);
@@ -102,11 +105,13 @@ const GalaxyOfWishes = () => {
   const [focusedIndex, setFocusedIndex] = useState(0);
   const { setScene } = useSceneStore();
   const { showCaption } = useCaptionStore();
+  const { tokens } = useLocale();
   const { accessibility } = useSettingsStore();
 
-  const wishes = wishesData.slice(0, 10); // Limit to 10 wishes
+  const { data } = useWishes();
+  const wishes = data.slice(0, 10); // Limit to 10 wishes
   const totalWishes = wishes.length;
-  const progress = (revealedWishes.size / totalWishes) * 100;
+  const progress = totalWishes > 0 ? (revealedWishes.size / totalWishes) * 100 : 0;
 
   useEffect(() => {
     showCaption(
@@ -114,16 +119,18 @@ const GalaxyOfWishes = () => {
         'galaxy-intro',
         'Each star holds a wish I made for you. Click to reveal them.',
         5000,
-        'Vedant'
+        tokens.author
       )
     );
-  }, [showCaption]);
+  }, [showCaption, tokens.author]);
 
   // Keyboard navigation
   useEffect(() => {
     if (!accessibility.keyboardNavigation) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (totalWishes === 0) return;
+
       if (e.key === 'ArrowRight') {
         setFocusedIndex((prev) => (prev + 1) % totalWishes);
       } else if (e.key === 'ArrowLeft') {
@@ -146,7 +153,7 @@ const GalaxyOfWishes = () => {
     // audioManager.fx('wish_reveal'); // When audio exists
 
     showCaption(
-      createCaption('wish-' + index, wishes[index].text, 4000, 'Vedant')
+      createCaption('wish-' + index, wishes[index].text, 4000, tokens.author)
     );
 
     // Auto-close after 4s
@@ -14,6 +14,7 @@ import { motion } from 'framer-motion';
 import * as THREE from 'three';
 import { createParticleSystem } from '../core/ParticleEngine';
 import useSceneStore from '../core/SceneManager';
+import { useLocale } from '../core/Localization';
 import '../styles/HeroScene.css';
 
 // 3D Particle Background
@@ -34,6 +35,9 @@ const ParticleField = () => {
 
     particleSystemRef.current = particleSystem;
 
+    // The stars pulse on the beats of whatever is playing
+    particleSystem.pulseWithAudio();
+
     if (groupRef.current) {
       groupRef.current.add(particleSystem.points);
     }
@@ -59,6 +63,7 @@ const ParticleField = () => {
 
 const HeroScene = () => {
   const { nextScene } = useSceneStore();
+  const { t } = useLocale();
 
   const handleContinue = () => {
     nextScene();
@@ -87,7 +92,7 @@ const HeroScene = () => {
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 1, duration: 2 }}
           >
-            For Thanishka
+            {t('hero.title')}
           </motion.h1>
 
           <motion.div
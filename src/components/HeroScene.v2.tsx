@@ -8,7 +8,7 @@
  * Emotion: Overwhelming awe, cosmic belonging, intimate grandeur.
  */
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useRef, useState, type RefObject } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { motion } from 'framer-motion';
 import * as THREE from 'three';
@@ -18,7 +18,11 @@ import { BlendFunction } from 'postprocessing';
 import { useParallax } from '../core/ParallaxController';
 import { auroraShader, volumetricLightShader, nebulaShader } from '../core/ShaderLibrary';
 import useSceneStore from '../core/SceneManager';
-import audioManager from '../core/AudioManager';
+import { useLocale } from '../core/Localization';
+import audioManager, { MASTER_AUDIO } from '../core/AudioManager';
+import { createParticleSystem, type ParticleSystem } from '../core/ParticleEngine';
+import { AmbientEmotionLayer } from '../core/AmbientEmotionLayer';
+import { freshRandom } from '../core/Random';
 import '../styles/HeroScene.v2.css';
 
 /**
@@ -109,21 +113,22 @@ const InteractiveParticles = () => {
     const color1 = new THREE.Color('#FFB6C1');
     const color2 = new THREE.Color('#8A4FFF');
     const color3 = new THREE.Color('#80F5FF');
+    const rng = freshRandom('hero:particles');
 
     for (let i = 0; i < particleCount; i++) {
       const i3 = i * 3;
 
       // Spherical distribution
-      const radius = 15 + Math.random() * 20;
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos(2 * Math.random() - 1);
+      const radius = 15 + rng.next() * 20;
+      const theta = rng.next() * Math.PI * 2;
+      const phi = Math.acos(2 * rng.next() - 1);
 
       positions[i3] = radius * Math.sin(phi) * Math.cos(theta);
       positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta);
       positions[i3 + 2] = radius * Math.cos(phi) - 10;
 
       // Random color from palette
-      const colorChoice = Math.random();
+      const colorChoice = rng.next();
       const color = colorChoice < 0.33 ? color1 : colorChoice < 0.66 ? color2 : color3;
 
       colors[i3] = color.r;
@@ -131,12 +136,12 @@ const InteractiveParticles = () => {
       colors[i3 + 2] = color.b;
 
       // Size variation
-      sizes[i] = Math.random() * 2 + 0.5;
+      sizes[i] = rng.next() * 2 + 0.5;
 
       // Initial velocities
-      velocities[i3] = (Math.random() - 0.5) * 0.02;
-      velocities[i3 + 1] = (Math.random() - 0.5) * 0.02;
-      velocities[i3 + 2] = (Math.random() - 0.5) * 0.01;
+      velocities[i3] = rng.spread(0.02);
+      velocities[i3 + 1] = rng.spread(0.02);
+      velocities[i3 + 2] = rng.spread(0.01);
     }
 
     const geometry = particlesRef.current.geometry;
@@ -245,16 +250,74 @@ const VolumetricLight = () => {
   );
 };
 
+/**
+ * Beat Stars — a fine star dust that follows the music: it pulses on each
+ * beat, and the ambient layer breathes it (and the scene light) deeper as
+ * the music swells
+ */
+const BeatStars = ({ ambientLight }: { ambientLight: RefObject<THREE.AmbientLight | null> }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const particleSystemRef = useRef<ParticleSystem | null>(null);
+  const layerRef = useRef<AmbientEmotionLayer | null>(null);
+  const emotion = useSceneStore(state => state.scenes.get(state.currentScene)?.emotion ?? 'awe');
+
+  useEffect(() => {
+    const particleSystem = createParticleSystem('stars', {
+      count: 800,
+      size: 0.06,
+      color: ['#FFB6C1', '#8A4FFF', '#80F5FF'],
+      spread: 30,
+      opacity: 0.7,
+      speed: 0.004,
+      randomness: 0.3,
+      stream: 'hero:beat-stars',
+    });
+    particleSystemRef.current = particleSystem;
+    particleSystem.pulseWithAudio();
+
+    const group = groupRef.current;
+    group?.add(particleSystem.points);
+
+    const layer = new AmbientEmotionLayer();
+    layer.attach({
+      particleSystem: particleSystem.points,
+      ambientLight: ambientLight.current ?? undefined,
+      audio: MASTER_AUDIO,
+    });
+    layerRef.current = layer;
+
+    return () => {
+      layer.dispose();
+      layerRef.current = null;
+      group?.remove(particleSystem.points);
+      particleSystem.dispose();
+      particleSystemRef.current = null;
+    };
+  }, [ambientLight]);
+
+  useEffect(() => {
+    layerRef.current?.setEmotion(emotion);
+  }, [emotion]);
+
+  useFrame((_, delta) => {
+    particleSystemRef.current?.update(delta);
+  });
+
+  return <group ref={groupRef} />;
+};
+
 /**
  * Main Hero Scene Component
  */
 const HeroSceneV2 = () => {
   const { nextScene } = useSceneStore();
+  const { dir, t } = useLocale();
   const { registerLayer } = useParallax({ intensity: 0.5, ease: 0.08 });
 
   const layer1Ref = useRef<HTMLDivElement>(null);
   const layer2Ref = useRef<HTMLDivElement>(null);
   const layer3Ref = useRef<HTMLDivElement>(null);
+  const ambientLightRef = useRef<THREE.AmbientLight>(null);
 
   const [textVisible, setTextVisible] = useState(false);
 
@@ -279,12 +342,12 @@ const HeroSceneV2 = () => {
   };
 
   return (
-    <div className="hero-v2-container">
+    <div className="hero-v2-container" dir={dir}>
       {/* 3D Canvas Layer */}
       <div className="hero-v2-canvas">
         <Canvas camera={{ position: [0, 0, 25], fov: 60 }} dpr={[1, 2]}>
           {/* Lighting */}
-          <ambientLight intensity={0.3} />
+          <ambientLight ref={ambientLightRef} intensity={0.3} />
           <pointLight position={[0, 0, 10]} intensity={2} color="#FFB6C1" distance={30} decay={2} />
           <pointLight position={[-10, -10, 5]} intensity={1} color="#8A4FFF" distance={25} decay={2} />
 
@@ -295,6 +358,7 @@ const HeroSceneV2 = () => {
 
           {/* Particles */}
           <InteractiveParticles />
+          <BeatStars ambientLight={ambientLightRef} />
 
           {/* Center volumetric light */}
           <VolumetricLight />
@@ -342,7 +406,7 @@ const HeroSceneV2 = () => {
                 animate={{ opacity: 1, y: 0, scale: 1 }}
                 transition={{ duration: 2, ease: [0.43, 0.13, 0.23, 0.96] }}
               >
-                For Thanishka
+                {t('hero.title')}
               </motion.h1>
 
               <motion.div
@@ -352,10 +416,10 @@ const HeroSceneV2 = () => {
                 transition={{ delay: 1.5, duration: 2.5 }}
               >
                 <p className="hero-v2-subtitle">
-                  In a universe of infinite stars,
+                  {t('hero.subtitle')}
                 </p>
                 <p className="hero-v2-subtitle-accent">
-                  you are the one that made me believe in light.
+                  {t('hero.subtitleAccent')}
                 </p>
               </motion.div>
 
@@ -365,11 +429,11 @@ const HeroSceneV2 = () => {
                 animate={{ opacity: 1 }}
                 transition={{ delay: 3.5, duration: 3 }}
               >
-                Every particle carries your name.
+                {t('hero.message1')}
                 <br />
-                Every photon remembers your smile.
+                {t('hero.message2')}
                 <br />
-                This dimension exists because you do.
+                {t('hero.message3')}
               </motion.p>
             </>
           )}
@@ -393,12 +457,12 @@ const HeroSceneV2 = () => {
                 }}
                 whileTap={{ scale: 0.95 }}
               >
-                <span className="button-text">Enter the Universe</span>
+                <span className="button-text">{t('hero.enter')}</span>
                 <span className="button-glow"></span>
               </motion.button>
 
               <p className="hero-v2-hint">
-                Press Space or click to continue
+                {t('hero.hint')}
               </p>
             </motion.div>
           )}
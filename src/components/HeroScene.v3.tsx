@@ -25,6 +25,8 @@ import useSettingsStore from '../core/SettingsManager';
 import useCaptionStore, { createCaption } from '../core/CaptionManager';
 import audioManager from '../core/AudioManager';
 import useSceneStore from '../core/SceneManager';
+import { freshRandom } from '../core/Random';
+import { useLocale } from '../core/Localization';
 import '../styles/HeroScene.v3.css';
 
 // Adaptive Interactive Particles (500-3000 based on settings)
@@ -44,24 +46,25 @@ const InteractiveParticles = () => {
     const positions = new Float32Array(particleCount * 3);
     const velocities = new Float32Array(particleCount * 3);
     const sizes = new Float32Array(particleCount);
+    const rng = freshRandom('hero:particles');
 
     for (let i = 0; i < particleCount; i++) {
       const i3 = i * 3;
 
       // Spherical distribution
-      const radius = Math.random() * 20 + 5;
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos(2 * Math.random() - 1);
+      const radius = rng.next() * 20 + 5;
+      const theta = rng.next() * Math.PI * 2;
+      const phi = Math.acos(2 * rng.next() - 1);
 
       positions[i3] = radius * Math.sin(phi) * Math.cos(theta);
       positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta);
       positions[i3 + 2] = radius * Math.cos(phi);
 
-      velocities[i3] = (Math.random() - 0.5) * 0.02;
-      velocities[i3 + 1] = (Math.random() - 0.5) * 0.02;
-      velocities[i3 + 2] = (Math.random() - 0.5) * 0.02;
+      velocities[i3] = rng.spread(0.02);
+      velocities[i3 + 1] = rng.spread(0.02);
+      velocities[i3 + 2] = rng.spread(0.02);
 
-      sizes[i] = Math.random() * 0.1 + 0.05;
+      sizes[i] = rng.next() * 0.1 + 0.05;
     }
 
     particlesRef.current.geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
@@ -208,6 +211,7 @@ const HeroScene = () => {
   const { setScene } = useSceneStore();
   const { performance, accessibility } = useSettingsStore();
   const { showCaption } = useCaptionStore();
+  const { t, tokens } = useLocale();
 
   useEffect(() => {
     // Detect device capabilities on mount
@@ -227,15 +231,15 @@ const HeroScene = () => {
           'hero-welcome',
           'Welcome to a universe built with love, just for you.',
           4000,
-          'Vedant'
+          tokens.author
         )
       );
     }, 2000);
-  }, [showCaption]);
+  }, [showCaption, tokens.author]);
 
   const handleEnter = () => {
     showCaption(
-      createCaption('hero-transition', 'Let the journey begin...', 2000, 'Vedant')
+      createCaption('hero-transition', 'Let the journey begin...', 2000, tokens.author)
     );
 
     setTimeout(() => {
@@ -288,7 +292,7 @@ const HeroScene = () => {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 2, ease: 'easeOut' }}
           >
-            For Thanishka
+            {t('hero.title')}
           </motion.h1>
         )}
 
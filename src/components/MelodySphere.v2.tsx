@@ -1,6 +1,7 @@
 /**
  * MelodySphere.v2.tsx
  * Real-time audio visualization with beat-reactive particles
+ * (the master mix's analysis: bass swells the sphere, onsets kick it)
  */
 
 import { useRef, useState } from 'react';
@@ -9,17 +10,32 @@ import { motion } from 'framer-motion';
 import * as THREE from 'three';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
 import useSceneStore from '../core/SceneManager';
+import { useLocale } from '../core/Localization';
+import { useKioskStaging } from '../core/KioskMode';
+import { useAudioAnalysis } from '../core/AudioManager';
 import '../styles/MelodySphere.v2.css';
 
+// Quieter than this, nothing is really playing: the sphere breathes on its own
+const SILENCE_RMS = 0.01;
+
+// How fast an onset's kick fades (per second)
+const KICK_DECAY = 4;
+
 const BeatParticles = ({ isPlaying }: { isPlaying: boolean }) => {
   const particlesRef = useRef<THREE.Points>(null);
-  const particleCount = 3000;
+  const audio = useAudioAnalysis();
+  const kick = useRef(0);
 
   useFrame((state, delta) => {
     if (particlesRef.current && isPlaying) {
-      const beat = Math.sin(state.clock.elapsedTime * 2) * 0.5 + 0.5;
+      const { rms, bass, onset } = audio.current;
+      kick.current = onset ? 1 : Math.max(0, kick.current - delta * KICK_DECAY);
+
+      const beat = rms < SILENCE_RMS
+        ? Math.sin(state.clock.elapsedTime * 2) * 0.5 + 0.5
+        : Math.min(1, bass * 0.7 + kick.current * 0.5);
       particlesRef.current.scale.setScalar(1 + beat * 0.3);
-      particlesRef.current.rotation.y += delta * 0.5;
+      particlesRef.current.rotation.y += delta * (0.5 + rms);
     }
   });
 
@@ -41,7 +57,8 @@ const BeatParticles = ({ isPlaying }: { isPlaying: boolean }) => {
 const MelodySphereV2 = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentLyric, setCurrentLyric] = useState('');
-  const { nextScene } = useSceneStore();
+  const { nextScene, revealContent } = useSceneStore();
+  const { dir, t } = useLocale();
 
   const song = {
     title: 'Our Song',
@@ -61,6 +78,7 @@ const MelodySphereV2 = () => {
       const interval = setInterval(() => {
         if (lyricIndex < song.lyrics.length) {
           setCurrentLyric(song.lyrics[lyricIndex].line);
+          revealContent();
           lyricIndex++;
         } else {
           clearInterval(interval);
@@ -69,8 +87,15 @@ const MelodySphereV2 = () => {
     }
   };
 
+  // Kiosk: sing the lyrics on the stager's clock instead of the play button's
+  useKioskStaging('melody', song.lyrics, (lyric) => {
+    setIsPlaying(true);
+    setCurrentLyric(lyric.line);
+    revealContent();
+  });
+
   return (
-    <div className="melody-v2-container">
+    <div className="melody-v2-container" dir={dir}>
       <div className="melody-v2-canvas">
         <Canvas camera={{ position: [0, 0, 8], fov: 75 }} dpr={[1, 2]}>
           <ambientLight intensity={0.5} />
@@ -91,7 +116,7 @@ const MelodySphereV2 = () => {
           animate={{ opacity: 1 }}
           transition={{ duration: 2 }}
         >
-          Melody Sphere
+          {t('melody.title')}
         </motion.h2>
 
         <motion.div
@@ -132,7 +157,7 @@ const MelodySphereV2 = () => {
           transition={{ delay: 3, duration: 1 }}
           whileHover={{ scale: 1.05 }}
         >
-          Continue to Finale
+          {t('melody.continue')}
         </motion.button>
       </div>
     </div>
@@ -10,12 +10,12 @@
 import { motion } from 'framer-motion';
 import { useState } from 'react';
 import useSceneStore from '../core/SceneManager';
-import promisesData from '../data/promises.json';
+import { usePromises } from '../core/NarrativeBuffer';
+import type { Promise as PromiseContent } from '../core/ContentTypes';
 import '../styles/PromisesChamber.css';
 
-interface Promise {
+interface Promise extends PromiseContent {
   id: number;
-  text: string;
   type: 'forever' | 'daily' | 'always';
 }
 
@@ -23,7 +23,8 @@ const PromisesChamber = () => {
   const [selectedPromise, setSelectedPromise] = useState<number | null>(null);
   const { nextScene } = useSceneStore();
 
-  const promises: Promise[] = promisesData as Promise[];
+  const { data } = usePromises();
+  const promises = data as Promise[];
 
   return (
     <div className="promises-container">
@@ -4,24 +4,59 @@
  */
 
 import { motion } from 'framer-motion';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import useSceneStore from '../core/SceneManager';
-import promisesData from '../data/promises.json';
+import { useLocale } from '../core/Localization';
+import { useSceneProgress } from '../core/JourneyPersistence';
+import { useKioskStaging } from '../core/KioskMode';
+import { usePromises } from '../core/NarrativeBuffer';
+import { markRevealed } from '../core/ContentQuery';
+import { formatCountdown, getAvailability, useScheduleClock } from '../core/ContentSchedule';
+import type { Promise as PromiseContent } from '../core/ContentTypes';
+import RichText from '../ui/RichText';
 import '../styles/PromisesChamber.v2.css';
 
-interface Promise {
+interface Promise extends PromiseContent {
   id: number;
-  text: string;
   type: 'forever' | 'daily' | 'always';
 }
 
 const PromisesChamberV2 = () => {
   const [selectedPromise, setSelectedPromise] = useState<number | null>(null);
-  const { nextScene } = useSceneStore();
-  const promises: Promise[] = promisesData as Promise[];
+  const [readPromises, setReadPromises] = useSceneProgress<number[]>('sanctuary', []);
+  const { nextScene, revealContent } = useSceneStore();
+  const { dir, t, locale } = useLocale();
+
+  // In the active locale, sealed ones included
+  const { data } = usePromises({ includeLocked: true });
+  const allPromises = data as Promise[];
+
+  // Open promises and sealed orbs in file order (indexes stay the file's, so saved progress holds)
+  const now = useScheduleClock(allPromises);
+  const promises = useMemo(
+    () => allPromises
+      .map((promise, index) => ({ promise, index, availability: getAvailability(promise, now) }))
+      .filter(entry => entry.availability.state !== 'hidden'),
+    [allPromises, now]
+  );
+  const openPromises = useMemo(() => promises.filter(entry => entry.availability.state === 'open'), [promises]);
+
+  const handleSelectPromise = (index: number) => {
+    setSelectedPromise(index);
+
+    // Each promise counts once toward the crescendo
+    if (!readPromises.includes(index)) {
+      setReadPromises(prev => [...prev, index]);
+      markRevealed('promises', allPromises[index]);
+      revealContent();
+    }
+  };
+
+  // Kiosk: read each promise in turn
+  useKioskStaging('sanctuary', openPromises, (entry) => handleSelectPromise(entry.index));
 
   return (
-    <div className="promises-v2-container">
+    <div className="promises-v2-container" dir={dir}>
       <motion.div
         className="promises-v2-glow"
         animate={{
@@ -38,7 +73,7 @@ const PromisesChamberV2 = () => {
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 2 }}
         >
-          Sanctuary of Promises
+          {t('promises.title')}
         </motion.h2>
 
         <motion.p
@@ -47,22 +82,37 @@ const PromisesChamberV2 = () => {
           animate={{ opacity: 0.7 }}
           transition={{ delay: 1, duration: 2 }}
         >
-          Vows written in light, eternal and unbreakable
+          {t('promises.subtitle')}
         </motion.p>
 
         <div className="promises-v2-grid">
-          {promises.map((promise, index) => (
+          {promises.map(({ promise, index, availability }, position) => availability.state === 'sealed' ? (
+            // Sent ahead: a sealed orb counting down to its day
+            <motion.div
+              key={promise.id}
+              className="promise-v2-card sealed"
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: 2 + position * 0.15, duration: 1 }}
+              aria-label={t('promises.sealed')}
+            >
+              <div className="promise-sealed-orb" aria-hidden="true" />
+              <p className="promise-countdown">
+                {t('sealed.opens', { when: formatCountdown(availability.opensAt! - now, locale) })}
+              </p>
+            </motion.div>
+          ) : (
             <motion.div
               key={promise.id}
               className={`promise-v2-card ${promise.type} ${selectedPromise === index ? 'selected' : ''}`}
               initial={{ opacity: 0, scale: 0.8 }}
               animate={{ opacity: 1, scale: 1 }}
-              transition={{ delay: 2 + index * 0.15, duration: 1 }}
-              onClick={() => setSelectedPromise(index)}
+              transition={{ delay: 2 + position * 0.15, duration: 1 }}
+              onClick={() => handleSelectPromise(index)}
               whileHover={{ scale: 1.05, boxShadow: '0 0 30px rgba(255, 203, 164, 0.6)' }}
             >
               <div className="promise-icon">{promise.type === 'forever' ? '∞' : promise.type === 'daily' ? '☀' : '★'}</div>
-              <p className="promise-text">{promise.text}</p>
+              <p className="promise-text"><RichText text={promise.text} /></p>
             </motion.div>
           ))}
         </div>
@@ -75,7 +125,7 @@ const PromisesChamberV2 = () => {
           transition={{ delay: 4, duration: 1 }}
           whileHover={{ scale: 1.05 }}
         >
-          Continue to Music
+          {t('promises.continue')}
         </motion.button>
       </div>
     </div>
@@ -13,7 +13,7 @@ import { Text } from '@react-three/drei';
 import { motion } from 'framer-motion';
 import * as THREE from 'three';
 import useSceneStore from '../core/SceneManager';
-import wordsData from '../data/words.json';
+import { useWords } from '../core/NarrativeBuffer';
 import '../styles/WordConstellation.css';
 
 interface FloatingWordProps {
@@ -50,7 +50,7 @@ const FloatingWord: React.FC<FloatingWordProps> = ({ text, position, index }) =>
 
 const WordConstellation = () => {
   const { nextScene } = useSceneStore();
-  const words: string[] = wordsData as string[];
+  const { data: words } = useWords();
 
   // Generate spherical positions for words
   const wordPositions: [number, number, number][] = words.map((_, index) => {
@@ -74,8 +74,8 @@ const WordConstellation = () => {
 
           {words.map((word, index) => (
             <FloatingWord
-              key={index}
-              text={word}
+              key={word.id}
+              text={word.text}
               position={wordPositions[index]}
               index={index}
             />
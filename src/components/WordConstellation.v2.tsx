@@ -3,17 +3,21 @@
  * Floating 3D typography with dynamic formations
  */
 
-import { useRef } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
-import { Text } from '@react-three/drei';
 import { motion } from 'framer-motion';
 import * as THREE from 'three';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
 import useSceneStore from '../core/SceneManager';
-import wordsData from '../data/words.json';
+import { useLocale } from '../core/Localization';
+import { useKioskStaging } from '../core/KioskMode';
+import { useWords } from '../core/NarrativeBuffer';
+import { markRevealed } from '../core/ContentQuery';
+import RichText3D from '../ui/RichText3D';
 import '../styles/WordConstellation.v2.css';
 
-const FloatingWord = ({ text, position, index }: { text: string; position: [number, number, number]; index: number }) => {
+
+const FloatingWord = ({ text, position, index, lit }: { text: string; position: [number, number, number]; index: number; lit: boolean }) => {
   const textRef = useRef<any>(null);
 
   useFrame((state) => {
@@ -26,24 +30,32 @@ const FloatingWord = ({ text, position, index }: { text: string; position: [numb
   });
 
   return (
-    <Text
+    <RichText3D
       ref={textRef}
+      text={text}
       position={position}
-      fontSize={0.4}
-      color="#FFB6C1"
+      fontSize={lit ? 0.5 : 0.4}
+      color={lit ? '#FFFFFF' : '#FFB6C1'}
       anchorX="center"
       anchorY="middle"
       outlineWidth={0.02}
       outlineColor="#8A4FFF"
-    >
-      {text}
-    </Text>
+    />
   );
 };
 
 const WordConstellationV2 = () => {
   const { nextScene } = useSceneStore();
-  const words: string[] = wordsData as string[];
+  const { dir, t } = useLocale();
+  const { data: words } = useWords();
+  const [litWords, setLitWords] = useState<number[]>([]);
+
+  // Kiosk: light the words up in category waves
+  const categories = useMemo(() => Array.from(new Set(words.map(w => w.category))), [words]);
+  useKioskStaging('constellation', words, (word, index) => {
+    setLitWords(prev => [...prev, index]);
+    markRevealed('words', word);
+  }, categories);
 
   const wordPositions: [number, number, number][] = words.map((_, index) => {
     const phi = Math.acos(-1 + (2 * index) / words.length);
@@ -58,7 +70,7 @@ const WordConstellationV2 = () => {
   });
 
   return (
-    <div className="constellation-v2-container">
+    <div className="constellation-v2-container" dir={dir}>
       <div className="constellation-v2-canvas">
         <Canvas camera={{ position: [0, 0, 12], fov: 75 }} dpr={[1, 2]}>
           <ambientLight intensity={0.5} />
@@ -66,10 +78,11 @@ const WordConstellationV2 = () => {
 
           {words.map((word, index) => (
             <FloatingWord
-              key={index}
-              text={word}
+              key={word.id}
+              text={word.text}
               position={wordPositions[index]}
               index={index}
+              lit={litWords.includes(index)}
             />
           ))}
 
@@ -86,7 +99,7 @@ const WordConstellationV2 = () => {
           animate={{ opacity: 1 }}
           transition={{ duration: 2 }}
         >
-          Constellation of Words
+          {t('constellation.title')}
         </motion.h2>
 
         <motion.p
@@ -95,7 +108,7 @@ const WordConstellationV2 = () => {
           animate={{ opacity: 0.8 }}
           transition={{ delay: 1, duration: 2 }}
         >
-          The language that defines us
+          {t('constellation.subtitle')}
         </motion.p>
 
         <motion.button
@@ -106,7 +119,7 @@ const WordConstellationV2 = () => {
           transition={{ delay: 3, duration: 1 }}
           whileHover={{ scale: 1.05 }}
         >
-          Continue Journey
+          {t('journey.continue')}
         </motion.button>
       </div>
     </div>
@@ -11,6 +11,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 import * as THREE from 'three';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
 import useSceneStore from '../core/SceneManager';
+import { useLocale } from '../core/Localization';
+import { useSceneProgress } from '../core/JourneyPersistence';
+import { useKioskStaging } from '../core/KioskMode';
 import '../styles/WorldGlobe.v2.css';
 
 const Globe = () => {
@@ -93,19 +96,34 @@ const PhotoOrbit: React.FC<PhotoOrbitProps> = ({ index, total, onSelect, caption
 
 const WorldGlobeV2 = () => {
   const [selectedPhoto, setSelectedPhoto] = useState<number | null>(null);
-  const { nextScene } = useSceneStore();
+  const [openedPhotos, setOpenedPhotos] = useSceneProgress<number[]>('globe', []);
+  const { nextScene, revealContent } = useSceneStore();
+  const { dir, t } = useLocale();
 
   const captions = [
-    'The day everything changed',
-    'When laughter filled the air',
-    'A quiet moment, just us',
-    'Under the same sky',
-    'Making memories',
-    'Where time stopped',
+    t('globe.caption.1'),
+    t('globe.caption.2'),
+    t('globe.caption.3'),
+    t('globe.caption.4'),
+    t('globe.caption.5'),
+    t('globe.caption.6'),
   ];
 
+  const handleSelectPhoto = (index: number) => {
+    setSelectedPhoto(index);
+
+    // Each memory counts once toward the crescendo
+    if (!openedPhotos.includes(index)) {
+      setOpenedPhotos(prev => [...prev, index]);
+      revealContent();
+    }
+  };
+
+  // Kiosk: open each memory in turn
+  useKioskStaging('globe', captions, (_, index) => handleSelectPhoto(index));
+
   return (
-    <div className="globe-v2-container">
+    <div className="globe-v2-container" dir={dir}>
       <div className="globe-v2-canvas">
         <Canvas camera={{ position: [0, 0, 10], fov: 55 }} dpr={[1, 2]}>
           <ambientLight intensity={0.4} />
@@ -119,7 +137,7 @@ const WorldGlobeV2 = () => {
               key={index}
               index={index}
               total={captions.length}
-              onSelect={setSelectedPhoto}
+              onSelect={handleSelectPhoto}
               caption={caption}
             />
           ))}
@@ -139,7 +157,7 @@ const WorldGlobeV2 = () => {
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 2 }}
         >
-          Our World
+          {t('globe.title')}
         </motion.h2>
 
         <motion.p
@@ -148,7 +166,7 @@ const WorldGlobeV2 = () => {
           animate={{ opacity: 0.8 }}
           transition={{ delay: 1, duration: 2 }}
         >
-          Every place we've touched, together
+          {t('globe.subtitle')}
         </motion.p>
 
         <AnimatePresence>
@@ -161,7 +179,7 @@ const WorldGlobeV2 = () => {
               onClick={() => setSelectedPhoto(null)}
             >
               <div className="photo-content">
-                <div className="photo-placeholder">Memory {selectedPhoto + 1}</div>
+                <div className="photo-placeholder">{t('globe.memory', { number: selectedPhoto + 1 })}</div>
                 <p className="photo-caption">{captions[selectedPhoto]}</p>
               </div>
             </motion.div>
@@ -176,7 +194,7 @@ const WorldGlobeV2 = () => {
           transition={{ delay: 3, duration: 1 }}
           whileHover={{ scale: 1.05 }}
         >
-          Continue Journey
+          {t('journey.continue')}
         </motion.button>
       </div>
     </div>
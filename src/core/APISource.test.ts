@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { APISourceError, clearSnapshot, fetchAPIContent, readSnapshot } from './APISource';
+
+const ENDPOINT = 'https://example.com/wishes';
+const SOURCE = 'remote-wishes';
+
+const wishes = [{ id: 1, text: 'A wish from afar', emotion: 'joy', effect: 'glow', animation: 'twinkle' }];
+
+function reply(status: number, body?: unknown, etag?: string) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(etag ? { ETag: etag } : {}),
+    json: async () => body,
+  };
+}
+
+// fetch() answering each call in turn; a call past the script hangs until aborted
+function stubFetch(...replies: (ReturnType<typeof reply> | Error)[]) {
+  const fetch = vi.fn((_url: string, init?: RequestInit) => {
+    const next = replies.shift();
+    if (next instanceof Error) return Promise.reject(next);
+    if (next) return Promise.resolve(next);
+
+    return new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    });
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+const ifNoneMatch = (fetch: ReturnType<typeof stubFetch>, call: number) =>
+  (fetch.mock.calls[call][1]?.headers as Record<string, string> | undefined)?.['If-None-Match'];
+
+describe('fetchAPIContent', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5); // No jitter: backoff is exactly retryDelay × 2ⁿ
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    clearSnapshot(SOURCE);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the items and snapshots them with their ETag', async () => {
+    stubFetch(reply(200, { items: wishes }, '"v1"'));
+
+    await expect(fetchAPIContent(SOURCE, ENDPOINT)).resolves.toEqual(wishes);
+    expect(readSnapshot(SOURCE, ENDPOINT)).toMatchObject({ url: ENDPOINT, etag: '"v1"', items: wishes });
+  });
+
+  it('abandons an attempt that outlasts the timeout', async () => {
+    const fetch = stubFetch();
+
+    const result = fetchAPIContent(SOURCE, ENDPOINT, { timeout: 1000, retries: 0 });
+    const settled = expect(result).rejects.toThrow('Timed out after 1000ms');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await settled;
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries with a doubling backoff, up to the ceiling', async () => {
+    const fetch = stubFetch(reply(503), reply(503), reply(503), reply(200, wishes));
+
+    const result = fetchAPIContent(SOURCE, ENDPOINT, { retries: 3, retryDelay: 100, maxRetryDelay: 150 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(150); // 200, held to the 150 ceiling
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(150);
+    expect(fetch).toHaveBeenCalledTimes(4);
+
+    await expect(result).resolves.toEqual(wishes);
+  });
+
+  it('retries timeouts, network errors, 408, 429 and 5xx', async () => {
+    const fetch = stubFetch(new TypeError('Failed to fetch'), reply(408), reply(429), reply(500), reply(200, wishes));
+
+    const result = fetchAPIContent(SOURCE, ENDPOINT, { retries: 4, retryDelay: 10 });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual(wishes);
+    expect(fetch).toHaveBeenCalledTimes(5);
+  });
+
+  it.each([404, 401, 400])('gives up on HTTP %i without retrying', async status => {
+    const fetch = stubFetch(reply(status), reply(200, wishes));
+
+    const error = await fetchAPIContent(SOURCE, ENDPOINT, { retryDelay: 10 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(APISourceError);
+    expect(error).toMatchObject({ retryable: false, status });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up on a body that is not a list of items', async () => {
+    const fetch = stubFetch(reply(200, { wishes }), reply(200, wishes));
+
+    await expect(fetchAPIContent(SOURCE, ENDPOINT)).rejects.toThrow('not an array');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('revalidates with the snapshot ETag and keeps the snapshot on a 304', async () => {
+    const fetch = stubFetch(reply(200, wishes, '"v1"'), reply(304));
+
+    await fetchAPIContent(SOURCE, ENDPOINT);
+    await expect(fetchAPIContent(SOURCE, ENDPOINT)).resolves.toEqual(wishes);
+
+    expect(ifNoneMatch(fetch, 0)).toBeUndefined();
+    expect(ifNoneMatch(fetch, 1)).toBe('"v1"');
+  });
+
+  it('does not revalidate against a snapshot taken for another URL', async () => {
+    const fetch = stubFetch(reply(200, wishes, '"v1"'), reply(200, wishes));
+
+    await fetchAPIContent(SOURCE, ENDPOINT);
+    await fetchAPIContent(SOURCE, `${ENDPOINT}?v=2`);
+
+    expect(ifNoneMatch(fetch, 1)).toBeUndefined();
+  });
+
+  it('rejects items that fail the schema, and does not snapshot them', async () => {
+    const fetch = stubFetch(reply(200, [{ id: 1, emotion: 'joy' }]));
+
+    const error = await fetchAPIContent(SOURCE, ENDPOINT, { schema: 'wishes' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(APISourceError);
+    expect(error.message).toMatch(/^Invalid content/);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(readSnapshot(SOURCE, ENDPOINT)).toBeNull();
+  });
+
+  it('falls back to the snapshot when every attempt fails', async () => {
+    const fetch = stubFetch(reply(200, wishes, '"v1"'), reply(500), reply(500));
+    await fetchAPIContent(SOURCE, ENDPOINT);
+
+    const result = fetchAPIContent(SOURCE, ENDPOINT, { retries: 1, retryDelay: 10 });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual(wishes);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('falls back to the snapshot on an error that is not worth retrying', async () => {
+    stubFetch(reply(200, wishes), reply(404));
+    await fetchAPIContent(SOURCE, ENDPOINT);
+
+    await expect(fetchAPIContent(SOURCE, ENDPOINT)).resolves.toEqual(wishes);
+  });
+
+  it('uses the snapshot straight away when offline', async () => {
+    const fetch = stubFetch(reply(200, wishes));
+    await fetchAPIContent(SOURCE, ENDPOINT);
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+    await expect(fetchAPIContent(SOURCE, ENDPOINT)).resolves.toEqual(wishes);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('neither reads nor writes a snapshot when snapshots are off', async () => {
+    stubFetch(reply(200, wishes), reply(500));
+
+    await fetchAPIContent(SOURCE, ENDPOINT, { snapshot: false });
+    expect(readSnapshot(SOURCE, ENDPOINT)).toBeNull();
+
+    await expect(fetchAPIContent(SOURCE, ENDPOINT, { snapshot: false, retries: 0 })).rejects.toThrow('HTTP 500');
+  });
+});
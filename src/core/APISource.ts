@@ -0,0 +1,231 @@
+/**
+ * APISource.ts — REMOTE CONTENT
+ *
+ * Fetching for NarrativeBuffer's 'api' sources: a timeout per attempt,
+ * exponential retry for failures worth retrying, ETag / If-None-Match
+ * revalidation, and a last-good snapshot in localStorage that stands in
+ * when the network (or the server) lets us down. Responses are checked
+ * against the content schemas before they're trusted, or snapshotted.
+ *
+ * Philosophy: A flaky connection must never be the reason
+ * a wish goes missing.
+ */
+
+import { formatContentReport, validateContent, type ContentKind } from './ContentSchema';
+
+export interface APISourceOptions {
+  timeout?: number; // Per attempt (ms)
+  retries?: number; // Attempts after the first
+  retryDelay?: number; // Before the first retry (ms); doubles each time
+  maxRetryDelay?: number; // Backoff ceiling (ms)
+  schema?: ContentKind; // Check items against this content schema
+  snapshot?: boolean; // Keep the last good response for offline use
+}
+
+/**
+ * The last good response, as persisted
+ */
+export interface APISnapshot<T = unknown> {
+  url: string;
+  etag: string | null;
+  items: T[];
+  savedAt: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<APISourceOptions, 'schema'>> = {
+  timeout: 8000,
+  retries: 3,
+  retryDelay: 500,
+  maxRetryDelay: 8000,
+  snapshot: true,
+};
+
+const SNAPSHOT_PREFIX = 'loveverse-api:';
+
+/**
+ * A failed request, and whether trying again could help
+ */
+export class APISourceError extends Error {
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, retryable: boolean, status?: number) {
+    super(message);
+    this.name = 'APISourceError';
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+/**
+ * Read a source's snapshot (null when there is none, or it was for another URL)
+ */
+export function readSnapshot<T>(sourceId: string, url: string): APISnapshot<T> | null {
+  try {
+    const snapshot: APISnapshot<T> | null = JSON.parse(localStorage.getItem(SNAPSHOT_PREFIX + sourceId) || 'null');
+    return snapshot && snapshot.url === url ? snapshot : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeSnapshot<T>(sourceId: string, snapshot: APISnapshot<T>): void {
+  try {
+    localStorage.setItem(SNAPSHOT_PREFIX + sourceId, JSON.stringify(snapshot));
+  } catch (error) {
+    console.warn(`[APISource] Snapshot write failed for ${sourceId}:`, error);
+  }
+}
+
+/**
+ * Forget a source's snapshot
+ */
+export function clearSnapshot(sourceId: string): void {
+  try {
+    localStorage.removeItem(SNAPSHOT_PREFIX + sourceId);
+  } catch (error) {
+    console.warn(`[APISource] Snapshot clear failed for ${sourceId}:`, error);
+  }
+}
+
+/**
+ * Backoff before retry n (0-based), with a little jitter so clients don't retry in step
+ */
+function backoff(attempt: number, options: typeof DEFAULT_OPTIONS): number {
+  const delay = Math.min(options.retryDelay * 2 ** attempt, options.maxRetryDelay);
+  return delay * (0.8 + Math.random() * 0.4);
+}
+
+const wait = (ms: number) => new Promise(resolve => window.setTimeout(resolve, ms));
+
+/**
+ * Pull the items out of a response body: an array, or { items } / { content }
+ */
+function extractItems(body: unknown): unknown[] {
+  let items = body;
+  if (!Array.isArray(body) && typeof body === 'object' && body !== null) {
+    const wrapped = body as { items?: unknown; content?: unknown };
+    items = wrapped.items ?? wrapped.content;
+  }
+
+  if (!Array.isArray(items)) {
+    throw new APISourceError('Response is not an array, { items } or { content }', false);
+  }
+  return items;
+}
+
+/**
+ * What one request brought back (no body for a 304)
+ */
+interface APIResponse {
+  status: number;
+  etag: string | null;
+  body: unknown;
+}
+
+/**
+ * One request, abandoned after the timeout (the body included, so a
+ * stalled stream can't hang it)
+ */
+async function attempt(url: string, etag: string | null, timeout: number): Promise<APIResponse> {
+  const controller = new AbortController();
+  const timer = window.setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      headers: etag ? { 'If-None-Match': etag } : undefined,
+      signal: controller.signal,
+    });
+
+    // 304 is handled by the caller; 408, 429 and 5xx may pass
+    if (!response.ok && response.status !== 304) {
+      const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+      throw new APISourceError(`HTTP ${response.status}`, retryable, response.status);
+    }
+
+    const body = response.status === 304 ? null : await response.json();
+    return { status: response.status, etag: response.headers.get('ETag'), body };
+  } catch (error) {
+    if (error instanceof APISourceError) throw error;
+    if (controller.signal.aborted) {
+      throw new APISourceError(`Timed out after ${timeout}ms`, true);
+    }
+    if (error instanceof SyntaxError) {
+      throw new APISourceError(`Invalid JSON: ${error.message}`, false);
+    }
+    throw new APISourceError(error instanceof Error ? error.message : 'Network error', true);
+  } finally {
+    window.clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetch a source's items: revalidate against the snapshot, retry what may
+ * pass, validate what arrives, and fall back to the snapshot when it fails
+ */
+export async function fetchAPIContent<T>(
+  sourceId: string,
+  url: string,
+  overrides: APISourceOptions = {}
+): Promise<T[]> {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const snapshot = options.snapshot ? readSnapshot<T>(sourceId, url) : null;
+
+  // Offline: don't wait out the retries
+  if (snapshot && !navigator.onLine) {
+    console.log(`[APISource] Offline, using snapshot for ${sourceId}`);
+    return snapshot.items;
+  }
+
+  let lastError: APISourceError | null = null;
+
+  for (let i = 0; i <= options.retries; i++) {
+    if (i > 0) {
+      const delay = backoff(i - 1, options);
+      console.log(`[APISource] Retrying ${sourceId} in ${Math.round(delay)}ms (${i}/${options.retries})`);
+      await wait(delay);
+    }
+
+    try {
+      const response = await attempt(url, snapshot?.etag ?? null, options.timeout);
+
+      if (response.status === 304 && snapshot) {
+        return snapshot.items;
+      }
+
+      const items = extractItems(response.body);
+
+      if (options.schema) {
+        const report = validateContent(options.schema, items, url);
+        if (!report.valid) {
+          throw new APISourceError(`Invalid content\n${formatContentReport(report)}`, false);
+        }
+      }
+
+      if (options.snapshot) {
+        writeSnapshot(sourceId, { url, etag: response.etag, items, savedAt: Date.now() });
+      }
+
+      return items as T[];
+    } catch (error) {
+      lastError = error instanceof APISourceError
+        ? error
+        : new APISourceError(error instanceof Error ? error.message : String(error), false);
+
+      if (!lastError.retryable) break;
+    }
+  }
+
+  if (snapshot) {
+    console.warn(`[APISource] ${sourceId} failed (${lastError?.message}); using snapshot from ${new Date(snapshot.savedAt).toLocaleString()}`);
+    return snapshot.items;
+  }
+
+  throw lastError ?? new APISourceError(`Could not load ${url}`, false);
+}
+
+export default {
+  fetchAPIContent,
+  readSnapshot,
+  clearSnapshot,
+};
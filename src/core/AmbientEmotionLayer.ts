@@ -2,7 +2,9 @@
  * AmbientEmotionLayer.ts — PHASE 5: AMBIENT EMOTION LAYER
  *
  * Background breathing, particle drift, glint/sparkle tied to emotional state
- * Every scene feels alive even when idle
+ * Every scene feels alive even when idle, and swells with the music when
+ * attached to audio (AudioManager analysis): louder breathes deeper,
+ * beats glint
  *
  * Philosophy: Silence should shimmer. Stillness should breathe.
  * The scene watches you back.
@@ -10,6 +12,9 @@
 
 import * as THREE from 'three';
 import { gsap } from 'gsap';
+import { random } from './Random';
+import audioManager from './AudioManager';
+import type { AudioFrame } from './AudioAnalysis';
 
 /**
  * Emotion breathing patterns (subtle pulsation)
@@ -263,7 +268,10 @@ export class AmbientEmotionLayer {
   private driftAnimationFrame: number | null = null;
   private particleSystem: THREE.Points | null = null;
   private ambientLight: THREE.AmbientLight | null = null;
+  private baseLightIntensity: number = 1.0; // The light's own intensity, breathed around
   private startTime: number = Date.now();
+  private audioLevel: number = 0; // Smoothed loudness of the attached audio, 0-1
+  private unsubscribeAudio: (() => void) | null = null;
 
   /**
    * Set the current emotion (updates breathing, drift, glints)
@@ -351,14 +359,28 @@ export class AmbientEmotionLayer {
   private applyBreathing(): void {
     // Scale ambient light intensity
     if (this.ambientLight) {
-      const baseIntensity = 1.0;
-      this.ambientLight.intensity = baseIntensity + this.breathValue * 0.3;
+      const baseIntensity = this.baseLightIntensity;
+      this.ambientLight.intensity = baseIntensity * (1 + this.breathValue * 0.3 + this.audioLevel * 0.5);
     }
 
     // Scale particle system
     if (this.particleSystem) {
       const baseScale = 1.0;
-      this.particleSystem.scale.setScalar(baseScale + this.breathValue * 0.1);
+      this.particleSystem.scale.setScalar(baseScale + this.breathValue * 0.1 + this.audioLevel * 0.15);
+    }
+  }
+
+  /**
+   * React to one frame of the attached audio
+   */
+  private hearAudio(frame: AudioFrame): void {
+    // Rise quickly, settle slowly
+    const rate = frame.rms > this.audioLevel ? 0.5 : 0.05;
+    this.audioLevel += (Math.min(1, frame.rms * 3) - this.audioLevel) * rate;
+    this.applyBreathing();
+
+    if (frame.onset) {
+      this.spawnGlint(EMOTION_GLINTS[this.currentEmotion] || EMOTION_GLINTS.serenity);
     }
   }
 
@@ -393,7 +415,7 @@ export class AmbientEmotionLayer {
 
     // Select random particle
     const particleCount = positions.length / 3;
-    const index = Math.floor(Math.random() * particleCount);
+    const index = random('ambient:glints').int(particleCount);
 
     // Store original color
     const originalColor = new THREE.Color(
@@ -462,9 +484,16 @@ export class AmbientEmotionLayer {
   attach(options: {
     particleSystem?: THREE.Points;
     ambientLight?: THREE.AmbientLight;
+    audio?: string; // Follow a track's analysis, or the mix's (MASTER_AUDIO)
   }): void {
     this.particleSystem = options.particleSystem || null;
     this.ambientLight = options.ambientLight || null;
+    this.baseLightIntensity = this.ambientLight?.intensity ?? 1.0;
+
+    this.unsubscribeAudio?.();
+    this.unsubscribeAudio = options.audio
+      ? audioManager.subscribeAnalysis(frame => this.hearAudio(frame), options.audio)
+      : null;
 
     // Start breathing and glints
     this.updateBreathing();
@@ -506,6 +535,15 @@ export class AmbientEmotionLayer {
   dispose(): void {
     this.stopDrift();
 
+    this.unsubscribeAudio?.();
+    this.unsubscribeAudio = null;
+    this.audioLevel = 0;
+
+    // Hand the light back as it was
+    if (this.ambientLight) {
+      this.ambientLight.intensity = this.baseLightIntensity;
+    }
+
     if (this.breathingTimeline) {
       this.breathingTimeline.kill();
       this.breathingTimeline = null;
@@ -529,6 +567,7 @@ export function useAmbientEmotion(
   options?: {
     particleSystem?: THREE.Points;
     ambientLight?: THREE.AmbientLight;
+    audio?: string;
   }
 ) {
   const layerRef = React.useRef<AmbientEmotionLayer | null>(null);
@@ -550,7 +589,7 @@ export function useAmbientEmotion(
       layerRef.current?.dispose();
       layerRef.current = null;
     };
-  }, [emotion, options?.particleSystem, options?.ambientLight]);
+  }, [emotion, options?.particleSystem, options?.ambientLight, options?.audio]);
 
   return layerRef.current;
 }
@@ -227,6 +227,22 @@ export class AssetLoader {
     return this.cache.has(id);
   }
 
+  /**
+   * Drop specific assets from cache (e.g. an uninstalled pack's)
+   */
+  evict(ids: string[]): void {
+    ids.forEach(id => {
+      const asset = this.cache.get(id);
+
+      // Dispose Three.js textures
+      if (asset && asset.type === 'texture' && asset.data.dispose) {
+        asset.data.dispose();
+      }
+
+      this.cache.delete(id);
+    });
+  }
+
   /**
    * Clear old assets from cache (keep only recent ones)
    */
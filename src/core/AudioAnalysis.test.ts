@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { AUDIO_BANDS, SpectrumReader } from './AudioAnalysis';
+
+// 2048-point FFT at 40960 Hz: every bin is 20 Hz wide, bin i sits at i × 20 Hz
+const FFT_SIZE = 2048;
+const SAMPLE_RATE = 40960;
+const BIN_WIDTH = SAMPLE_RATE / FFT_SIZE;
+
+/**
+ * An AnalyserNode that reports whatever spectrum and waveform the test sets
+ */
+function fakeAnalyser() {
+  const spectrum = new Uint8Array(FFT_SIZE / 2);
+  const waveform = new Float32Array(FFT_SIZE);
+
+  const analyser = {
+    context: { sampleRate: SAMPLE_RATE },
+    fftSize: FFT_SIZE,
+    frequencyBinCount: FFT_SIZE / 2,
+    getByteFrequencyData: (target: Uint8Array) => target.set(spectrum),
+    getFloatTimeDomainData: (target: Float32Array) => target.set(waveform),
+  } as unknown as AnalyserNode;
+
+  return {
+    analyser,
+    // Bins from..to (Hz, upper edge excluded) at a byte level, the rest silent
+    spectrum: (from: number, to: number, level = 255) => {
+      spectrum.fill(0);
+      spectrum.fill(level, Math.round(from / BIN_WIDTH), Math.round(to / BIN_WIDTH));
+    },
+    waveform: (sample: (i: number) => number) => {
+      for (let i = 0; i < waveform.length; i++) waveform[i] = sample(i);
+    },
+  };
+}
+
+describe('SpectrumReader', () => {
+  it('reads silence as a still frame', () => {
+    const audio = fakeAnalyser();
+    const frame = new SpectrumReader(audio.analyser).read(0);
+
+    expect(frame.bands).toEqual(AUDIO_BANDS.map(() => 0));
+    expect(frame).toMatchObject({ bass: 0, mid: 0, treble: 0, rms: 0, centroid: 0, brightness: 0, onset: false });
+  });
+
+  it('sorts energy into its band', () => {
+    const audio = fakeAnalyser();
+    audio.spectrum(60, 250);
+    const frame = new SpectrumReader(audio.analyser).read(0);
+
+    expect(frame.bands[0]).toBe(0); // Sub-bass
+    expect(frame.bands[1]).toBe(1); // Bass
+    expect(frame.bands.slice(2)).toEqual([0, 0, 0, 0, 0]);
+    expect(frame.bass).toBeCloseTo(10 / 12); // 20-250 Hz: all but the two sub-bass bins
+    expect(frame.mid).toBe(0);
+    expect(frame.treble).toBe(0);
+  });
+
+  it('scales band energy with the level', () => {
+    const audio = fakeAnalyser();
+    audio.spectrum(4000, 20000, 51);
+
+    expect(new SpectrumReader(audio.analyser).read(0).treble).toBeCloseTo(0.2);
+  });
+
+  it('measures loudness as the RMS of the waveform', () => {
+    const audio = fakeAnalyser();
+    const reader = new SpectrumReader(audio.analyser);
+
+    audio.waveform(() => 0.5);
+    expect(reader.read(0).rms).toBeCloseTo(0.5);
+
+    audio.waveform(i => Math.sin((i / FFT_SIZE) * Math.PI * 2 * 8));
+    expect(reader.read(16).rms).toBeCloseTo(Math.SQRT1_2);
+
+    audio.waveform(() => 3);
+    expect(reader.read(32).rms).toBe(1);
+  });
+
+  it('puts the centroid where the energy is, and brightness on a log scale', () => {
+    const audio = fakeAnalyser();
+    const reader = new SpectrumReader(audio.analyser);
+
+    audio.spectrum(1000, 1020);
+    const single = reader.read(0);
+    expect(single.centroid).toBeCloseTo(1000);
+    expect(single.brightness).toBeCloseTo(Math.log(50) / Math.log(1000));
+
+    audio.spectrum(8000, 8020);
+    const higher = reader.read(16);
+    expect(higher.centroid).toBeCloseTo(8000);
+    expect(higher.brightness).toBeGreaterThan(single.brightness);
+  });
+
+  describe('onsets', () => {
+    // A steady note long enough to set the flux average, then whatever comes next
+    function steadyReader() {
+      const audio = fakeAnalyser();
+      const reader = new SpectrumReader(audio.analyser);
+      audio.waveform(() => 0.5);
+      audio.spectrum(200, 400, 100);
+      for (let t = 0; t < 200; t += 20) reader.read(t);
+      return { audio, reader };
+    }
+
+    it('flags the spectrum jumping above its recent average', () => {
+      const { audio, reader } = steadyReader();
+
+      audio.spectrum(60, 4000);
+      expect(reader.read(200).onset).toBe(true);
+    });
+
+    it('does not flag a steady sound', () => {
+      const { reader } = steadyReader();
+
+      expect(reader.read(200).onset).toBe(false);
+      expect(reader.read(220).onset).toBe(false);
+    });
+
+    it('never flags the first frame', () => {
+      const audio = fakeAnalyser();
+      audio.waveform(() => 0.5);
+      audio.spectrum(60, 4000);
+
+      expect(new SpectrumReader(audio.analyser).read(0).onset).toBe(false);
+    });
+
+    it('waits out the refractory period before the next onset', () => {
+      const { audio, reader } = steadyReader();
+
+      audio.spectrum(60, 4000);
+      expect(reader.read(200).onset).toBe(true);
+
+      // Drop back and hit again 100 ms later: too soon
+      audio.spectrum(200, 400, 100);
+      reader.read(250);
+      audio.spectrum(60, 4000);
+      expect(reader.read(300).onset).toBe(false);
+
+      // And again, 200 ms after the first
+      audio.spectrum(200, 400, 100);
+      reader.read(350);
+      audio.spectrum(60, 4000);
+      expect(reader.read(400).onset).toBe(true);
+    });
+
+    it('stays quiet in near-silence, however the spectrum moves', () => {
+      const { audio, reader } = steadyReader();
+
+      audio.waveform(() => 0.005);
+      audio.spectrum(60, 4000);
+      expect(reader.read(200).onset).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * AudioAnalysis.ts — REAL-TIME AUDIO ANALYSIS
+ *
+ * Turns what an AnalyserNode hears into a frame scenes can move to: energy
+ * per frequency band, loudness (RMS), brightness (spectral centroid) and an
+ * onset flag raised when a new beat or note lands. AudioManager keeps the
+ * analysers (the master mix and any track) and hands frames to subscribers;
+ * this module only does the listening.
+ *
+ * Onsets are spectral flux peaks: the spectrum rising faster than it has
+ * lately, judged against a moving average so quiet songs beat too.
+ *
+ * Philosophy: The lights should dance to the song she is hearing,
+ * not to a clock pretending to be one.
+ */
+
+/**
+ * What the music is doing right now
+ */
+export interface AudioFrame {
+  bands: number[];    // Energy per band (AUDIO_BANDS), 0-1, low to high
+  bass: number;       // 0-1, below 250 Hz
+  mid: number;        // 0-1, 250 Hz to 4 kHz
+  treble: number;     // 0-1, above 4 kHz
+  rms: number;        // Loudness, 0-1
+  centroid: number;   // Spectral centroid (Hz); 0 in silence
+  brightness: number; // The centroid as 0-1 across the audible range
+  onset: boolean;     // A beat or note started this frame
+  time: number;       // When the frame was read (ms, performance.now)
+}
+
+/**
+ * Band edges in Hz (AudioFrame.bands): roughly an octave apart,
+ * as the ear hears them
+ */
+export const AUDIO_BANDS: [number, number][] = [
+  [20, 60],     // Sub-bass
+  [60, 250],    // Bass
+  [250, 500],   // Low mids
+  [500, 2000],  // Mids
+  [2000, 4000], // High mids
+  [4000, 6000], // Presence
+  [6000, 20000], // Air
+];
+
+export const SILENT_FRAME: AudioFrame = {
+  bands: AUDIO_BANDS.map(() => 0),
+  bass: 0,
+  mid: 0,
+  treble: 0,
+  rms: 0,
+  centroid: 0,
+  brightness: 0,
+  onset: false,
+  time: 0,
+};
+
+// Below this loudness a frame counts as silence (no onsets)
+const SILENCE_RMS = 0.01;
+
+// Frames of flux history onsets are judged against (~0.7 s at 60 fps)
+const FLUX_HISTORY = 43;
+
+// How far above the recent average flux an onset must rise
+const ONSET_SENSITIVITY = 1.5;
+
+// The quickest two onsets can follow each other (ms)
+const ONSET_REFRACTORY = 120;
+
+// The audible range brightness spans (Hz)
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+
+const average = (values: ArrayLike<number>, from: number, to: number) => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += values[i];
+  return to > from ? sum / (to - from) : 0;
+};
+
+/**
+ * Reads frames from one AnalyserNode, remembering enough between reads to
+ * tell when a beat lands
+ */
+export class SpectrumReader {
+  private analyser: AnalyserNode;
+  private spectrum: Uint8Array<ArrayBuffer>;
+  private previous: Float32Array; // Last spectrum, 0-1, for flux
+  private waveform: Float32Array<ArrayBuffer>;
+  private fluxHistory: number[] = [];
+  private lastOnset = -Infinity;
+
+  constructor(analyser: AnalyserNode) {
+    this.analyser = analyser;
+    this.spectrum = new Uint8Array(analyser.frequencyBinCount);
+    this.previous = new Float32Array(analyser.frequencyBinCount);
+    this.waveform = new Float32Array(analyser.fftSize);
+  }
+
+  read(time: number = performance.now()): AudioFrame {
+    const { analyser, spectrum, previous, waveform } = this;
+    analyser.getByteFrequencyData(spectrum);
+    analyser.getFloatTimeDomainData(waveform);
+
+    const binWidth = analyser.context.sampleRate / analyser.fftSize;
+    const binAt = (frequency: number) => Math.min(spectrum.length, Math.round(frequency / binWidth));
+
+    // Loudness from the waveform
+    let squares = 0;
+    for (let i = 0; i < waveform.length; i++) squares += waveform[i] * waveform[i];
+    const rms = Math.min(1, Math.sqrt(squares / waveform.length));
+
+    // Centroid and flux from the spectrum
+    let weighted = 0;
+    let total = 0;
+    let flux = 0;
+    for (let i = 1; i < spectrum.length; i++) {
+      const magnitude = spectrum[i] / 255;
+      weighted += i * binWidth * magnitude;
+      total += magnitude;
+      flux += Math.max(0, magnitude - previous[i]);
+      previous[i] = magnitude;
+    }
+    flux /= spectrum.length;
+    const centroid = total > 0 ? weighted / total : 0;
+
+    const range = (low: number, high: number) => average(spectrum, binAt(low), binAt(high)) / 255;
+
+    return {
+      bands: AUDIO_BANDS.map(([low, high]) => range(low, high)),
+      bass: range(MIN_FREQUENCY, 250),
+      mid: range(250, 4000),
+      treble: range(4000, MAX_FREQUENCY),
+      rms,
+      centroid,
+      brightness: centroid > MIN_FREQUENCY
+        ? Math.min(1, Math.log(centroid / MIN_FREQUENCY) / Math.log(MAX_FREQUENCY / MIN_FREQUENCY))
+        : 0,
+      onset: this.detectOnset(flux, rms, time),
+      time,
+    };
+  }
+
+  /**
+   * A flux peak well above the recent average, not too soon after the last
+   */
+  private detectOnset(flux: number, rms: number, time: number): boolean {
+    const history = this.fluxHistory;
+    const threshold = history.length > 0 ? average(history, 0, history.length) * ONSET_SENSITIVITY : Infinity;
+
+    history.push(flux);
+    if (history.length > FLUX_HISTORY) history.shift();
+
+    if (rms < SILENCE_RMS || flux <= threshold || time - this.lastOnset < ONSET_REFRACTORY) {
+      return false;
+    }
+
+    this.lastOnset = time;
+    return true;
+  }
+}
+
+export default SpectrumReader;
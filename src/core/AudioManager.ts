@@ -3,9 +3,14 @@
  *
  * Spatial audio engine with EQ sculpting, cinematic crossfades, and whisper positioning.
  * Every sound exists in 3D space to feel like a presence, not a file.
+ * Listens too: analysis of the mix and of each track (AudioAnalysis) for
+ * scenes that move with the music.
  */
 
+import { useEffect, useRef } from 'react';
 import { Howl, Howler } from 'howler';
+import journeyEvents from './JourneyEvents';
+import { SpectrumReader, SILENT_FRAME, type AudioFrame } from './AudioAnalysis';
 
 type AudioType = 'ambient' | 'whisper' | 'song' | 'fx' | 'voice';
 
@@ -34,6 +39,42 @@ interface EQPreset {
   high: number;
 }
 
+/**
+ * Analysis target for the whole mix (any other target is a track id)
+ */
+export const MASTER_AUDIO = 'master';
+
+type AnalysisListener = (frame: AudioFrame) => void;
+
+interface AnalysisTap {
+  analyser: AnalyserNode;
+  reader: SpectrumReader;
+  listeners: Set<AnalysisListener>;
+  frame: AudioFrame; // Latest read
+}
+
+// Analyser resolution: 1024 bins, ~21 Hz each at 44.1 kHz
+const ANALYSER_FFT_SIZE = 2048;
+const ANALYSER_SMOOTHING = 0.6;
+
+/**
+ * Whether routing a media element through Web Audio keeps it audible: the
+ * browser silences cross-origin audio in the graph unless it was fetched
+ * with CORS
+ */
+function isTappable(element: HTMLMediaElement): boolean {
+  if (element.crossOrigin) return true;
+
+  const src = element.currentSrc || element.src;
+  if (!src || src.startsWith('data:')) return true;
+
+  try {
+    return new URL(src, window.location.href).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
 class AudioManager {
   private tracks: Map<string, AudioTrack> = new Map();
   private currentAmbient: string | null = null;
@@ -47,6 +88,12 @@ class AudioManager {
 
   private listenerPosition = { x: 0, y: 0, z: 0 };
 
+  // Analysis runs on Howler's context, which every track plays through
+  private analysis: Map<string, AnalysisTap> = new Map();
+  private mediaSources: WeakMap<HTMLMediaElement, MediaElementAudioSourceNode> = new WeakMap();
+  private pendingAnalysis: Set<{ listener: AnalysisListener; target: string }> = new Set();
+  private analysisFrame: number | null = null;
+
   private eqPresets: Map<string, EQPreset> = new Map([
     ['warm', { name: 'warm', low: 0.3, mid: 0.1, high: -0.2 }],
     ['ethereal', { name: 'ethereal', low: -0.2, mid: 0.2, high: 0.4 }],
@@ -165,6 +212,7 @@ class AudioManager {
           }
           resolve();
         },
+        onplay: () => this.tapSounds(id),
         onloaderror: () => {
           console.warn(`⚠️ Audio missing: ${id} - using silence placeholder`);
           this.tracks.set(id, {
@@ -294,6 +342,7 @@ class AudioManager {
     }
 
     track.isLoaded = true;
+    journeyEvents.emit('audio:cue', { cue: 'play', track: id });
     return track.howl.play();
   }
 
@@ -304,6 +353,8 @@ class AudioManager {
     const track = this.tracks.get(id);
     if (!track || !track.howl) return;
 
+    journeyEvents.emit('audio:cue', { cue: 'stop', track: id });
+
     if (fadeOut > 0) {
       track.howl.fade(track.howl.volume(), 0, fadeOut * 1000);
       setTimeout(() => track.howl?.stop(), fadeOut * 1000);
@@ -347,6 +398,8 @@ class AudioManager {
     const track = this.tracks.get(id);
     if (!track || !track.howl) return;
 
+    journeyEvents.emit('audio:cue', { cue: 'fx', track: id });
+
     const originalVolume = track.volume;
     track.howl.volume(volume);
     track.howl.play();
@@ -380,7 +433,147 @@ class AudioManager {
     });
   }
 
+  /**
+   * Hear analysis frames of a track, or of the whole mix (MASTER_AUDIO),
+   * every animation frame. Returns an unsubscribe function. Before Howler
+   * has an audio context (until the first gesture) the subscription waits,
+   * and starts hearing once one exists.
+   */
+  subscribeAnalysis(listener: AnalysisListener, target: string = MASTER_AUDIO): () => void {
+    const subscription = { listener, target };
+    this.pendingAnalysis.add(subscription);
+    this.attachPendingAnalysis();
+    this.startAnalysis();
+
+    return () => {
+      this.pendingAnalysis.delete(subscription);
+      this.analysis.get(target)?.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Give waiting subscriptions their taps, once Howler's context allows
+   */
+  private attachPendingAnalysis(): void {
+    this.pendingAnalysis.forEach(subscription => {
+      const tap = this.getTap(subscription.target);
+      if (!tap) return;
+
+      tap.listeners.add(subscription.listener);
+      this.pendingAnalysis.delete(subscription);
+    });
+  }
+
+  /**
+   * The latest frame read for a target (silent until something subscribes)
+   */
+  getAnalysis(target: string = MASTER_AUDIO): AudioFrame {
+    return this.analysis.get(target)?.frame ?? SILENT_FRAME;
+  }
+
+  /**
+   * The AnalyserNode listening to a track or the mix, for custom analysis.
+   * Null without Web Audio.
+   */
+  getAnalyser(target: string = MASTER_AUDIO): AnalyserNode | null {
+    return this.getTap(target)?.analyser ?? null;
+  }
+
+  private getTap(target: string): AnalysisTap | null {
+    const existing = this.analysis.get(target);
+    if (existing) return existing;
+
+    const ctx = Howler.ctx;
+    if (!ctx || !Howler.masterGain) return null;
+
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = ANALYSER_FFT_SIZE;
+    analyser.smoothingTimeConstant = ANALYSER_SMOOTHING;
+
+    const tap: AnalysisTap = { analyser, reader: new SpectrumReader(analyser), listeners: new Set(), frame: SILENT_FRAME };
+    this.analysis.set(target, tap);
+
+    if (target === MASTER_AUDIO) {
+      Howler.masterGain.connect(analyser);
+    }
+
+    // Sounds already playing join in now; later ones as they start
+    this.tracks.forEach(track => this.tapSounds(track.id));
+    return tap;
+  }
+
+  /**
+   * Connect a track's sounds to the analysers listening for them
+   */
+  private tapSounds(id: string): void {
+    const howl = this.tracks.get(id)?.howl;
+    const trackTap = this.analysis.get(id);
+    const masterTap = this.analysis.get(MASTER_AUDIO);
+    if (!howl || (!trackTap && !masterTap)) return;
+
+    // Howler keeps its sounds private
+    const { _sounds: sounds = [] } = howl as unknown as { _sounds?: { _node?: unknown }[] };
+    sounds.forEach(({ _node: node }) => {
+      if (node instanceof AudioNode) {
+        // Web Audio sounds reach the mix through Howler's master gain already
+        if (trackTap) node.connect(trackTap.analyser);
+      } else if (node instanceof HTMLMediaElement && isTappable(node)) {
+        // Streamed (HTML5) sounds bypass Web Audio until routed through it;
+        // once they are, the mix hears them through Howler's master gain
+        const source = this.mediaSource(node);
+        if (trackTap) source.connect(trackTap.analyser);
+      }
+    });
+  }
+
+  /**
+   * Route a media element through Howler's context, once per element. It
+   * then plays only through the graph, so it goes out through Howler's
+   * master gain and keeps obeying master volume and mute.
+   */
+  private mediaSource(element: HTMLMediaElement): MediaElementAudioSourceNode {
+    let source = this.mediaSources.get(element);
+    if (!source) {
+      source = Howler.ctx.createMediaElementSource(element);
+      source.connect(Howler.masterGain);
+      this.mediaSources.set(element, source);
+    }
+    return source;
+  }
+
+  /**
+   * Read every listened-to analyser once per animation frame, stopping when
+   * nothing is listening
+   */
+  private startAnalysis(): void {
+    if (this.analysisFrame !== null) return;
+
+    const tick = () => {
+      const now = performance.now();
+      this.attachPendingAnalysis();
+      let listening = this.pendingAnalysis.size > 0;
+
+      this.analysis.forEach(tap => {
+        if (tap.listeners.size === 0) return;
+        listening = true;
+        tap.frame = tap.reader.read(now);
+        tap.listeners.forEach(listener => listener(tap.frame));
+      });
+
+      this.analysisFrame = listening ? requestAnimationFrame(tick) : null;
+    };
+
+    this.analysisFrame = requestAnimationFrame(tick);
+  }
+
   destroy() {
+    if (this.analysisFrame !== null) {
+      cancelAnimationFrame(this.analysisFrame);
+      this.analysisFrame = null;
+    }
+    this.analysis.forEach(tap => tap.analyser.disconnect());
+    this.analysis.clear();
+    this.pendingAnalysis.clear();
     this.tracks.forEach(track => track.howl?.unload());
     this.tracks.clear();
     if (this.audioContext) {
@@ -397,4 +590,28 @@ class AudioManager {
 }
 
 export const audioManager = new AudioManager();
+
+/**
+ * React hook: the latest analysis frame of a track or the mix, in a ref.
+ * Read it in useFrame; it updates without re-rendering. onFrame, when
+ * given, hears every frame.
+ */
+export function useAudioAnalysis(target: string = MASTER_AUDIO, onFrame?: AnalysisListener) {
+  const frameRef = useRef<AudioFrame>(SILENT_FRAME);
+  const onFrameRef = useRef(onFrame);
+
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+  });
+
+  useEffect(() => {
+    return audioManager.subscribeAnalysis(frame => {
+      frameRef.current = frame;
+      onFrameRef.current?.(frame);
+    }, target);
+  }, [target]);
+
+  return frameRef;
+}
+
 export default audioManager;
@@ -10,6 +10,8 @@
 import { create } from 'zustand';
 import { AnimatePresence, motion } from 'framer-motion';
 import useSettingsStore from './SettingsManager';
+import { useLocale } from './Localization';
+import RichText from '../ui/RichText';
 
 export interface Caption {
   id: string;
@@ -69,6 +71,7 @@ const useCaptionStore = create<CaptionStore>((set, get) => ({
 export const CaptionDisplay = () => {
   const { currentCaption } = useCaptionStore();
   const { accessibility } = useSettingsStore();
+  const { locale, dir } = useLocale();
 
   if (!accessibility.enableCaptions || !currentCaption) {
     return null;
@@ -86,6 +89,8 @@ export const CaptionDisplay = () => {
         width: '90%',
         maxWidth: '800px',
       }}
+      lang={locale}
+      dir={dir}
       role="status"
       aria-live="polite"
       aria-atomic="true"
@@ -115,8 +120,9 @@ export const CaptionDisplay = () => {
                   color: '#FFB6C1',
                   marginBottom: '8px',
                   fontWeight: 600,
+                  textAlign: 'start',
                   textTransform: 'uppercase',
-                  letterSpacing: '1px',
+                  letterSpacing: dir === 'rtl' ? 0 : '1px',
                 }}
               >
                 {currentCaption.speaker}
@@ -130,7 +136,7 @@ export const CaptionDisplay = () => {
                 fontWeight: 400,
               }}
             >
-              {currentCaption.text}
+              <RichText text={currentCaption.text} />
             </div>
           </motion.div>
         )}
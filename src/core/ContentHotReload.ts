@@ -0,0 +1,52 @@
+/**
+ * ContentHotReload.ts — CONTENT HOT RELOAD
+ *
+ * While authoring, an edited content file (apologies.json, words.hi.json, ...)
+ * shows up without a page reload. The dev server's content pipeline
+ * (vite.config.ts) announces each valid edit; the cached copies in
+ * ContentLoader and NarrativeBuffer are dropped, and hooks showing that
+ * content (useWishes, useBufferedContent, ...) refetch and re-render in
+ * place. The scene, its progress and the journey carry on untouched.
+ * Components importing the JSON directly refresh through React Fast Refresh.
+ *
+ * Does nothing in a build.
+ *
+ * Philosophy: A word changed should land where she's standing,
+ * not send her back to the beginning.
+ */
+
+import contentLoader from './ContentLoader';
+import narrativeBuffer from './NarrativeBuffer';
+import { CONTENT_UPDATE_EVENT, type ContentUpdate } from './ContentTypes';
+import type { ContentKind } from './ContentSchema';
+
+/**
+ * Drop and refetch one kind of content, everywhere it's cached
+ */
+export async function reloadContentKind(kind: ContentKind): Promise<void> {
+  contentLoader.invalidate(kind);
+  await narrativeBuffer.reloadContent(kind);
+}
+
+/**
+ * Listen for content edits from the dev server. Returns an unbind function.
+ */
+export function bindContentHotReload(): () => void {
+  const hot = import.meta.hot;
+  if (!hot) return () => {};
+
+  const onUpdate = (update: ContentUpdate) => {
+    console.log(`[ContentHotReload] ${update.key}.json changed; reloading ${update.kind}`);
+    reloadContentKind(update.kind as ContentKind).catch(error => {
+      console.error(`[ContentHotReload] Could not reload ${update.kind}:`, error);
+    });
+  };
+
+  hot.on(CONTENT_UPDATE_EVENT, onUpdate);
+  return () => hot.off(CONTENT_UPDATE_EVENT, onUpdate);
+}
+
+export default {
+  reloadContentKind,
+  bindContentHotReload,
+};
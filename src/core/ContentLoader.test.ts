@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Wish } from './ContentTypes';
+
+const wish = (id: number, text: string): Wish => ({ id, text, emotion: 'joy', effect: 'glow', animation: 'twinkle' });
+
+const manifest = {
+  version: 1,
+  content: { wishes: { url: 'content/wishes.json', hash: 'x', count: 1 } },
+};
+
+// fetch() for the manifest answers at once; each wishes.json request waits until released
+function stubFetch() {
+  const pending: ((items: Wish[]) => void)[] = [];
+  const respond = (body: unknown) => ({ ok: true, status: 200, statusText: 'OK', json: async () => body });
+
+  vi.stubGlobal('fetch', vi.fn((url: string) => {
+    if (url.endsWith('manifest.json')) return Promise.resolve(respond(manifest));
+    return new Promise(resolve => pending.push(items => resolve(respond(items))));
+  }));
+
+  return {
+    // Answer the nth wishes.json request
+    release: async (request: number, items: Wish[]) => {
+      await vi.waitFor(() => expect(pending.length).toBeGreaterThan(request));
+      pending[request](items);
+    },
+  };
+}
+
+async function freshLoader() {
+  vi.resetModules();
+  const { default: contentLoader } = await import('./ContentLoader');
+  return contentLoader;
+}
+
+describe('ContentLoader cache', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('serves a second load from the cache', async () => {
+    const requests = stubFetch();
+    const contentLoader = await freshLoader();
+
+    const first = contentLoader.loadWishes();
+    await requests.release(0, [wish(1, 'first')]);
+    await first;
+
+    const again = await contentLoader.loadWishes();
+    expect(again.data.map(item => item.text)).toEqual(['first']);
+    expect(fetch).toHaveBeenCalledTimes(2); // Manifest and wishes, once each
+  });
+
+  it('does not cache a load that finishes after invalidate()', async () => {
+    const requests = stubFetch();
+    const contentLoader = await freshLoader();
+
+    const stale = contentLoader.loadWishes();
+    expect(contentLoader.getCacheStats().loading).toHaveLength(1);
+    contentLoader.invalidate('wishes');
+
+    const fresh = contentLoader.loadWishes();
+    await requests.release(1, [wish(1, 'edited')]);
+    await requests.release(0, [wish(1, 'before the edit')]);
+    await Promise.all([stale, fresh]);
+
+    const cached = await contentLoader.loadWishes();
+    expect(cached.data.map(item => item.text)).toEqual(['edited']);
+  });
+
+  it('starts a new load after invalidate() rather than joining the old one', async () => {
+    const requests = stubFetch();
+    const contentLoader = await freshLoader();
+
+    contentLoader.loadWishes();
+    expect(contentLoader.getCacheStats().loading).toHaveLength(1);
+    contentLoader.invalidate('wishes');
+
+    const fresh = contentLoader.loadWishes();
+    await requests.release(1, [wish(1, 'edited')]);
+
+    expect((await fresh).data.map(item => item.text)).toEqual(['edited']);
+  });
+});
@@ -2,68 +2,121 @@
  * ContentLoader.ts — PHASE 3: EMOTIONAL INTEGRATION
  *
  * Dynamic JSON content loader with caching and validation
- * Fetches emotional content from /src/data/ and transforms it for scenes
+ * Fetches emotional content through the content manifest (hashed bundles
+ * in a build, live copies of src/data/ in dev) and transforms it for scenes
  *
  * Philosophy: Content is the soul. The loader is the bridge
  * between written emotion and rendered experience.
  */
 
-import {
+import type {
   Wish,
   Apology,
-  Promise,
+  Promise as PromiseVow, // Not the global Promise
   Song,
   Word,
+  FinaleLine,
   ContentLoadResult,
+  ContentManifest,
   EmotionalContent,
 } from './ContentTypes';
+import { CONTENT_MANIFEST_PATH } from './ContentTypes';
+import { validateContent, formatContentReport, type ContentKind, type ContentReport } from './ContentSchema';
+import { DEFAULT_LOCALE, getActiveLocale, localeChain, useLocale } from './Localization';
+import { getProfileTokens, personalize } from './Personalization';
+import { random } from './Random';
+import { scheduleContent } from './ContentSchedule';
+import { query, type ContentQuery } from './ContentQuery';
+
+/**
+ * Options for load() and the per-kind loaders and hooks
+ */
+export interface LoadOptions {
+  includeLocked?: boolean; // Keep items outside their availability window (sealed ones, for countdowns)
+}
 
 class ContentLoader {
   private cache: Map<string, any> = new Map();
   private loading: Map<string, Promise<any>> = new Map();
+  private manifest: Promise<ContentManifest> | null = null;
+  private version = 0; // Bumped whenever cached content is dropped
+  private generations: Map<string, number> = new Map(); // Per cache key; a load only caches what its generation fetched
+  private listeners: Set<() => void> = new Set();
 
   /**
    * Load wishes from wishes.json
    */
-  async loadWishes(): Promise<ContentLoadResult<Wish>> {
-    return this.loadJSON<Wish>('/src/data/wishes.json', 'wishes');
+  async loadWishes(options?: LoadOptions): Promise<ContentLoadResult<Wish>> {
+    return this.load<Wish>('wishes', options);
   }
 
   /**
    * Load apologies from apologies.json
    */
-  async loadApologies(): Promise<ContentLoadResult<Apology>> {
-    return this.loadJSON<Apology>('/src/data/apologies.json', 'apologies');
+  async loadApologies(options?: LoadOptions): Promise<ContentLoadResult<Apology>> {
+    return this.load<Apology>('apologies', options);
   }
 
   /**
    * Load promises from promises.json
    */
-  async loadPromises(): Promise<ContentLoadResult<Promise>> {
-    return this.loadJSON<Promise>('/src/data/promises.json', 'promises');
+  async loadPromises(options?: LoadOptions): Promise<ContentLoadResult<PromiseVow>> {
+    return this.load<PromiseVow>('promises', options);
   }
 
   /**
    * Load songs from songs.json
    */
-  async loadSongs(): Promise<ContentLoadResult<Song>> {
-    return this.loadJSON<Song>('/src/data/songs.json', 'songs');
+  async loadSongs(options?: LoadOptions): Promise<ContentLoadResult<Song>> {
+    return this.load<Song>('songs', options);
   }
 
   /**
    * Load words from words.json
    */
-  async loadWords(): Promise<ContentLoadResult<Word>> {
-    return this.loadJSON<Word>('/src/data/words.json', 'words');
+  async loadWords(options?: LoadOptions): Promise<ContentLoadResult<Word>> {
+    return this.load<Word>('words', options);
+  }
+
+  /**
+   * Load the finale's staged lines from finale.json
+   */
+  async loadFinale(options?: LoadOptions): Promise<ContentLoadResult<FinaleLine>> {
+    return this.load<FinaleLine>('finale', options);
   }
 
   /**
-   * Generic JSON loader with caching and validation
+   * Generic content loader with caching and validation, in the active locale.
+   * Items outside their availability window are left out (ContentSchedule)
+   * unless includeLocked is set.
    */
-  private async loadJSON<T extends EmotionalContent>(
-    path: string,
-    cacheKey: string
+  async load<T extends EmotionalContent>(
+    kind: ContentKind,
+    options: LoadOptions = {}
   ): Promise<ContentLoadResult<T>> {
+    const result = await this.loadCached<T>(kind);
+    if (options.includeLocked || !result.loaded) return result;
+
+    const data = scheduleContent(result.data);
+    return { ...result, data, count: data.length };
+  }
+
+  /**
+   * A query over a kind of content, as load() returns it (empty when it failed to load)
+   */
+  async query<T extends EmotionalContent>(kind: ContentKind): Promise<ContentQuery<T>> {
+    const result = await this.load<T>(kind);
+    return query(result.data, kind);
+  }
+
+  /**
+   * Everything in a content file, cached per locale (the date filter runs on
+   * every read, so cached content still opens on time)
+   */
+  private async loadCached<T extends EmotionalContent>(kind: ContentKind): Promise<ContentLoadResult<T>> {
+    const locale = getActiveLocale();
+    const cacheKey = `${kind}@${locale}`;
+
     // Check cache first
     if (this.cache.has(cacheKey)) {
       const cached = this.cache.get(cacheKey);
@@ -87,18 +140,22 @@ class ContentLoader {
     }
 
     // Start loading
-    console.log(`[ContentLoader] Loading: ${cacheKey} from ${path}`);
-    const loadPromise = this.fetchAndValidate<T>(path, cacheKey);
+    console.log(`[ContentLoader] Loading: ${cacheKey}`);
+    const generation = this.generations.get(cacheKey) ?? 0;
+    const loadPromise = this.fetchAndValidate<T>(kind, locale);
     this.loading.set(cacheKey, loadPromise);
 
     try {
       const data = await loadPromise;
 
-      // Cache the result
-      this.cache.set(cacheKey, data);
-      this.loading.delete(cacheKey);
-
-      console.log(`[ContentLoader] Loaded: ${cacheKey} (${data.length} items)`);
+      // Cache the result, unless the content was dropped while it was on its way
+      if ((this.generations.get(cacheKey) ?? 0) === generation) {
+        this.cache.set(cacheKey, data);
+        this.loading.delete(cacheKey);
+        console.log(`[ContentLoader] Loaded: ${cacheKey} (${data.length} items)`);
+      } else {
+        console.log(`[ContentLoader] Discarding stale load: ${cacheKey}`);
+      }
 
       return {
         data,
@@ -106,7 +163,7 @@ class ContentLoader {
         loaded: true,
       };
     } catch (error) {
-      this.loading.delete(cacheKey);
+      if (this.loading.get(cacheKey) === loadPromise) this.loading.delete(cacheKey);
       console.error(`[ContentLoader] Failed to load ${cacheKey}:`, error);
 
       return {
@@ -119,10 +176,62 @@ class ContentLoader {
   }
 
   /**
-   * Fetch JSON and validate structure
+   * Fetch JSON and validate it against its schema (ContentSchema), then lay
+   * the locale's translations over it. Problems are reported in dev; the
+   * build refuses invalid content outright.
    */
-  private async fetchAndValidate<T>(path: string, type: string): Promise<T[]> {
+  private async fetchAndValidate<T>(kind: ContentKind, locale: string): Promise<T[]> {
+    const json = await this.fetchContentFile(kind);
+    this.reportIssues(validateContent(kind, json, `${kind}.json`));
+
+    // Translations overlay the base items by id, general before specific
+    // (hi, then hi-IN); anything untranslated falls back to the base file
+    const manifest = await this.getManifest();
+    const chain = localeChain(locale).filter(l => l !== DEFAULT_LOCALE).reverse();
+    let items: EmotionalContent[] = json;
+
+    for (const l of chain) {
+      const key = `${kind}.${l}`;
+      if (!manifest.content[key]) continue;
+
+      try {
+        const translations = await this.fetchContentFile(key);
+        this.reportIssues(validateContent(kind, translations, `${key}.json`, { translationOf: json }));
+
+        const byId = new Map(translations.map(t => [t.id, t]));
+        items = items.map(item => (byId.has(item.id) ? { ...item, ...byId.get(item.id) } : item));
+      } catch (error) {
+        console.warn(`[ContentLoader] Skipping ${key} translations:`, error);
+      }
+    }
+
+    // Keep going with sensible defaults rather than a blank scene
+    const complete = items.map((item, index) => {
+      if (!item.id) item.id = index;
+      if (!item.emotion) item.emotion = 'wonder';
+      if (!item.effect) item.effect = 'fade';
+
+      return item as T;
+    });
+
+    // {{recipient}} and friends, in the locale's spelling
+    return personalize(complete, getProfileTokens(locale));
+  }
+
+  /**
+   * Fetch one content file (by manifest key) and check it holds an array
+   */
+  private async fetchContentFile(key: string): Promise<EmotionalContent[]> {
+    let path = key;
+
     try {
+      const manifest = await this.getManifest();
+      const entry = manifest.content[key];
+      if (!entry) {
+        throw new Error(`No '${key}' in the content manifest`);
+      }
+
+      path = `${import.meta.env.BASE_URL}${entry.url}`;
       const response = await fetch(path);
 
       if (!response.ok) {
@@ -136,34 +245,47 @@ class ContentLoader {
         throw new Error(`Expected array, got ${typeof json}`);
       }
 
-      // Basic validation: ensure each item has required fields
-      const validated = json.map((item, index) => {
-        if (!item.id) {
-          console.warn(`[ContentLoader] Item ${index} missing 'id', using index`);
-          item.id = index;
-        }
-        if (!item.text) {
-          console.warn(`[ContentLoader] Item ${item.id} missing 'text'`);
-        }
-        if (!item.emotion) {
-          console.warn(`[ContentLoader] Item ${item.id} missing 'emotion', defaulting to 'wonder'`);
-          item.emotion = 'wonder';
-        }
-        if (!item.effect) {
-          console.warn(`[ContentLoader] Item ${item.id} missing 'effect', defaulting to 'fade'`);
-          item.effect = 'fade';
-        }
-
-        return item as T;
-      });
-
-      return validated;
+      return json;
     } catch (error) {
       console.error(`[ContentLoader] Fetch error for ${path}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Print a schema report in dev
+   */
+  private reportIssues(report: ContentReport): void {
+    if (report.valid || !import.meta.env.DEV) return;
+
+    console.groupCollapsed(`[ContentLoader] ${report.issues.length} schema issue(s) in ${report.file}`);
+    console.warn(formatContentReport(report));
+    console.table(report.issues);
+    console.groupEnd();
+  }
+
+  /**
+   * The content manifest: where each content file lives (fetched once)
+   */
+  private getManifest(): Promise<ContentManifest> {
+    if (!this.manifest) {
+      this.manifest = fetch(`${import.meta.env.BASE_URL}${CONTENT_MANIFEST_PATH}`, { cache: 'no-cache' })
+        .then(response => {
+          if (!response.ok) {
+            throw new Error(`Content manifest: HTTP ${response.status}`);
+          }
+          return response.json();
+        });
+
+      // A failed manifest is fetched again on the next load
+      this.manifest.catch(() => {
+        this.manifest = null;
+      });
+    }
+
+    return this.manifest;
+  }
+
   /**
    * Preload all content for smooth transitions
    */
@@ -176,6 +298,7 @@ class ContentLoader {
       this.loadPromises(),
       this.loadSongs(),
       this.loadWords(),
+      this.loadFinale(),
     ]);
 
     console.log('[ContentLoader] Preload complete');
@@ -185,30 +308,29 @@ class ContentLoader {
    * Filter content by emotion
    */
   filterByEmotion<T extends EmotionalContent>(items: T[], emotion: string): T[] {
-    return items.filter(item => item.emotion.toLowerCase() === emotion.toLowerCase());
+    return query(items).emotion(emotion).toArray();
   }
 
   /**
    * Filter content by theme
    */
   filterByTheme<T extends Word>(items: T[], theme: string): T[] {
-    return items.filter(item => item.theme?.toLowerCase() === theme.toLowerCase());
+    return query(items).theme(theme).toArray();
   }
 
   /**
-   * Get random item from array
+   * Get random item from array (seeded: replays with the journey's seed)
    */
-  getRandomItem<T>(items: T[]): T | null {
+  getRandomItem<T>(items: T[], stream: string = 'content'): T | null {
     if (items.length === 0) return null;
-    return items[Math.floor(Math.random() * items.length)];
+    return random(stream).pick(items) ?? null;
   }
 
   /**
-   * Get random items (no duplicates)
+   * Get random items (no duplicates; an unbiased, seeded shuffle)
    */
-  getRandomItems<T>(items: T[], count: number): T[] {
-    const shuffled = [...items].sort(() => Math.random() - 0.5);
-    return shuffled.slice(0, Math.min(count, items.length));
+  getRandomItems<T>(items: T[], count: number, stream: string = 'content'): T[] {
+    return random(stream).shuffle(items).slice(0, Math.min(count, items.length));
   }
 
   /**
@@ -216,9 +338,53 @@ class ContentLoader {
    */
   clearCache(): void {
     this.cache.clear();
+    this.dropLoading(() => true);
+    this.manifest = null;
+    this.changed();
     console.log('[ContentLoader] Cache cleared');
   }
 
+  /**
+   * Drop one kind's cached content (every locale) so hooks showing it refetch
+   */
+  invalidate(kind: ContentKind): void {
+    Array.from(this.cache.keys())
+      .filter(key => key.startsWith(`${kind}@`))
+      .forEach(key => this.cache.delete(key));
+    this.dropLoading(key => key.startsWith(`${kind}@`));
+    this.manifest = null; // Counts and hashes may have moved
+    this.changed();
+    console.log(`[ContentLoader] Invalidated: ${kind}`);
+  }
+
+  /**
+   * Forget loads in flight so they don't cache what they fetched; the next
+   * load starts afresh
+   */
+  private dropLoading(matches: (cacheKey: string) => boolean): void {
+    Array.from(this.loading.keys())
+      .filter(matches)
+      .forEach(key => {
+        this.loading.delete(key);
+        this.generations.set(key, (this.generations.get(key) ?? 0) + 1);
+      });
+  }
+
+  /**
+   * Listen for dropped content (for useSyncExternalStore); returns an unsubscribe
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getVersion = (): number => this.version;
+
+  private changed(): void {
+    this.version++;
+    this.listeners.forEach(listener => listener());
+  }
+
   /**
    * Get cache statistics
    */
@@ -237,10 +403,20 @@ const contentLoader = new ContentLoader();
 export default contentLoader;
 
 /**
- * React hook for loading content
+ * Where useContent hears that cached content was dropped
+ */
+export interface ContentVersionSource {
+  subscribe: (listener: () => void) => () => void;
+  getVersion: () => number;
+}
+
+/**
+ * React hook for loading content (the scene hooks, useWishes and friends,
+ * live in NarrativeBuffer so installed packs reach the scenes)
  */
 export function useContent<T extends EmotionalContent>(
-  loader: () => Promise<ContentLoadResult<T>>
+  loader: () => Promise<ContentLoadResult<T>>,
+  source: ContentVersionSource = contentLoader
 ): ContentLoadResult<T> & { isLoading: boolean; reload: () => void } {
   const [result, setResult] = React.useState<ContentLoadResult<T>>({
     data: [],
@@ -248,17 +424,44 @@ export function useContent<T extends EmotionalContent>(
     loaded: false,
   });
   const [isLoading, setIsLoading] = React.useState(true);
+  const { locale } = useLocale();
+  const version = React.useSyncExternalStore(source.subscribe, source.getVersion);
+
+  // Callers pass a fresh arrow each render; load once, not on every render
+  const loaderRef = React.useRef(loader);
+  React.useEffect(() => {
+    loaderRef.current = loader;
+  });
+
+  // Only the latest request lands: one for a previous locale, or for content
+  // dropped since, that resolves late is thrown away
+  const latestRequest = React.useRef(0);
+  const fetchLatest = React.useCallback(async () => {
+    const request = ++latestRequest.current;
+    const loaded = await loaderRef.current();
+    if (request !== latestRequest.current) return;
 
-  const load = React.useCallback(async () => {
-    setIsLoading(true);
-    const loaded = await loader();
     setResult(loaded);
     setIsLoading(false);
-  }, [loader]);
+  }, []);
 
+  const load = React.useCallback(async () => {
+    setIsLoading(true);
+    await fetchLatest();
+  }, [fetchLatest]);
+
+  // Reload in the new language when the locale changes
   React.useEffect(() => {
     load();
-  }, [load]);
+  }, [load, locale]);
+
+  // Content edited while the app runs: swap it in without a loading state
+  const loadedVersion = React.useRef(version);
+  React.useEffect(() => {
+    if (version === loadedVersion.current) return;
+    loadedVersion.current = version;
+    fetchLatest();
+  }, [version, fetchLatest]);
 
   return {
     ...result,
@@ -269,26 +472,3 @@ export function useContent<T extends EmotionalContent>(
 
 // React import for hook
 import React from 'react';
-
-/**
- * Specialized hooks for each content type
- */
-export function useWishes() {
-  return useContent(() => contentLoader.loadWishes());
-}
-
-export function useApologies() {
-  return useContent(() => contentLoader.loadApologies());
-}
-
-export function usePromises() {
-  return useContent(() => contentLoader.loadPromises());
-}
-
-export function useSongs() {
-  return useContent(() => contentLoader.loadSongs());
-}
-
-export function useWords() {
-  return useContent(() => contentLoader.loadWords());
-}
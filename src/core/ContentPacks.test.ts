@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Wish } from './ContentTypes';
+import type { ContentPackFile } from './ContentPacks';
+
+// Packs here add content only; the scene engine and asset cache stay out of it
+vi.mock('./SceneManager', () => ({ default: { getState: () => ({}), subscribe: () => () => {} } }));
+vi.mock('./AssetLoader', () => ({ default: { preloadAssets: vi.fn(), evict: vi.fn() } }));
+
+const wish = (id: number | string, text: string): Wish => ({ id, text, emotion: 'joy', effect: 'soft-glow', animation: 'twinkle' });
+
+const CORE_WISHES = [wish(1, 'A core wish')];
+
+const PACK: ContentPackFile = {
+  format: 1,
+  id: 'summer',
+  name: 'Summer',
+  description: 'Wishes for the long days',
+  version: '1.0.0',
+  scenes: ['galaxy'],
+  content: { wishes: [wish('summer-1', 'A summer wish')] },
+};
+
+// The bundled wishes, through the content manifest
+function stubCoreContent() {
+  const respond = (body: unknown) => ({ ok: true, status: 200, statusText: 'OK', json: async () => body });
+  vi.stubGlobal('fetch', vi.fn(async (url: string) =>
+    url.endsWith('manifest.json')
+      ? respond({ version: 1, content: { wishes: { url: 'content/wishes.json', hash: 'x', count: 1 } } })
+      : respond(CORE_WISHES)
+  ));
+}
+
+// What a scene calling useWishes() shows, each time it renders
+async function renderWishes() {
+  const { useWishes } = await import('./NarrativeBuffer');
+  const shown: string[][] = [];
+
+  const Scene = () => {
+    const { data } = useWishes();
+    shown.push(data.map(item => item.text));
+    return null;
+  };
+
+  const root = createRoot(document.createElement('div'));
+  await act(async () => root.render(createElement(Scene)));
+  return { shown, unmount: () => act(() => root.unmount()) };
+}
+
+describe('ContentPacks content', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubGlobal('IS_REACT_ACT_ENVIRONMENT', true);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    localStorage.clear();
+    stubCoreContent();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("serves an installed pack's items alongside the core content", async () => {
+    const { installContentPack } = await import('./ContentPacks');
+    const { default: narrativeBuffer } = await import('./NarrativeBuffer');
+
+    await installContentPack(PACK);
+    const result = await narrativeBuffer.load<Wish>('wishes');
+
+    expect(result.loaded).toBe(true);
+    expect(result.data.map(item => item.text)).toEqual(['A core wish', 'A summer wish']);
+  });
+
+  it('shows a pack installed mid-scene, and takes it away on uninstall', async () => {
+    const { installContentPack, uninstallContentPack } = await import('./ContentPacks');
+    const { shown, unmount } = await renderWishes();
+    await vi.waitFor(() => expect(shown.at(-1)).toEqual(['A core wish']));
+
+    await act(async () => {
+      await installContentPack(PACK);
+    });
+    await vi.waitFor(() => expect(shown.at(-1)).toEqual(['A core wish', 'A summer wish']));
+
+    await act(async () => {
+      uninstallContentPack(PACK.id);
+    });
+    await vi.waitFor(() => expect(shown.at(-1)).toEqual(['A core wish']));
+
+    await unmount();
+  });
+});
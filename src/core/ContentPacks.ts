@@ -0,0 +1,338 @@
+/**
+ * ContentPacks.ts — CONTENT PACKS
+ *
+ * Installs bonus content packs. A pack file is a manifest (id, name,
+ * version, ...) with content per type, assets to preload and optional bonus
+ * scenes; installing it registers a NarrativeBuffer source per content type,
+ * preloads the assets through AssetLoader and adds the scenes to the journey.
+ * Installed packs are remembered on this device and come back on the next
+ * visit. A newer version of an installed pack upgrades it in place, and
+ * uninstalling takes every trace of it back out.
+ *
+ * Philosophy: The story should grow, not be rebuilt.
+ * A gift added later should feel like it was always there.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import narrativeBuffer, { type ContentPack } from './NarrativeBuffer';
+import assetLoader, { type Asset } from './AssetLoader';
+import { getSceneComponent, registerScene, type SceneRegistration } from './SceneRegistry';
+import { CONTENT_SCHEMAS, formatContentReport, validateContent, type ContentKind } from './ContentSchema';
+import type { EmotionalContent } from './ContentTypes';
+
+/**
+ * Pack file format this build reads
+ */
+export const PACK_FORMAT = 1;
+
+// Above API (60) and inline (50) sources, below the core files (100)
+const PACK_PRIORITY = 80;
+
+const PACK_ID = /^[a-z0-9][a-z0-9-]*$/;
+const PACK_VERSION = /^\d+\.\d+\.\d+$/;
+
+/**
+ * A bonus scene as written in a pack file
+ */
+export interface PackScene extends Omit<SceneRegistration, 'component' | 'lifecycle'> {
+  component: string; // A key registered with registerSceneComponents
+}
+
+/**
+ * A pack file (JSON)
+ */
+export interface ContentPackFile extends Omit<ContentPack, 'bonusScenes'> {
+  format: number;
+  // Content type → items, or the URL of a JSON array (relative to the pack file)
+  content: Record<string, EmotionalContent[] | string>;
+  assets?: Asset[]; // Preloaded on install; URLs relative to the pack file
+  bonusScenes?: PackScene[];
+  priority?: number; // Source priority for its content
+}
+
+/**
+ * An installed pack, as remembered on the device
+ */
+export interface InstalledPack {
+  pack: ContentPackFile; // Content inlined, so it comes back offline
+  source: string | null; // URL it was installed from
+  installedAt: number;
+  previousVersion?: string; // The version it upgraded
+}
+
+export interface InstallOptions {
+  force?: boolean; // Reinstall the same version, or downgrade
+}
+
+interface ContentPackStore {
+  installed: Record<string, InstalledPack>;
+  record: (entry: InstalledPack) => void;
+  forget: (packId: string) => void;
+}
+
+/**
+ * Installed packs (persisted)
+ */
+export const useContentPackStore = create<ContentPackStore>()(
+  persist(
+    (set, get) => ({
+      installed: {},
+
+      record: (entry: InstalledPack) => {
+        set({ installed: { ...get().installed, [entry.pack.id]: entry } });
+      },
+
+      forget: (packId: string) => {
+        set({
+          installed: Object.fromEntries(Object.entries(get().installed).filter(([id]) => id !== packId)),
+        });
+      },
+    }),
+    {
+      name: 'loveverse-packs',
+      version: PACK_FORMAT,
+    }
+  )
+);
+
+// Pack id → teardown for everything its activation set up
+const active: Map<string, () => void> = new Map();
+
+/**
+ * Compare dotted versions: negative when a is older than b
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+async function fetchJSON(url: string): Promise<unknown> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`[ContentPacks] ${url}: HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Inline content given by URL and make asset URLs absolute, so the pack
+ * stands on its own once installed
+ */
+async function resolvePack(raw: unknown, base: string): Promise<unknown> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return raw;
+
+  const pack = raw as Partial<ContentPackFile>;
+  if (typeof pack.content !== 'object' || pack.content === null) return raw;
+
+  const content: Record<string, unknown> = {};
+  for (const [contentType, entry] of Object.entries(pack.content)) {
+    content[contentType] = typeof entry === 'string' ? await fetchJSON(new URL(entry, base).href) : entry;
+  }
+
+  const assets = Array.isArray(pack.assets)
+    ? pack.assets.map(asset => ({ ...asset, url: new URL(asset.url, base).href }))
+    : pack.assets;
+
+  return { ...pack, content, assets };
+}
+
+/**
+ * Check a (resolved) pack file; throws with every problem found
+ */
+export function validatePackFile(raw: unknown): ContentPackFile {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('[ContentPacks] A pack file must be an object');
+  }
+
+  const pack = raw as ContentPackFile;
+  const problems: string[] = [];
+
+  if (pack.format !== PACK_FORMAT) problems.push(`format: expected ${PACK_FORMAT}, got ${pack.format}`);
+  if (typeof pack.id !== 'string' || !PACK_ID.test(pack.id)) problems.push(`id: expected lowercase letters, digits and dashes, got ${pack.id}`);
+  if (typeof pack.name !== 'string' || !pack.name) problems.push('name: expected a non-empty string');
+  if (typeof pack.version !== 'string' || !PACK_VERSION.test(pack.version)) problems.push(`version: expected major.minor.patch, got ${pack.version}`);
+  if (!Array.isArray(pack.scenes)) problems.push('scenes: expected an array of scene ids');
+
+  if (typeof pack.content !== 'object' || pack.content === null) {
+    problems.push('content: expected content type → items');
+  } else {
+    Object.entries(pack.content).forEach(([contentType, items]) => {
+      if (!Array.isArray(items)) {
+        problems.push(`content.${contentType}: expected an array of items`);
+      } else if (contentType in CONTENT_SCHEMAS) {
+        const report = validateContent(contentType as ContentKind, items, `${pack.id}/${contentType}`);
+        if (!report.valid) problems.push(formatContentReport(report));
+      }
+    });
+  }
+
+  pack.assets?.forEach((asset, i) => {
+    if (!asset || !asset.id || !asset.url || !asset.type) problems.push(`assets[${i}]: expected { type, url, id }`);
+  });
+
+  pack.bonusScenes?.forEach((scene, i) => {
+    if (!getSceneComponent(scene.component)) problems.push(`bonusScenes[${i}].component: no component registered as '${scene.component}'`);
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`[ContentPacks] Invalid pack ${pack.id ?? '(no id)'}\n  ${problems.join('\n  ')}`);
+  }
+
+  return pack;
+}
+
+/**
+ * Register a pack's sources and scenes; returns its teardown
+ */
+function activatePack(pack: ContentPackFile): () => void {
+  const bonusScenes: SceneRegistration[] = (pack.bonusScenes || []).map(scene => ({
+    ...scene,
+    component: getSceneComponent(scene.component)!,
+  }));
+
+  narrativeBuffer.registerPack({
+    id: pack.id,
+    name: pack.name,
+    description: pack.description || '',
+    version: pack.version,
+    scenes: pack.scenes,
+    bonusScenes,
+    author: pack.author,
+    createdAt: pack.createdAt,
+  });
+
+  Object.entries(pack.content).forEach(([contentType, items]) => {
+    narrativeBuffer.registerSource(contentType, {
+      id: `pack:${pack.id}:${contentType}`,
+      type: 'inline',
+      data: items as EmotionalContent[],
+      priority: pack.priority ?? PACK_PRIORITY,
+      enabled: true,
+      pack: pack.id,
+    });
+  });
+
+  // Bonus scenes join the journey like built-in ones
+  const unregisterScenes = bonusScenes.flatMap(scene => {
+    try {
+      return [registerScene(scene)];
+    } catch (error) {
+      console.error(`[ContentPacks] Pack ${pack.id} could not add scene ${scene.id}:`, error);
+      return [];
+    }
+  });
+
+  narrativeBuffer.clearCache();
+
+  return () => {
+    unregisterScenes.forEach(unregister => unregister());
+    narrativeBuffer.unregisterPack(pack.id);
+    assetLoader.evict((pack.assets || []).map(asset => asset.id));
+  };
+}
+
+function deactivatePack(packId: string): void {
+  active.get(packId)?.();
+  active.delete(packId);
+}
+
+/**
+ * Install a pack from a URL or a pack object. Installing a newer version
+ * upgrades the installed one; the same or an older version needs force.
+ */
+export async function installContentPack(
+  source: string | ContentPackFile,
+  options: InstallOptions = {}
+): Promise<InstalledPack> {
+  const url = typeof source === 'string' ? new URL(source, document.baseURI).href : null;
+  const raw = url ? await fetchJSON(url) : source;
+  const pack = validatePackFile(await resolvePack(raw, url || document.baseURI));
+
+  const existing = useContentPackStore.getState().installed[pack.id];
+  if (existing && !options.force) {
+    const order = compareVersions(pack.version, existing.pack.version);
+    if (order === 0) {
+      console.log(`[ContentPacks] ${pack.name} v${pack.version} is already installed`);
+      return existing;
+    }
+    if (order < 0) {
+      throw new Error(`[ContentPacks] ${pack.id} v${existing.pack.version} is installed; not downgrading to v${pack.version}`);
+    }
+  }
+
+  // Upgrades replace the old version wholesale
+  deactivatePack(pack.id);
+  active.set(pack.id, activatePack(pack));
+
+  if (pack.assets?.length) {
+    await assetLoader.preloadAssets(pack.assets);
+  }
+
+  const entry: InstalledPack = {
+    pack,
+    source: url,
+    installedAt: Date.now(),
+    previousVersion: existing && existing.pack.version !== pack.version ? existing.pack.version : undefined,
+  };
+  useContentPackStore.getState().record(entry);
+
+  console.log(
+    entry.previousVersion
+      ? `[ContentPacks] Upgraded ${pack.name}: v${entry.previousVersion} → v${pack.version}`
+      : `[ContentPacks] Installed ${pack.name} v${pack.version}`
+  );
+  return entry;
+}
+
+/**
+ * Remove a pack: its sources, scenes, cached content and assets, and its record
+ */
+export function uninstallContentPack(packId: string): boolean {
+  if (!useContentPackStore.getState().installed[packId]) {
+    console.warn(`[ContentPacks] ${packId} is not installed`);
+    return false;
+  }
+
+  deactivatePack(packId);
+  useContentPackStore.getState().forget(packId);
+
+  console.log(`[ContentPacks] Uninstalled ${packId}`);
+  return true;
+}
+
+/**
+ * Bring back the packs installed on earlier visits (assets preload in the background)
+ */
+export function restoreContentPacks(): void {
+  Object.values(useContentPackStore.getState().installed).forEach(({ pack }) => {
+    if (active.has(pack.id)) return;
+
+    try {
+      active.set(pack.id, activatePack(validatePackFile(pack)));
+      if (pack.assets?.length) assetLoader.preloadAssets(pack.assets);
+    } catch (error) {
+      console.error(`[ContentPacks] Could not restore ${pack.id}:`, error);
+    }
+  });
+}
+
+/**
+ * Every installed pack
+ */
+export function getInstalledPacks(): InstalledPack[] {
+  return Object.values(useContentPackStore.getState().installed);
+}
+
+export default {
+  installContentPack,
+  uninstallContentPack,
+  restoreContentPacks,
+  getInstalledPacks,
+};
@@ -0,0 +1,225 @@
+/**
+ * ContentQuery.ts — CONTENT QUERIES
+ *
+ * A small, typed, chainable way for scenes to choose what to show from
+ * loaded content: combine filters (emotion AND theme AND category), leave
+ * out what this journey has already revealed, draw weighted random picks
+ * (by glow_intensity, intensity, ...) from the seeded streams, and order by
+ * timing. Queries never change the items they're given; each step returns
+ * a new query.
+ *
+ *   query(words, 'words')
+ *     .emotion('joy', 'love')
+ *     .category('celestial')
+ *     .unrevealed()
+ *     .sample(5, 'glow_intensity')
+ *     .orderByTiming()
+ *     .toArray();
+ *
+ * Philosophy: What she sees next should be chosen,
+ * not merely whatever came next in the file.
+ */
+
+import type { EmotionalContent } from './ContentTypes';
+import { scheduleContent } from './ContentSchedule';
+import useJourneyProgressStore from './JourneyPersistence';
+import { random } from './Random';
+
+type ContentId = EmotionalContent['id'];
+
+/**
+ * How much an item weighs in a weighted pick: a field (numbers as they are,
+ * intensity words via INTENSITY_WEIGHTS) or a function
+ */
+export type ContentWeight<T> = keyof T | ((item: T) => number);
+
+/**
+ * Refines a query; staging hooks take one to choose what they stage
+ */
+export type ContentSelector<T extends EmotionalContent> = (query: ContentQuery<T>) => ContentQuery<T>;
+
+/**
+ * Weights for the intensity words content uses
+ */
+export const INTENSITY_WEIGHTS: Record<string, number> = {
+  soft: 1,
+  tender: 1.5,
+  medium: 2,
+  deep: 2.5,
+  bright: 3,
+};
+
+// Lowercased, for case-insensitive matching
+const normalize = (value: unknown) => String(value).toLowerCase();
+
+export class ContentQuery<T extends EmotionalContent> {
+  private readonly items: readonly T[];
+  private readonly kind: string | null;
+
+  constructor(items: readonly T[], kind: string | null = null) {
+    this.items = items;
+    this.kind = kind;
+  }
+
+  private next(items: readonly T[]): ContentQuery<T> {
+    return new ContentQuery(items, this.kind);
+  }
+
+  /**
+   * Keep the items a predicate accepts
+   */
+  where(predicate: (item: T) => boolean): ContentQuery<T> {
+    return this.next(this.items.filter(predicate));
+  }
+
+  /**
+   * Keep items whose field is one of the values (strings case-insensitively)
+   */
+  whereIn<K extends keyof T>(field: K, ...values: T[K][]): ContentQuery<T> {
+    if (values.length === 0) return this;
+
+    const wanted = new Set(values.map(normalize));
+    return this.where(item => item[field] !== undefined && wanted.has(normalize(item[field])));
+  }
+
+  emotion(...emotions: string[]): ContentQuery<T> {
+    return this.whereIn('emotion', ...emotions);
+  }
+
+  theme(...themes: string[]): ContentQuery<T> {
+    return this.whereIn('theme', ...themes as T['theme'][]);
+  }
+
+  /**
+   * Only for content with categories (words)
+   */
+  category<C extends T & { category: string }>(this: ContentQuery<C>, ...categories: C['category'][]): ContentQuery<C> {
+    return this.whereIn('category', ...categories);
+  }
+
+  /**
+   * Only items open right now (ContentSchedule), for content not loaded
+   * through ContentLoader / NarrativeBuffer
+   */
+  available(now?: number): ContentQuery<T> {
+    return this.next(scheduleContent([...this.items], now));
+  }
+
+  excludeIds(ids: Iterable<ContentId>): ContentQuery<T> {
+    const excluded = new Set(Array.from(ids, normalize));
+    return this.where(item => !excluded.has(normalize(item.id)));
+  }
+
+  /**
+   * Leave out what this journey has already revealed (JourneyPersistence)
+   */
+  unrevealed(kind: string | null = this.kind): ContentQuery<T> {
+    if (!kind) {
+      throw new Error('[ContentQuery] unrevealed() needs a content kind: query(items, kind)');
+    }
+    return this.excludeIds(useJourneyProgressStore.getState().revealedContent[kind] || []);
+  }
+
+  /**
+   * Numeric timings first, shortest to longest; pacing modes keep their order after them
+   */
+  orderByTiming(direction: 'asc' | 'desc' = 'asc'): ContentQuery<T> {
+    const sign = direction === 'asc' ? 1 : -1;
+    return this.next([...this.items].sort((a, b) => {
+      const left = typeof a.timing === 'number' ? a.timing : null;
+      const right = typeof b.timing === 'number' ? b.timing : null;
+      if (left === null || right === null) return (left === null ? 1 : 0) - (right === null ? 1 : 0);
+      return (left - right) * sign;
+    }));
+  }
+
+  orderBy(compare: (a: T, b: T) => number): ContentQuery<T> {
+    return this.next([...this.items].sort(compare));
+  }
+
+  limit(count: number): ContentQuery<T> {
+    return this.next(this.items.slice(0, Math.max(0, count)));
+  }
+
+  /**
+   * A seeded shuffle (Random)
+   */
+  shuffle(stream: string = this.stream()): ContentQuery<T> {
+    return this.next(random(stream).shuffle(this.items));
+  }
+
+  /**
+   * Up to count items at random, without repeats; with a weight, heavier
+   * items are likelier to be drawn
+   */
+  sample(count: number, weight?: ContentWeight<T>, stream: string = this.stream()): ContentQuery<T> {
+    const rng = random(stream);
+    if (!weight) return this.next(rng.shuffle(this.items).slice(0, Math.max(0, count)));
+
+    // Weighted sampling without replacement: the largest u^(1/w) keys win
+    const keyed = this.items.map(item => {
+      const w = this.weigh(item, weight);
+      return { item, key: w > 0 ? Math.pow(rng.next(), 1 / w) : -1 };
+    });
+
+    return this.next(
+      keyed
+        .filter(({ key }) => key >= 0)
+        .sort((a, b) => b.key - a.key)
+        .slice(0, Math.max(0, count))
+        .map(({ item }) => item)
+    );
+  }
+
+  /**
+   * One item at random (weighted when a weight is given), or null when empty
+   */
+  pick(weight?: ContentWeight<T>, stream?: string): T | null {
+    return this.sample(1, weight, stream).first();
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+
+  first(): T | null {
+    return this.items[0] ?? null;
+  }
+
+  ids(): ContentId[] {
+    return this.items.map(item => item.id);
+  }
+
+  count(): number {
+    return this.items.length;
+  }
+
+  private weigh(item: T, weight: ContentWeight<T>): number {
+    const value = typeof weight === 'function' ? weight(item) : item[weight];
+    if (typeof value === 'number') return Number.isFinite(value) ? Math.max(0, value) : 0;
+    if (typeof value === 'string') return INTENSITY_WEIGHTS[value.toLowerCase()] ?? 1;
+    return 1;
+  }
+
+  // Random picks per kind stay reproducible without disturbing each other
+  private stream(): string {
+    return `query:${this.kind ?? 'content'}`;
+  }
+}
+
+/**
+ * Start a query over items. Give the content kind ('wishes', 'words', ...)
+ * to use unrevealed() and per-kind random streams.
+ */
+export function query<T extends EmotionalContent>(items: readonly T[], kind: string | null = null): ContentQuery<T> {
+  return new ContentQuery(items, kind);
+}
+
+/**
+ * Record that items were revealed, so unrevealed() leaves them out for the rest of the journey
+ */
+export function markRevealed(kind: string, ...items: EmotionalContent[]): void {
+  useJourneyProgressStore.getState().markRevealed(kind, items.map(item => item.id));
+}
+
+export default query;
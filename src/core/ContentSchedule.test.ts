@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatCountdown,
+  getAvailability,
+  nextScheduleChange,
+  resolveScheduleDate,
+  scheduleContent,
+  sealedContent,
+} from './ContentSchedule';
+import type { ContentAvailability, EmotionalContent } from './ContentTypes';
+
+const item = (id: number, available?: ContentAvailability): EmotionalContent => ({
+  id,
+  text: `item ${id}`,
+  emotion: 'joy',
+  effect: 'glow',
+  available,
+});
+
+// Local midnights, as bare dates resolve
+const FEB_14 = new Date(2026, 1, 14).getTime();
+const MAR_1 = new Date(2026, 2, 1).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('resolveScheduleDate', () => {
+  it('opens a bare date at local midnight', () => {
+    expect(resolveScheduleDate('2026-02-14')).toBe(FEB_14);
+  });
+
+  it('reads an ISO date-time as written', () => {
+    expect(resolveScheduleDate('2026-02-14T18:30:00Z')).toBe(Date.UTC(2026, 1, 14, 18, 30));
+  });
+
+  it('looks profile dates up by name', () => {
+    expect(resolveScheduleDate('date.anniversary', { anniversary: '2026-02-14' })).toBe(FEB_14);
+    expect(resolveScheduleDate('date.birthday', { anniversary: '2026-02-14' })).toBeNull();
+  });
+
+  it('gives null for what is not a date', () => {
+    expect(resolveScheduleDate('someday')).toBeNull();
+  });
+});
+
+describe('getAvailability', () => {
+  it('leaves unscheduled items open', () => {
+    expect(getAvailability(item(1), FEB_14)).toEqual({ state: 'open', opensAt: null, closesAt: null });
+  });
+
+  it('hides an item until its window opens, or seals it when asked', () => {
+    expect(getAvailability(item(1, { from: '2026-03-01' }), FEB_14)).toEqual({ state: 'hidden', opensAt: MAR_1, closesAt: null });
+    expect(getAvailability(item(1, { from: '2026-03-01', sealed: true }), FEB_14).state).toBe('sealed');
+  });
+
+  it('opens exactly at from and closes exactly at until', () => {
+    const windowed = item(1, { from: '2026-02-14', until: '2026-03-01' });
+
+    expect(getAvailability(windowed, FEB_14 - 1).state).toBe('hidden');
+    expect(getAvailability(windowed, FEB_14)).toEqual({ state: 'open', opensAt: null, closesAt: MAR_1 });
+    expect(getAvailability(windowed, MAR_1 - 1).state).toBe('open');
+    expect(getAvailability(windowed, MAR_1).state).toBe('hidden');
+  });
+
+  it('never seals an item whose window has passed', () => {
+    expect(getAvailability(item(1, { until: '2026-02-14', sealed: true }), MAR_1).state).toBe('hidden');
+  });
+});
+
+describe('scheduleContent', () => {
+  const items = [
+    item(1),
+    item(2, { from: '2026-03-01', sealed: true }),
+    item(3, { until: '2026-03-01' }),
+    item(4, { from: '2026-02-20' }),
+  ];
+
+  it('keeps only what is open', () => {
+    expect(scheduleContent(items, FEB_14).map(entry => entry.id)).toEqual([1, 3]);
+    expect(scheduleContent(items, MAR_1).map(entry => entry.id)).toEqual([1, 2, 4]);
+  });
+
+  it('returns unscheduled lists as they are', () => {
+    const plain = [item(1), item(2)];
+    expect(scheduleContent(plain, FEB_14)).toBe(plain);
+  });
+
+  it('lists sealed items soonest first, with when they open', () => {
+    const sealed = [item(1, { from: '2026-03-01', sealed: true }), item(2, { from: '2026-02-20', sealed: true }), item(3)];
+    expect(sealedContent(sealed, FEB_14).map(entry => [entry.id, entry.opensAt])).toEqual([
+      [2, new Date(2026, 1, 20).getTime()],
+      [1, MAR_1],
+    ]);
+  });
+
+  it('finds the next opening or closing', () => {
+    expect(nextScheduleChange(items, FEB_14)).toBe(new Date(2026, 1, 20).getTime());
+    expect(nextScheduleChange(items, MAR_1)).toBeNull();
+  });
+});
+
+describe('formatCountdown', () => {
+  it('counts down in the largest whole unit', () => {
+    expect(formatCountdown(3 * DAY + 5000, 'en')).toBe('in 3 days');
+    expect(formatCountdown(5 * 60 * 1000, 'en')).toBe('in 5 minutes');
+    expect(formatCountdown(-1000, 'en')).toBe('now');
+  });
+});
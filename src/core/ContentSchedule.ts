@@ -0,0 +1,181 @@
+/**
+ * ContentSchedule.ts — DATE-SCHEDULED CONTENT
+ *
+ * Content can be sent ahead of time. Any item may carry an availability
+ * window (`available: { from, until, sealed }`): before `from` it is locked,
+ * after `until` it is gone. Dates are YYYY-MM-DD (from local midnight), a
+ * full ISO date-time, or a date from the profile (`date.anniversary`).
+ * Locked items are left out, unless they're `sealed`: then scenes show them
+ * as sealed stars and orbs counting down to the moment they open.
+ *
+ * ContentLoader and NarrativeBuffer filter by the current date; components
+ * with their own copy of the content use scheduleContent / useScheduleClock.
+ * Open with ?now=2026-12-25 to preview a journey as it will be on that day.
+ *
+ * Philosophy: Some words are meant for a particular morning.
+ * Waiting for them is part of the gift.
+ */
+
+import { useEffect, useState } from 'react';
+import type { EmotionalContent } from './ContentTypes';
+import { profile } from './Personalization';
+
+export type AvailabilityState =
+  | 'open'    // Shown
+  | 'sealed'  // Locked, shown sealed with a countdown
+  | 'hidden'; // Locked (and not sealed), or past its window
+
+export interface Availability {
+  state: AvailabilityState;
+  opensAt: number | null;  // ms; set while locked
+  closesAt: number | null; // ms; set when the window ends
+}
+
+// Countdowns tick this often (ms)
+const COUNTDOWN_TICK = 1000;
+
+// setTimeout can't wait longer than this (ms)
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const PROFILE_DATE = /^date\.([A-Za-z]\w*)$/;
+
+/**
+ * ?now=… as an offset from the real clock (0 without the flag)
+ */
+function readNowOffset(): number {
+  if (typeof window === 'undefined') return 0;
+
+  const flag = new URLSearchParams(window.location.search).get('now');
+  const at = flag ? resolveScheduleDate(flag) : null;
+  if (flag && at === null) console.warn(`[ContentSchedule] Ignoring ?now=${flag}: not a date`);
+
+  return at === null ? 0 : at - Date.now();
+}
+
+let nowOffset: number | null = null;
+
+/**
+ * The current time as content sees it (honours ?now=)
+ */
+export function getNow(): number {
+  if (nowOffset === null) nowOffset = readNowOffset();
+  return Date.now() + nowOffset;
+}
+
+/**
+ * When a schedule date falls (ms), or null when it can't be read
+ */
+export function resolveScheduleDate(value: string, dates: Record<string, string> = profile.dates): number | null {
+  const named = PROFILE_DATE.exec(value);
+  const date = named ? dates[named[1]] : value;
+  if (!date) return null;
+
+  // A bare date opens at local midnight
+  const day = ISO_DATE.exec(date);
+  if (day) return new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3])).getTime();
+
+  const at = Date.parse(date);
+  return Number.isNaN(at) ? null : at;
+}
+
+/**
+ * Whether an item can be seen right now
+ */
+export function getAvailability(item: EmotionalContent, now: number = getNow()): Availability {
+  const schedule = item.available;
+  if (!schedule) return { state: 'open', opensAt: null, closesAt: null };
+
+  const from = schedule.from ? resolveScheduleDate(schedule.from) : null;
+  const until = schedule.until ? resolveScheduleDate(schedule.until) : null;
+
+  if (until !== null && now >= until) {
+    return { state: 'hidden', opensAt: null, closesAt: until };
+  }
+  if (from !== null && now < from) {
+    return { state: schedule.sealed ? 'sealed' : 'hidden', opensAt: from, closesAt: until };
+  }
+  return { state: 'open', opensAt: null, closesAt: until };
+}
+
+export function isAvailable(item: EmotionalContent, now: number = getNow()): boolean {
+  return getAvailability(item, now).state === 'open';
+}
+
+/**
+ * The items that are open right now
+ */
+export function scheduleContent<T extends EmotionalContent>(items: T[], now: number = getNow()): T[] {
+  return items.some(item => item.available) ? items.filter(item => isAvailable(item, now)) : items;
+}
+
+/**
+ * The items sealed right now, soonest to open first
+ */
+export function sealedContent<T extends EmotionalContent>(items: T[], now: number = getNow()): (T & { opensAt: number })[] {
+  return items
+    .map(item => ({ item, availability: getAvailability(item, now) }))
+    .filter(({ availability }) => availability.state === 'sealed')
+    .map(({ item, availability }) => ({ ...item, opensAt: availability.opensAt! }))
+    .sort((a, b) => a.opensAt - b.opensAt);
+}
+
+/**
+ * The next moment any of these items opens or closes (null when none will)
+ */
+export function nextScheduleChange(items: EmotionalContent[], now: number = getNow()): number | null {
+  const upcoming = items
+    .flatMap(item => {
+      const { opensAt, closesAt } = getAvailability(item, now);
+      return [opensAt, closesAt];
+    })
+    .filter((at): at is number => at !== null && at > now);
+
+  return upcoming.length > 0 ? Math.min(...upcoming) : null;
+}
+
+/**
+ * A countdown in the locale's words: "in 3 days", "in 5 minutes"
+ */
+export function formatCountdown(ms: number, locale: string): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const [value, unit]: [number, Intl.RelativeTimeFormatUnit] =
+    seconds >= 86400 ? [Math.floor(seconds / 86400), 'day']
+    : seconds >= 3600 ? [Math.floor(seconds / 3600), 'hour']
+    : seconds >= 60 ? [Math.floor(seconds / 60), 'minute']
+    : [seconds, 'second'];
+
+  return new Intl.RelativeTimeFormat(locale, { numeric: 'auto' }).format(value, unit);
+}
+
+/**
+ * React hook: the current time for scheduling these items. Re-renders every
+ * second while any is sealed (for countdowns), otherwise when the next one
+ * opens or closes.
+ */
+export function useScheduleClock(items: EmotionalContent[]): number {
+  const [now, setNow] = useState(getNow);
+
+  useEffect(() => {
+    const counting = items.some(item => getAvailability(item, now).state === 'sealed');
+    const next = nextScheduleChange(items, now);
+    if (!counting && next === null) return;
+
+    const delay = counting ? COUNTDOWN_TICK : Math.min(next! - now, MAX_TIMEOUT);
+    const timer = window.setTimeout(() => setNow(getNow()), delay);
+    return () => window.clearTimeout(timer);
+  }, [items, now]);
+
+  return now;
+}
+
+export default {
+  getNow,
+  resolveScheduleDate,
+  getAvailability,
+  isAvailable,
+  scheduleContent,
+  sealedContent,
+  nextScheduleChange,
+  formatCountdown,
+};
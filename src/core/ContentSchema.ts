@@ -0,0 +1,559 @@
+/**
+ * ContentSchema.ts — CONTENT SCHEMAS
+ *
+ * Strict schemas for every file in src/data/: wishes, apologies, promises,
+ * songs, words, the finale stages and the personalization profile. Content
+ * and string catalogs may only use {{tokens}} the profile fills. Validation
+ * produces a structured report (file, item id, field, expected vs actual)
+ * that ContentLoader prints in dev and the Vite content check turns into a
+ * failed build.
+ *
+ * No DOM in here, and nothing that imports it: vite.config.ts runs these
+ * schemas at build time.
+ *
+ * Philosophy: A typo in a promise should be caught by us,
+ * never discovered by her.
+ */
+
+import { EMOTION_TO_ANIMATION, FINALE_STAGES, THEME_TO_STYLE, WORD_CATEGORIES } from './ContentTypes';
+import { findUnknownTokens, getProfileTokens, type TokenValues } from './Personalization';
+import { checkMarkup, highlightEmotions, parseRichText } from './RichText';
+
+/**
+ * Content files with a schema (file name without .json)
+ */
+export type ContentKind = 'wishes' | 'apologies' | 'promises' | 'songs' | 'words' | 'finale';
+
+type FieldType =
+  | 'id'        // Number or non-empty string
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'color'     // #RGB or #RRGGBB
+  | 'timing'    // Seconds, or a pacing mode
+  | 'date'      // YYYY-MM-DD
+  | 'schedule'  // YYYY-MM-DD, an ISO date-time, or a profile date (date.anniversary)
+  | 'array'
+  | 'object';
+
+/**
+ * What one field must look like
+ */
+export interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+  oneOf?: readonly (string | number)[];
+  min?: number;              // Smallest number, or shortest string / array
+  max?: number;              // Largest number, or longest string / array
+  items?: FieldSpec;         // Every array entry
+  fields?: ContentSchema;    // An object's own fields
+  values?: FieldSpec;        // Every value of a name → value object
+}
+
+/**
+ * Field name → spec. Fields not listed are reported.
+ */
+export type ContentSchema = Record<string, FieldSpec>;
+
+/**
+ * One thing wrong with one field
+ */
+export interface ContentIssue {
+  file: string;
+  itemId: number | string | null; // null when the item has no usable id
+  index: number;                  // Position in the file (-1 for the file itself)
+  field: string;                  // Path within the item, e.g. lyrics[3].time
+  expected: string;
+  actual: string;
+}
+
+/**
+ * Everything wrong with one content file
+ */
+export interface ContentReport {
+  file: string;
+  kind: ContentKind | 'profile' | 'strings';
+  count: number;
+  issues: ContentIssue[];
+  valid: boolean;
+}
+
+// Mirrors PacingMode (NarrativeStaging needs the DOM, so it can't be imported here)
+const PACING_MODES = ['instant', 'slow', 'float', 'linger', 'crescendo', 'cascade'];
+
+const EMOTIONS = Object.keys(EMOTION_TO_ANIMATION);
+const EFFECTS = Object.values(EMOTION_TO_ANIMATION).map(animation => animation.name);
+const THEMES = Object.keys(THEME_TO_STYLE);
+const SIZES = ['small', 'medium', 'large'];
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+const PROFILE_DATE = /^date\.[A-Za-z]\w*$/;
+
+/**
+ * An availability window (ContentAvailability)
+ */
+const AVAILABILITY: ContentSchema = {
+  from: { type: 'schedule' },
+  until: { type: 'schedule' },
+  sealed: { type: 'boolean' },
+};
+
+/**
+ * Fields every piece of emotional content shares
+ */
+const EMOTIONAL_CONTENT: ContentSchema = {
+  id: { type: 'id', required: true },
+  text: { type: 'string', required: true, min: 1 },
+  emotion: { type: 'string', required: true, oneOf: EMOTIONS },
+  effect: { type: 'string', required: true, oneOf: EFFECTS },
+  theme: { type: 'string', oneOf: THEMES },
+  timing: { type: 'timing' },
+  available: { type: 'object', fields: AVAILABILITY },
+};
+
+const LYRIC_LINE: ContentSchema = {
+  time: { type: 'number', required: true, min: 0 },
+  text: { type: 'string', required: true, min: 1 },
+  emphasis: { type: 'boolean' },
+  effect: { type: 'string', oneOf: ['fade', 'bloom', 'wave', 'sparkle'] },
+};
+
+/**
+ * One schema per content file
+ */
+export const CONTENT_SCHEMAS: Record<ContentKind, ContentSchema> = {
+  wishes: {
+    ...EMOTIONAL_CONTENT,
+    animation: { type: 'string', required: true, oneOf: ['shooting-star', 'twinkle', 'bloom', 'pulse', 'spiral'] },
+    intensity: { type: 'string', oneOf: ['soft', 'medium', 'bright'] },
+    color: { type: 'color' },
+    position: {
+      type: 'object',
+      fields: {
+        x: { type: 'number', required: true },
+        y: { type: 'number', required: true },
+        z: { type: 'number', required: true },
+      },
+    },
+  },
+
+  apologies: {
+    ...EMOTIONAL_CONTENT,
+    intensity: { type: 'string', required: true, oneOf: ['soft', 'deep', 'tender'] },
+    petal_count: { type: 'number', min: 0 },
+    rain_intensity: { type: 'number', min: 0, max: 1 },
+    pause_duration: { type: 'number', min: 0 },
+  },
+
+  promises: {
+    ...EMOTIONAL_CONTENT,
+    glow_color: { type: 'color', required: true },
+    orb_size: { type: 'string', oneOf: SIZES },
+    reveal_delay: { type: 'number', min: 0 },
+    ambient_sound: { type: 'string', min: 1 },
+  },
+
+  songs: {
+    ...EMOTIONAL_CONTENT,
+    title: { type: 'string', required: true, min: 1 },
+    artist: { type: 'string' },
+    description: { type: 'string' },
+    bpm: { type: 'number', min: 1 },
+    duration: { type: 'number', required: true, min: 0 },
+    lyrics: { type: 'array', required: true, items: { type: 'object', fields: LYRIC_LINE } },
+    mood: { type: 'string', required: true, oneOf: ['gentle', 'uplifting', 'romantic', 'melancholic', 'joyful'] },
+    color_palette: { type: 'array', required: true, min: 1, items: { type: 'color' } },
+    audio_file: { type: 'string', min: 1 },
+    vfxHooks: { type: 'array', items: { type: 'string', min: 1 } },
+  },
+
+  words: {
+    ...EMOTIONAL_CONTENT,
+    category: { type: 'string', required: true, oneOf: WORD_CATEGORIES },
+    phrase: { type: 'string' },
+    glow_intensity: { type: 'number', required: true, min: 0, max: 1 },
+    size: { type: 'string', oneOf: SIZES },
+    orbit_speed: { type: 'number', min: 0 },
+  },
+
+  finale: {
+    ...EMOTIONAL_CONTENT,
+    stage: { type: 'string', required: true, oneOf: FINALE_STAGES },
+    intensity: { type: 'number', required: true, min: 0, max: 1 },
+    voice_volume: { type: 'number', required: true, min: 0, max: 1 },
+    haptic: { type: 'string', min: 1 },
+  },
+};
+
+const NAMES: ContentSchema = {
+  recipient: { type: 'string', min: 1 },
+  author: { type: 'string', min: 1 },
+  nicknames: { type: 'array', items: { type: 'string', min: 1 } },
+};
+
+/**
+ * The personalization profile (profile.json)
+ */
+export const PROFILE_SCHEMA: ContentSchema = {
+  recipient: { type: 'string', required: true, min: 1 },
+  author: { type: 'string', required: true, min: 1 },
+  pronouns: {
+    type: 'object',
+    required: true,
+    fields: {
+      subject: { type: 'string', required: true, min: 1 },
+      object: { type: 'string', required: true, min: 1 },
+      possessive: { type: 'string', required: true, min: 1 },
+    },
+  },
+  nicknames: { type: 'array', required: true, items: { type: 'string', min: 1 } },
+  dates: { type: 'object', required: true, values: { type: 'date' } },
+  localized: { type: 'object', values: { type: 'object', fields: NAMES } },
+};
+
+type ReportIssue = (field: string, expected: string, actual: unknown) => void;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(type: FieldType, value: unknown): boolean {
+  switch (type) {
+    case 'id':
+      return (typeof value === 'number' && Number.isFinite(value)) || (typeof value === 'string' && value !== '');
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'color':
+      return typeof value === 'string' && HEX_COLOR.test(value);
+    case 'timing':
+      return (typeof value === 'number' && value >= 0) || (typeof value === 'string' && PACING_MODES.includes(value));
+    case 'date':
+      return typeof value === 'string' && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value));
+    case 'schedule':
+      return typeof value === 'string' && (
+        PROFILE_DATE.test(value) ||
+        ((ISO_DATE.test(value) || ISO_DATE_TIME.test(value)) && !Number.isNaN(Date.parse(value)))
+      );
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isRecord(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * What a spec asks for, in words
+ */
+function describeSpec(spec: FieldSpec): string {
+  if (spec.oneOf) {
+    return spec.oneOf.map(option => JSON.stringify(option)).join(' | ');
+  }
+
+  switch (spec.type) {
+    case 'id':
+      return 'number or non-empty string';
+    case 'color':
+      return 'hex color (#RRGGBB)';
+    case 'timing':
+      return `seconds or ${PACING_MODES.join(' | ')}`;
+    case 'date':
+      return 'date (YYYY-MM-DD)';
+    case 'schedule':
+      return 'YYYY-MM-DD, an ISO date-time or date.<profile date>';
+    case 'string':
+      return spec.min ? 'non-empty string' : 'string';
+    case 'array':
+      return spec.min ? `array of at least ${spec.min}` : 'array';
+    case 'number':
+      if (spec.min !== undefined && spec.max !== undefined) return `number ${spec.min}–${spec.max}`;
+      if (spec.min !== undefined) return `number ≥ ${spec.min}`;
+      if (spec.max !== undefined) return `number ≤ ${spec.max}`;
+      return 'number';
+    default:
+      return spec.type;
+  }
+}
+
+/**
+ * What a value actually was, briefly
+ */
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (isRecord(value)) return 'object';
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 37)}...` : value);
+  }
+  return String(value);
+}
+
+function checkField(spec: FieldSpec, value: unknown, path: string, report: ReportIssue): void {
+  if (value === undefined) {
+    if (spec.required) report(path, describeSpec(spec), value);
+    return;
+  }
+
+  if (!matchesType(spec.type, value)) {
+    report(path, describeSpec(spec), value);
+    return;
+  }
+
+  if (spec.oneOf && !spec.oneOf.includes(value as string | number)) {
+    report(path, describeSpec(spec), value);
+    return;
+  }
+
+  // Bounds: the number itself, or the length of a string / array
+  const size = typeof value === 'number' ? value : (value as { length?: number }).length;
+  if (size !== undefined && (
+    (spec.min !== undefined && size < spec.min) ||
+    (spec.max !== undefined && size > spec.max)
+  )) {
+    report(path, describeSpec(spec), value);
+    return;
+  }
+
+  if (spec.items && Array.isArray(value)) {
+    value.forEach((entry, i) => checkField(spec.items!, entry, `${path}[${i}]`, report));
+  }
+
+  if (spec.fields && isRecord(value)) {
+    checkFields(spec.fields, value, `${path}.`, report);
+  }
+
+  if (spec.values && isRecord(value)) {
+    Object.entries(value).forEach(([key, entry]) => checkField(spec.values!, entry, `${path}.${key}`, report));
+  }
+}
+
+function checkFields(schema: ContentSchema, value: Record<string, unknown>, prefix: string, report: ReportIssue): void {
+  Object.entries(schema).forEach(([key, spec]) => {
+    checkField(spec, value[key], `${prefix}${key}`, report);
+  });
+
+  // Strict: an unknown field is usually a misspelled known one
+  Object.keys(value)
+    .filter(key => !(key in schema))
+    .forEach(key => report(`${prefix}${key}`, 'nothing (unknown field)', value[key]));
+}
+
+/**
+ * Report personalization tokens ({{recipient}}) in any string of a value
+ * that the profile can't fill
+ */
+function checkTokens(value: unknown, path: string, tokens: TokenValues, report: ReportIssue): void {
+  if (typeof value === 'string') {
+    findUnknownTokens(value, tokens).forEach(token => report(path, describeTokens(tokens), token));
+  } else if (Array.isArray(value)) {
+    value.forEach((entry, i) => checkTokens(entry, `${path}[${i}]`, tokens, report));
+  } else if (isRecord(value)) {
+    Object.entries(value).forEach(([key, entry]) => checkTokens(entry, path ? `${path}.${key}` : key, tokens, report));
+  }
+}
+
+// Fields whose strings may carry rich-text markup (RichText)
+const RICH_TEXT_FIELDS = new Set(['text', 'phrase']);
+
+/**
+ * Rich-text markup must close, and highlight with a known emotion
+ */
+function checkRichText(value: unknown, path: string, report: ReportIssue): void {
+  if (Array.isArray(value)) {
+    value.forEach((entry, i) => checkRichText(entry, `${path}[${i}]`, report));
+  } else if (isRecord(value)) {
+    Object.entries(value).forEach(([key, entry]) => {
+      const field = path ? `${path}.${key}` : key;
+      if (typeof entry !== 'string') {
+        checkRichText(entry, field, report);
+      } else if (RICH_TEXT_FIELDS.has(key)) {
+        checkMarkup(entry).forEach(problem => report(field, 'closed markup (escape a literal marker: \\*)', problem));
+        highlightEmotions(parseRichText(entry))
+          .filter(emotion => !EMOTIONS.includes(emotion))
+          .forEach(emotion => report(field, `a highlight emotion (${EMOTIONS.join(', ')})`, emotion));
+      }
+    });
+  }
+}
+
+/**
+ * An availability window may only name dates the profile has, and must
+ * open before it closes
+ */
+function checkAvailability(schedule: Record<string, unknown>, tokens: TokenValues, report: ReportIssue): void {
+  const [from, until] = (['from', 'until'] as const).map(key => {
+    const value = schedule[key];
+    if (typeof value !== 'string') return null;
+
+    if (PROFILE_DATE.test(value)) {
+      if (!(value in tokens)) report(`available.${key}`, describeProfileDates(tokens), value);
+      return null;
+    }
+
+    const at = Date.parse(value);
+    return Number.isNaN(at) ? null : at;
+  });
+
+  if (from !== null && until !== null && from >= until) {
+    report('available.until', 'a date after available.from', schedule.until);
+  }
+}
+
+function describeProfileDates(tokens: TokenValues): string {
+  const names = Object.keys(tokens).filter(name => name.startsWith('date.'));
+  return names.length > 0 ? `a profile date (${names.join(', ')})` : 'a date listed in profile.json dates';
+}
+
+function describeTokens(tokens: TokenValues): string {
+  return `a profile token (${Object.keys(tokens).map(name => `{{${name}}}`).join(', ')})`;
+}
+
+// kind.json, or kind.<locale>.json for a translation (wishes.hi.json, wishes.pt-BR.json)
+const CONTENT_FILE = /^([a-z]+)(?:\.([a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*))?\.json$/;
+
+/**
+ * What a content file holds, from its name: its kind, and its locale when it
+ * is a translation (null when the file has no schema)
+ */
+export function parseContentFile(file: string): { kind: ContentKind; locale: string | null } | null {
+  const match = CONTENT_FILE.exec(file.split(/[\\/]/).pop() || '');
+  if (!match || !(match[1] in CONTENT_SCHEMAS)) return null;
+
+  return { kind: match[1] as ContentKind, locale: match[2] || null };
+}
+
+/**
+ * Options for validateContent
+ */
+export interface ValidateOptions {
+  // The file is a translation of these items: each entry needs only an id
+  // the base file has, plus the fields it translates
+  translationOf?: unknown[];
+  // Tokens strings may use (default: the bundled profile's)
+  tokens?: TokenValues;
+}
+
+/**
+ * Check a content file's parsed JSON against its schema
+ */
+export function validateContent(
+  kind: ContentKind,
+  data: unknown,
+  file: string = `${kind}.json`,
+  options: ValidateOptions = {}
+): ContentReport {
+  const issues: ContentIssue[] = [];
+
+  if (!Array.isArray(data)) {
+    issues.push({ file, itemId: null, index: -1, field: '(file)', expected: 'array of items', actual: describeValue(data) });
+    return { file, kind, count: 0, issues, valid: false };
+  }
+
+  const { translationOf, tokens = getProfileTokens() } = options;
+  const schema = translationOf
+    ? Object.fromEntries(
+        Object.entries(CONTENT_SCHEMAS[kind]).map(([key, spec]) => [key, key === 'id' ? spec : { ...spec, required: false }])
+      )
+    : CONTENT_SCHEMAS[kind];
+  const baseIds = translationOf
+    ? new Set(translationOf.map(item => (isRecord(item) ? item.id : undefined)))
+    : null;
+  const seenIds: Set<number | string> = new Set();
+
+  data.forEach((item: unknown, index) => {
+    const id = isRecord(item) ? item.id : undefined;
+    const itemId = typeof id === 'number' || typeof id === 'string' ? id : null;
+
+    const report: ReportIssue = (field, expected, actual) => {
+      issues.push({ file, itemId, index, field, expected, actual: describeValue(actual) });
+    };
+
+    if (!isRecord(item)) {
+      report('(item)', 'object', item);
+      return;
+    }
+
+    checkFields(schema, item, '', report);
+    checkTokens(item, '', tokens, report);
+    checkRichText(item, '', report);
+    if (isRecord(item.available)) checkAvailability(item.available, tokens, report);
+
+    if (itemId !== null) {
+      if (seenIds.has(itemId)) report('id', 'unique id', itemId);
+      if (baseIds && !baseIds.has(itemId)) report('id', `an id from ${kind}.json`, itemId);
+      seenIds.add(itemId);
+    }
+  });
+
+  return { file, kind, count: data.length, issues, valid: issues.length === 0 };
+}
+
+/**
+ * Check the personalization profile against PROFILE_SCHEMA
+ */
+export function validateProfile(data: unknown, file: string = 'profile.json'): ContentReport {
+  const issues: ContentIssue[] = [];
+  const report: ReportIssue = (field, expected, actual) => {
+    issues.push({ file, itemId: null, index: -1, field, expected, actual: describeValue(actual) });
+  };
+
+  if (isRecord(data)) {
+    checkFields(PROFILE_SCHEMA, data, '', report);
+  } else {
+    report('(file)', 'object', data);
+  }
+
+  return { file, kind: 'profile', count: 1, issues, valid: issues.length === 0 };
+}
+
+/**
+ * Check a string catalog's tokens: every {{token}} must be one the profile fills
+ */
+export function validateStrings(
+  data: unknown,
+  file: string,
+  tokens: TokenValues = getProfileTokens()
+): ContentReport {
+  const issues: ContentIssue[] = [];
+  const report: ReportIssue = (field, expected, actual) => {
+    issues.push({ file, itemId: null, index: -1, field, expected, actual: describeValue(actual) });
+  };
+
+  if (isRecord(data)) {
+    checkTokens(data, '', tokens, report);
+  } else {
+    report('(file)', 'object of strings', data);
+  }
+
+  return { file, kind: 'strings', count: isRecord(data) ? Object.keys(data).length : 0, issues, valid: issues.length === 0 };
+}
+
+/**
+ * A report as readable lines, one issue per line
+ */
+export function formatContentReport(report: ContentReport): string {
+  const header = `${report.file}: ${report.issues.length} issue${report.issues.length === 1 ? '' : 's'} in ${report.count} items`;
+
+  const lines = report.issues.map(issue => {
+    const where = issue.index < 0
+      ? ''
+      : `#${issue.itemId ?? '?'} (item ${issue.index}) `;
+    return `  ${where}${issue.field}: expected ${issue.expected}, got ${issue.actual}`;
+  });
+
+  return [header, ...lines].join('\n');
+}
+
+export default {
+  CONTENT_SCHEMAS,
+  PROFILE_SCHEMA,
+  parseContentFile,
+  validateContent,
+  validateProfile,
+  validateStrings,
+  formatContentReport,
+};
@@ -18,6 +18,17 @@ export interface EmotionalContent {
   effect: string;
   theme?: string;
   timing?: string | number;
+  available?: ContentAvailability; // Show only within a window (core/ContentSchedule.ts)
+}
+
+/**
+ * When an item may be seen. Dates are YYYY-MM-DD, an ISO date-time, or a
+ * profile date (date.anniversary).
+ */
+export interface ContentAvailability {
+  from?: string;    // Locked until then
+  until?: string;   // Gone from then on
+  sealed?: boolean; // While locked, show it sealed with a countdown instead of leaving it out
 }
 
 /**
@@ -56,11 +67,14 @@ export interface Promise extends EmotionalContent {
 export interface Song extends EmotionalContent {
   title: string;
   artist?: string;
+  description?: string;
+  bpm?: number;
   duration: number; // Duration in seconds
   lyrics: LyricLine[];
   mood: 'gentle' | 'uplifting' | 'romantic' | 'melancholic' | 'joyful';
   color_palette: string[]; // Colors for sphere visualization
   audio_file?: string; // Path to audio file
+  vfxHooks?: string[]; // Named visual effects the sphere layers on
 }
 
 /**
@@ -73,17 +87,61 @@ export interface LyricLine {
   effect?: 'fade' | 'bloom' | 'wave' | 'sparkle';
 }
 
+/**
+ * Constellation word categories (as written in words.json)
+ */
+export const WORD_CATEGORIES = [
+  'admiration',
+  'celestial',
+  'character',
+  'everyday',
+  'light',
+  'metaphor',
+  'nature',
+  'seasons',
+  'time',
+  'touch',
+  'other',
+] as const;
+
+export type WordCategory = typeof WORD_CATEGORIES[number];
+
 /**
  * Word structure for Word Constellation
  */
 export interface Word extends EmotionalContent {
-  category: 'beauty' | 'strength' | 'kindness' | 'light' | 'warmth' | 'grace' | 'wisdom' | 'courage' | 'other';
+  category: WordCategory;
   phrase?: string; // Associated poetic phrase (reveals on click)
   glow_intensity: number; // 0-1
   size?: 'small' | 'medium' | 'large';
   orbit_speed?: number; // Rotation speed multiplier
 }
 
+/**
+ * Finale stages, in the order the heart nebula plays them
+ */
+export const FINALE_STAGES = [
+  'anticipation', // Pre-finale pause
+  'gathering',    // Particles converge to center
+  'heartbeat',    // Double-pulse formation
+  'bloom',        // Heart-shaped nebula expands
+  'flare',        // Brightness peak
+  'eclipse',      // Slow waterfall fade
+  'afterglow',    // Lingering glow (infinite)
+] as const;
+
+export type FinaleStage = typeof FINALE_STAGES[number];
+
+/**
+ * One line of the finale, spoken during its stage
+ */
+export interface FinaleLine extends EmotionalContent {
+  stage: FinaleStage;
+  intensity: number;    // Nebula brightness while the line shows (0-1)
+  voice_volume: number; // Voice-over level for the line (0-1)
+  haptic?: string;      // Named haptic cue
+}
+
 /**
  * Content loader response
  */
@@ -94,6 +152,42 @@ export interface ContentLoadResult<T> {
   error?: string;
 }
 
+/**
+ * Where the content pipeline (vite.config.ts) serves content files from,
+ * relative to the app's base URL
+ */
+export const CONTENT_DIR = 'content';
+export const CONTENT_MANIFEST_PATH = `${CONTENT_DIR}/manifest.json`;
+
+/**
+ * One content file as listed in the manifest
+ */
+export interface ContentManifestEntry {
+  url: string;   // Relative to the base URL; hashed in builds
+  hash: string;  // Content hash of the file
+  count: number; // Items in the file
+}
+
+/**
+ * Content manifest: content kind → where to fetch it
+ */
+export interface ContentManifest {
+  version: number;
+  content: Record<string, ContentManifestEntry>;
+}
+
+/**
+ * Dev server → app: a content file changed on disk (sent by vite.config.ts,
+ * handled by core/ContentHotReload.ts)
+ */
+export const CONTENT_UPDATE_EVENT = 'loveverse:content-update';
+
+export interface ContentUpdate {
+  key: string;           // Manifest key: wishes, wishes.hi
+  kind: string;          // Content kind the file belongs to
+  locale: string | null; // Set for translations
+}
+
 /**
  * Animation effect configuration
  */
@@ -289,6 +383,8 @@ export function getStyleForTheme(theme: string): ThemeStyle {
 }
 
 export default {
+  WORD_CATEGORIES,
+  FINALE_STAGES,
   EMOTION_TO_ANIMATION,
   THEME_TO_STYLE,
   getAnimationForEmotion,
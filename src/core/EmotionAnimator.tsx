@@ -11,6 +11,7 @@
 import React, { ReactNode } from 'react';
 import { motion, Variants } from 'framer-motion';
 import { getAnimationForEmotion, AnimationEffect } from './ContentTypes';
+import RichText from '../ui/RichText';
 
 interface EmotionAnimatorProps {
   emotion: string;
@@ -157,7 +158,7 @@ export default EmotionAnimator;
  */
 
 /**
- * Text that fades in with emotion-based timing
+ * Text that fades in with emotion-based timing (with its rich-text markup)
  */
 export const EmotionalText: React.FC<{
   text: string;
@@ -167,7 +168,7 @@ export const EmotionalText: React.FC<{
 }> = ({ text, emotion, delay, className }) => {
   return (
     <EmotionAnimator emotion={emotion} trigger="mount" delay={delay} className={className}>
-      <span>{text}</span>
+      <span><RichText text={text} /></span>
     </EmotionAnimator>
   );
 };
@@ -260,34 +260,35 @@ export class EmotionalCrescendoManager {
       waves: 0.1,
     };
 
-    const scenesProgress = Math.min(
-      this.state.scenesVisited.size / this.requirements.minScenesVisited,
-      1
+    const scenesProgress = this.ratio(
+      this.state.scenesVisited.size,
+      this.requirements.minScenesVisited
     );
 
-    const contentProgress = Math.min(
-      this.state.contentRevealed / this.requirements.minContentRevealed,
-      1
+    const contentProgress = this.ratio(
+      this.state.contentRevealed,
+      this.requirements.minContentRevealed
     );
 
-    const timeProgress = Math.min(
-      this.state.timeSpent / this.requirements.minTimeSpent,
-      1
+    const timeProgress = this.ratio(
+      this.state.timeSpent,
+      this.requirements.minTimeSpent
     );
 
-    const emotionsProgress = this.requirements.emotionsExperienced.reduce((sum, emotion) => {
+    const { emotionsExperienced } = this.requirements;
+    const emotionsProgress = emotionsExperienced.length === 0 ? 1 : emotionsExperienced.reduce((sum, emotion) => {
       const duration = this.state.emotionsExperienced.get(emotion) || 0;
-      return sum + Math.min(duration / this.requirements.minEmotionDuration, 1);
-    }, 0) / this.requirements.emotionsExperienced.length;
+      return sum + this.ratio(duration, this.requirements.minEmotionDuration);
+    }, 0) / emotionsExperienced.length;
 
-    const interactionsProgress = Math.min(
-      this.state.interactions / this.requirements.minInteractions,
-      1
+    const interactionsProgress = this.ratio(
+      this.state.interactions,
+      this.requirements.minInteractions
     );
 
-    const wavesProgress = Math.min(
-      this.state.narrativeWavesCompleted / this.requirements.minNarrativeWaves,
-      1
+    const wavesProgress = this.ratio(
+      this.state.narrativeWavesCompleted,
+      this.requirements.minNarrativeWaves
     );
 
     return (
@@ -300,6 +301,13 @@ export class EmotionalCrescendoManager {
     );
   }
 
+  /**
+   * Progress towards a single target (a zero target counts as met)
+   */
+  private ratio(value: number, target: number): number {
+    return target > 0 ? Math.min(value / target, 1) : 1;
+  }
+
   /**
    * Unlock finale
    */
@@ -382,6 +390,7 @@ export class EmotionalCrescendoManager {
     this.state.scenesVisited = new Set(parsed.scenesVisited);
     this.state.contentRevealed = parsed.contentRevealed;
     this.state.timeSpent = parsed.timeSpent;
+    this.state.startTime = Date.now() - parsed.timeSpent * 1000; // Keep counting from here
     this.state.emotionsExperienced = new Map(Object.entries(parsed.emotionsExperienced));
     this.state.interactions = parsed.interactions;
     this.state.gesturesUsed = new Set(parsed.gesturesUsed);
@@ -422,50 +431,20 @@ export class EmotionalCrescendoManager {
 
 /**
  * React hook for emotional crescendo
+ * (the journey-wide manager lives in the scene store)
  */
-export function useEmotionalCrescendo(requirements?: Partial<CrescendoRequirements>) {
-  const managerRef = React.useRef<EmotionalCrescendoManager | null>(null);
-  const [isUnlocked, setIsUnlocked] = React.useState(false);
-  const [progress, setProgress] = React.useState(0);
-
-  React.useEffect(() => {
-    if (!managerRef.current) {
-      managerRef.current = new EmotionalCrescendoManager(requirements);
-
-      managerRef.current.start({
-        onUnlock: () => setIsUnlocked(true),
-        onProgress: (p) => setProgress(p),
-      });
-
-      // Load persisted state
-      const saved = localStorage.getItem('loveverse-crescendo');
-      if (saved) {
-        try {
-          managerRef.current.deserialize(saved);
-          setIsUnlocked(managerRef.current.isFinaleUnlocked());
-          setProgress(managerRef.current.getProgress());
-        } catch (error) {
-          console.warn('[EmotionalCrescendo] Failed to restore state:', error);
-        }
-      }
-    }
-
-    // Save state on unmount
-    return () => {
-      if (managerRef.current) {
-        localStorage.setItem('loveverse-crescendo', managerRef.current.serialize());
-        managerRef.current.dispose();
-      }
-    };
-  }, []);
+export function useEmotionalCrescendo() {
+  const manager = useSceneStore(state => state.crescendo);
+  const isUnlocked = useSceneStore(state => state.isFinaleUnlocked);
+  const progress = useSceneStore(state => state.crescendoProgress);
 
   return {
-    manager: managerRef.current,
+    manager,
     isUnlocked,
     progress,
   };
 }
 
-import React from 'react';
+import useSceneStore from './SceneManager';
 
 export default EmotionalCrescendoManager;
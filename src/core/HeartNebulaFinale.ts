@@ -10,18 +10,14 @@
 
 import * as THREE from 'three';
 import { gsap } from 'gsap';
+import { FINALE_STAGES, type FinaleLine, type FinaleStage } from './ContentTypes';
+import { freshRandom } from './Random';
 
 /**
- * Heart nebula stages
+ * Heart nebula stages (declared with the content types, so finale.json
+ * lines are written and validated against the same sequence)
  */
-export type HeartNebulaStage =
-  | 'anticipation'       // Pre-finale pause (2s)
-  | 'gathering'          // Particles converge to center (4s)
-  | 'heartbeat'          // Double-pulse formation (1.5s)
-  | 'bloom'              // Heart-shaped nebula expands (5s)
-  | 'flare'              // Brightness peak (2s)
-  | 'eclipse'            // Slow waterfall fade (8s)
-  | 'afterglow';         // Lingering glow (infinite)
+export type HeartNebulaStage = FinaleStage;
 
 /**
  * Finale configuration
@@ -54,6 +50,28 @@ const DEFAULT_TIMINGS = {
   eclipse: 8,
 };
 
+/**
+ * finale.json lines in the order their stages play (file order within a stage)
+ */
+export function orderFinaleLines(lines: FinaleLine[]): FinaleLine[] {
+  return [...lines].sort((a, b) => FINALE_STAGES.indexOf(a.stage) - FINALE_STAGES.indexOf(b.stage));
+}
+
+/**
+ * Stage timings from finale.json: a stage lasts as long as its lines.
+ * Afterglow and lines that linger (non-numeric timing) have no end.
+ */
+export function finaleTimings(lines: FinaleLine[]): NonNullable<FinaleConfig['timings']> {
+  const timings: NonNullable<FinaleConfig['timings']> = {};
+
+  lines.forEach(line => {
+    if (line.stage === 'afterglow' || typeof line.timing !== 'number') return;
+    timings[line.stage] = (timings[line.stage] || 0) + line.timing;
+  });
+
+  return timings;
+}
+
 /**
  * Heart shape path (parametric)
  */
@@ -90,8 +108,8 @@ export class HeartNebulaFinale {
       heartScale: 1.0,
       emotionColor: '#FF6B9D',
       accentColor: '#FFD700',
-      timings: DEFAULT_TIMINGS,
       ...config,
+      timings: { ...DEFAULT_TIMINGS, ...config.timings },
     };
   }
 
@@ -186,13 +204,14 @@ export class HeartNebulaFinale {
 
     // Target: center with heart-shaped distribution
     const targetPositions = new Float32Array(positions.length);
+    const rng = freshRandom('finale:heart');
 
     for (let i = 0; i < count; i++) {
       const t = (i / count) * Math.PI * 2;
       const heartPos = heartShape(t);
 
       // Add some depth variation
-      heartPos.z = (Math.random() - 0.5) * 0.5;
+      heartPos.z = rng.spread(0.5);
 
       targetPositions[i * 3] = heartPos.x;
       targetPositions[i * 3 + 1] = heartPos.y;
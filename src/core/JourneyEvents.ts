@@ -0,0 +1,232 @@
+/**
+ * JourneyEvents.ts — JOURNEY EVENT BUS
+ *
+ * One typed stream for everything that happens on the journey: scenes
+ * entered and left, content revealed, gestures, haptics, audio cues,
+ * the crescendo building. Modules emit; sinks listen.
+ *
+ * Sinks stay on the device — an in-memory ring buffer, a localStorage
+ * journal, a JSON export — so we can see how she moved through the
+ * journey without sending a single byte anywhere.
+ *
+ * Philosophy: Remember the path, not to measure it,
+ * but to understand where it moved her.
+ */
+
+import type { SceneId } from './SceneManager';
+import type { GestureType, SwipeDirection } from './useTouchGestures';
+import type { HapticPattern } from './useHapticFeedback';
+import type { MicroInteractionType } from './MicroInteractions';
+
+/**
+ * Every event and its payload
+ */
+export interface JourneyEventMap {
+  'journey:start': { journeyId: string; start: SceneId };
+  'scene:enter': { sceneId: SceneId; from: SceneId | null };
+  'scene:exit': { sceneId: SceneId; to: SceneId; dwell: number }; // dwell in seconds
+  'content:revealed': { sceneId: SceneId };
+  'interaction': { kind: string };
+  'gesture': { gesture: GestureType; direction?: SwipeDirection; duration?: number };
+  'haptic': { pattern: HapticPattern };
+  'micro:interaction': { effect: MicroInteractionType };
+  'micro:moment': { momentId: string; sceneId: SceneId; trigger: string };
+  'audio:cue': { cue: 'play' | 'stop' | 'fx'; track: string };
+  'crescendo:progress': { progress: number };
+  'crescendo:unlocked': { scenesVisited: number; timeSpent: number };
+}
+
+export type JourneyEventType = keyof JourneyEventMap;
+
+/**
+ * An event as sinks receive it
+ */
+export interface JourneyEvent<K extends JourneyEventType = JourneyEventType> {
+  type: K;
+  payload: JourneyEventMap[K];
+  scene: SceneId | null; // Scene she was in when it happened
+  at: number;            // Epoch ms
+}
+
+export type JourneyEventListener<K extends JourneyEventType> = (event: JourneyEvent<K>) => void;
+
+/**
+ * Where events end up
+ */
+export interface JourneyEventSink {
+  name: string;
+  write: (event: JourneyEvent) => void;
+  getEvents?: () => JourneyEvent[];
+  dispose?: () => void;
+}
+
+/**
+ * Typed publish/subscribe for journey events
+ */
+class JourneyEventBus {
+  private listeners: Map<JourneyEventType, Set<JourneyEventListener<JourneyEventType>>> = new Map();
+  private sinks: Map<string, JourneyEventSink> = new Map();
+  private currentScene: SceneId | null = null;
+
+  /**
+   * Publish an event to its listeners and every sink
+   */
+  emit<K extends JourneyEventType>(type: K, payload: JourneyEventMap[K]): void {
+    if (type === 'scene:enter') {
+      this.currentScene = (payload as JourneyEventMap['scene:enter']).sceneId;
+    }
+
+    const event: JourneyEvent<K> = { type, payload, scene: this.currentScene, at: Date.now() };
+
+    // A broken listener or sink must never break the journey
+    this.listeners.get(type)?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`[JourneyEvents] Listener for ${type} failed:`, error);
+      }
+    });
+
+    this.sinks.forEach(sink => {
+      try {
+        sink.write(event);
+      } catch (error) {
+        console.error(`[JourneyEvents] Sink ${sink.name} failed:`, error);
+      }
+    });
+  }
+
+  /**
+   * Listen for one event type; returns an unsubscribe function
+   */
+  on<K extends JourneyEventType>(type: K, listener: JourneyEventListener<K>): () => void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    const entry = listener as JourneyEventListener<JourneyEventType>;
+    this.listeners.get(type)!.add(entry);
+
+    return () => {
+      this.listeners.get(type)?.delete(entry);
+    };
+  }
+
+  /**
+   * Attach a sink (replacing one with the same name); returns a remove function
+   */
+  addSink(sink: JourneyEventSink): () => void {
+    this.sinks.get(sink.name)?.dispose?.();
+    this.sinks.set(sink.name, sink);
+
+    return () => {
+      if (this.sinks.get(sink.name) === sink) {
+        this.sinks.delete(sink.name);
+        sink.dispose?.();
+      }
+    };
+  }
+
+  /**
+   * Look up an attached sink
+   */
+  getSink(name: string): JourneyEventSink | undefined {
+    return this.sinks.get(name);
+  }
+}
+
+// Singleton instance
+export const journeyEvents = new JourneyEventBus();
+
+/**
+ * Sink: the most recent events, in memory
+ */
+export function createMemorySink(capacity: number = 500, name: string = 'memory'): JourneyEventSink {
+  const buffer: JourneyEvent[] = [];
+
+  return {
+    name,
+    write: (event) => {
+      buffer.push(event);
+      if (buffer.length > capacity) buffer.shift();
+    },
+    getEvents: () => [...buffer],
+  };
+}
+
+// How long the journal gathers events before writing them out (ms)
+const JOURNAL_FLUSH_DELAY = 1000;
+
+/**
+ * Sink: a journal in localStorage that survives reloads.
+ * Writes are batched; the oldest entries fall off past `limit`.
+ */
+export function createLocalStorageSink(
+  key: string = 'loveverse-journal',
+  limit: number = 2000
+): JourneyEventSink {
+  let pending: JourneyEvent[] = [];
+  let timer: number | undefined;
+
+  const read = (): JourneyEvent[] => {
+    try {
+      return JSON.parse(localStorage.getItem(key) || '[]');
+    } catch {
+      return [];
+    }
+  };
+
+  const flush = () => {
+    window.clearTimeout(timer);
+    timer = undefined;
+    if (pending.length === 0) return;
+
+    try {
+      localStorage.setItem(key, JSON.stringify([...read(), ...pending].slice(-limit)));
+    } catch (error) {
+      console.warn('[JourneyEvents] Journal write failed:', error);
+    }
+    pending = [];
+  };
+
+  window.addEventListener('pagehide', flush);
+
+  return {
+    name: 'journal',
+    write: (event) => {
+      pending.push(event);
+      if (timer === undefined) {
+        timer = window.setTimeout(flush, JOURNAL_FLUSH_DELAY);
+      }
+    },
+    getEvents: () => [...read(), ...pending],
+    dispose: () => {
+      flush();
+      window.removeEventListener('pagehide', flush);
+    },
+  };
+}
+
+/**
+ * Download a sink's events (the journal, else memory) as JSON
+ */
+export function exportJourneyEvents(sinkName?: string): void {
+  const sink = sinkName
+    ? journeyEvents.getSink(sinkName)
+    : journeyEvents.getSink('journal') || journeyEvents.getSink('memory');
+  const events = sink?.getEvents?.() || [];
+
+  const blob = new Blob([JSON.stringify(events, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `loveverse-journey-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+
+  console.log(`[JourneyEvents] Exported ${events.length} events from ${sink?.name ?? 'nowhere'}`);
+}
+
+// Recent events are always kept in memory
+journeyEvents.addSink(createMemorySink());
+
+export default journeyEvents;
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { JourneyGraph, type JourneyEdge, type JourneySceneNode } from './JourneyGraph';
+
+const node = (id: string): JourneySceneNode => ({
+  id,
+  component: 'HeroScene.v2',
+  name: id,
+  description: id,
+  ambientTrack: 'hero_bloom',
+  emotion: 'awe',
+});
+
+const graph = (ids: string[], edges: [string, string][]) =>
+  new JourneyGraph({
+    id: 'test',
+    name: 'Test',
+    start: ids[0],
+    scenes: ids.map(node),
+    edges: edges.map(([from, to]): JourneyEdge => ({ from, to })),
+  });
+
+describe('JourneyGraph progress', () => {
+  it('follows the longest path still ahead', () => {
+    // a → b → c → d, and a shortcut a → d
+    const journey = graph(['a', 'b', 'c', 'd'], [['a', 'b'], ['b', 'c'], ['c', 'd'], ['a', 'd']]);
+
+    expect(journey.getLongestRemainingPath('a')).toBe(3);
+    expect(journey.getProgress('a')).toBe(0);
+    expect(journey.getProgress('b')).toBeCloseTo(1 / 3);
+    expect(journey.getProgress('d')).toBe(1);
+  });
+
+  it('does not let loops inflate the count', () => {
+    const journey = graph(['a', 'b', 'c'], [['a', 'b'], ['b', 'a'], ['b', 'c']]);
+
+    expect(journey.getLongestRemainingPath('a')).toBe(2);
+    expect(journey.getProgress('c')).toBe(1);
+  });
+
+  it('gives the same lengths whichever scene is asked about first', () => {
+    // A loop (b ⇄ c) with a branch into it and a way out of it
+    const ids = ['a', 'b', 'c', 'd'];
+    const edges: [string, string][] = [['a', 'b'], ['a', 'c'], ['b', 'c'], ['c', 'b'], ['b', 'd']];
+    const expected = { a: 3, b: 1, c: 2, d: 0 };
+
+    const cFirst = graph(ids, edges);
+    expect(cFirst.getLongestRemainingPath('c')).toBe(2);
+    expect(cFirst.getProgress('c')).toBeCloseTo(1 / 3);
+
+    [['c', 'a', 'b', 'd'], ['a', 'b', 'c', 'd'], ['d', 'b', 'c', 'a']].forEach(order => {
+      const journey = graph(ids, edges);
+      order.forEach(id => expect(journey.getLongestRemainingPath(id)).toBe(expected[id as keyof typeof expected]));
+    });
+  });
+
+  it('walks every route through a loop', () => {
+    // Around the ring the long way before leaving it
+    const journey = graph(['a', 'b', 'c', 'd', 'out'], [['a', 'b'], ['b', 'c'], ['c', 'd'], ['d', 'a'], ['a', 'out'], ['b', 'a']]);
+
+    expect(journey.getLongestRemainingPath('b')).toBe(4);
+    expect(journey.getLongestRemainingPath('a')).toBe(3);
+    expect(journey.getLongestRemainingPath('out')).toBe(0);
+  });
+
+  it('stays quick on heavily branching journeys', () => {
+    // 40 layers of diamonds: 2^40 paths, each worked out once per scene
+    const ids = ['start'];
+    const edges: [string, string][] = [];
+    for (let layer = 0; layer < 40; layer++) {
+      const from = ids[ids.length - 1];
+      const [left, right, join] = [`l${layer}`, `r${layer}`, `j${layer}`];
+      ids.push(left, right, join);
+      edges.push([from, left], [from, right], [left, join], [right, join]);
+    }
+    const journey = graph(ids, edges);
+
+    const started = performance.now();
+    expect(journey.getLongestRemainingPath('start')).toBe(80);
+    expect(journey.getProgress('j19')).toBeCloseTo(0.5);
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * JourneyGraph.ts — DATA-DRIVEN JOURNEYS
+ *
+ * A journey is a directed graph of scenes declared in a JSON manifest.
+ * Each node names the component variant that renders it; each edge says
+ * where the story may go next, optionally only when a condition holds.
+ *
+ * Philosophy: Every love story takes its own path.
+ * The map should be written, not hard-coded.
+ */
+
+import type { Scene, SceneId } from './SceneManager';
+import type { CrescendoRequirements } from './EmotionalCrescendo';
+import birthdayJourney from '../data/journeys/birthday.json';
+import anniversaryJourney from '../data/journeys/anniversary.json';
+import apologyJourney from '../data/journeys/apology.json';
+
+/**
+ * A scene as declared in a journey manifest
+ */
+export interface JourneySceneNode extends Scene {
+  component: string; // Variant key, e.g. 'GalaxyOfWishes.v2'
+}
+
+/**
+ * Condition guarding an edge (all specified clauses must hold)
+ */
+export interface EdgeCondition {
+  flag?: string;          // Journey flag must be set
+  notFlag?: string;       // Journey flag must not be set
+  visited?: SceneId[];    // All of these scenes must have been visited
+  notVisited?: SceneId[]; // None of these scenes may have been visited
+}
+
+/**
+ * Directed edge between two scenes
+ */
+export interface JourneyEdge {
+  from: SceneId;
+  to: SceneId;
+  when?: EdgeCondition;
+  transition?: string; // TRANSITION_PRESETS key or TransitionType; derived from emotions if omitted
+}
+
+/**
+ * Emotional crescendo block: which scenes must be earned, and how
+ */
+export interface JourneyCrescendo {
+  gates: SceneId[];                                // Locked until requirements are met
+  requirements?: Partial<CrescendoRequirements>;   // Merged over the crescendo defaults
+}
+
+/**
+ * Journey manifest (one JSON file per journey)
+ */
+export interface JourneyManifest {
+  id: string;
+  name: string;
+  description?: string;
+  start: SceneId;
+  scenes: JourneySceneNode[];
+  edges: JourneyEdge[];
+  crescendo?: JourneyCrescendo;
+}
+
+/**
+ * A scene added to a journey at runtime (e.g. by a content pack)
+ */
+export interface JourneySceneAddition {
+  node: JourneySceneNode;
+  after?: SceneId;        // Slot in right after this scene; unlinked if omitted
+  when?: EdgeCondition;   // Only take the detour when this holds
+  transition?: string;    // Transition into the added scene
+}
+
+/**
+ * Runtime facts edge conditions are evaluated against
+ */
+export interface JourneyContext {
+  visited: Set<SceneId>;
+  flags: Record<string, boolean>;
+}
+
+/**
+ * Walkable journey graph built from a manifest
+ */
+export class JourneyGraph {
+  readonly manifest: JourneyManifest;
+  private nodes: Map<SceneId, JourneySceneNode> = new Map();
+  private outgoing: Map<SceneId, JourneyEdge[]> = new Map();
+  private incoming: Map<SceneId, JourneyEdge[]> = new Map();
+  private longestPaths: Map<SceneId, number> | null = null; // Per scene, worked out once (the graph never changes)
+
+  constructor(manifest: JourneyManifest) {
+    this.manifest = manifest;
+
+    manifest.scenes.forEach(scene => {
+      if (this.nodes.has(scene.id)) {
+        throw new Error(`[JourneyGraph] Duplicate scene '${scene.id}' in journey '${manifest.id}'`);
+      }
+      this.nodes.set(scene.id, scene);
+      this.outgoing.set(scene.id, []);
+      this.incoming.set(scene.id, []);
+    });
+
+    if (!this.nodes.has(manifest.start)) {
+      throw new Error(`[JourneyGraph] Start scene '${manifest.start}' not declared in journey '${manifest.id}'`);
+    }
+
+    manifest.edges.forEach(edge => {
+      if (!this.nodes.has(edge.from) || !this.nodes.has(edge.to)) {
+        throw new Error(`[JourneyGraph] Edge ${edge.from} → ${edge.to} references an unknown scene`);
+      }
+      this.outgoing.get(edge.from)!.push(edge);
+      this.incoming.get(edge.to)!.push(edge);
+    });
+
+    manifest.crescendo?.gates.forEach(sceneId => {
+      if (!this.nodes.has(sceneId)) {
+        throw new Error(`[JourneyGraph] Crescendo gate '${sceneId}' not declared in journey '${manifest.id}'`);
+      }
+    });
+  }
+
+  /**
+   * Get a scene node by id
+   */
+  getNode(sceneId: SceneId): JourneySceneNode | undefined {
+    return this.nodes.get(sceneId);
+  }
+
+  /**
+   * Get all scene nodes in declaration order
+   */
+  getNodes(): JourneySceneNode[] {
+    return this.manifest.scenes;
+  }
+
+  /**
+   * Get the scene the journey begins with
+   */
+  getStart(): SceneId {
+    return this.manifest.start;
+  }
+
+  /**
+   * Get scenes that stay locked until the crescendo is reached
+   */
+  getGatedScenes(): SceneId[] {
+    return this.manifest.crescendo?.gates || [];
+  }
+
+  /**
+   * Is this scene locked behind the crescendo?
+   */
+  isGated(sceneId: SceneId): boolean {
+    return this.getGatedScenes().includes(sceneId);
+  }
+
+  /**
+   * Get the author's crescendo requirements (defaults fill the rest)
+   */
+  getCrescendoRequirements(): Partial<CrescendoRequirements> {
+    return this.manifest.crescendo?.requirements || {};
+  }
+
+  /**
+   * Resolve the next scene. Edges are evaluated in declaration order;
+   * the first one whose condition holds wins.
+   */
+  getNext(sceneId: SceneId, context: JourneyContext): SceneId | null {
+    const edges = this.outgoing.get(sceneId) || [];
+    const edge = edges.find(e => !e.when || this.evaluate(e.when, context));
+    return edge ? edge.to : null;
+  }
+
+  /**
+   * Get the edge between two scenes, if the journey declares one
+   */
+  getEdge(from: SceneId, to: SceneId): JourneyEdge | undefined {
+    return (this.outgoing.get(from) || []).find(e => e.to === to);
+  }
+
+  /**
+   * Get every scene an edge leads to from this one (conditions ignored)
+   */
+  getSuccessors(sceneId: SceneId): SceneId[] {
+    return (this.outgoing.get(sceneId) || []).map(e => e.to);
+  }
+
+  /**
+   * Get scenes with an edge into this one (used when there is no history)
+   */
+  getPredecessors(sceneId: SceneId): SceneId[] {
+    return (this.incoming.get(sceneId) || []).map(e => e.from);
+  }
+
+  /**
+   * Evaluate an edge condition
+   */
+  evaluate(condition: EdgeCondition, context: JourneyContext): boolean {
+    if (condition.flag && !context.flags[condition.flag]) return false;
+    if (condition.notFlag && context.flags[condition.notFlag]) return false;
+    if (condition.visited && !condition.visited.every(id => context.visited.has(id))) return false;
+    if (condition.notVisited && condition.notVisited.some(id => context.visited.has(id))) return false;
+    return true;
+  }
+
+  /**
+   * Length (in edges) of the longest path from a scene to any ending,
+   * never visiting a scene twice, so loops cannot inflate the count.
+   */
+  getLongestRemainingPath(sceneId: SceneId): number {
+    if (!this.longestPaths) this.longestPaths = this.findLongestPaths();
+    return this.longestPaths.get(sceneId) ?? 0;
+  }
+
+  /**
+   * Every scene's longest remaining path. A path that leaves a loop (a
+   * strongly connected component) never comes back to it, so each loop is
+   * walked on its own, from the loops nearest the endings outwards, and
+   * takes the lengths already found beyond it. Only walks inside one loop
+   * try every route; branching between loops stays linear.
+   */
+  private findLongestPaths(): Map<SceneId, number> {
+    const longest: Map<SceneId, number> = new Map();
+    const successors = (sceneId: SceneId) => (this.outgoing.get(sceneId) || []).map(edge => edge.to);
+
+    this.findLoops().forEach(loop => {
+      const inLoop = new Set(loop);
+
+      // Longest way out once a walk inside the loop stops at a scene
+      const exits: Map<SceneId, number> = new Map(loop.map(sceneId => [
+        sceneId,
+        Math.max(0, ...successors(sceneId).filter(to => !inLoop.has(to)).map(to => 1 + longest.get(to)!)),
+      ]));
+
+      const walk = (sceneId: SceneId, onPath: Set<SceneId>): number => {
+        onPath.add(sceneId);
+        let best = exits.get(sceneId)!;
+        successors(sceneId).forEach(to => {
+          if (inLoop.has(to) && !onPath.has(to)) best = Math.max(best, 1 + walk(to, onPath));
+        });
+        onPath.delete(sceneId);
+        return best;
+      };
+
+      loop.forEach(sceneId => longest.set(sceneId, walk(sceneId, new Set())));
+    });
+
+    return longest;
+  }
+
+  /**
+   * Strongly connected components (Tarjan), each one after every
+   * component it leads to
+   */
+  private findLoops(): SceneId[][] {
+    const loops: SceneId[][] = [];
+    const index: Map<SceneId, number> = new Map();
+    const lowLink: Map<SceneId, number> = new Map();
+    const stack: SceneId[] = [];
+    const onStack: Set<SceneId> = new Set();
+
+    const visit = (sceneId: SceneId) => {
+      index.set(sceneId, index.size);
+      lowLink.set(sceneId, index.get(sceneId)!);
+      stack.push(sceneId);
+      onStack.add(sceneId);
+
+      (this.outgoing.get(sceneId) || []).forEach(({ to }) => {
+        if (!index.has(to)) {
+          visit(to);
+          lowLink.set(sceneId, Math.min(lowLink.get(sceneId)!, lowLink.get(to)!));
+        } else if (onStack.has(to)) {
+          lowLink.set(sceneId, Math.min(lowLink.get(sceneId)!, index.get(to)!));
+        }
+      });
+
+      if (lowLink.get(sceneId) === index.get(sceneId)) {
+        const loop: SceneId[] = [];
+        let member: SceneId;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          loop.push(member);
+        } while (member !== sceneId);
+        loops.push(loop);
+      }
+    };
+
+    this.nodes.forEach((_, sceneId) => {
+      if (!index.has(sceneId)) visit(sceneId);
+    });
+    return loops;
+  }
+
+  /**
+   * Build a new graph with runtime scenes slotted in. A scene placed
+   * after A takes over A's outgoing edges and A leads to it instead;
+   * a conditional detour keeps A's edges for when it does not apply.
+   */
+  extend(additions: JourneySceneAddition[]): JourneyGraph {
+    const scenes = [...this.manifest.scenes];
+    let edges = [...this.manifest.edges];
+
+    additions.forEach(({ node, after, when, transition }) => {
+      if (scenes.some(scene => scene.id === node.id)) {
+        console.warn(`[JourneyGraph] Scene '${node.id}' already exists in journey '${this.manifest.id}', skipping`);
+        return;
+      }
+      scenes.push(node);
+
+      if (!after) return;
+      if (!scenes.some(scene => scene.id === after)) {
+        console.warn(`[JourneyGraph] Cannot place '${node.id}' after '${after}': not in journey '${this.manifest.id}'`);
+        return;
+      }
+
+      const leaving = edges.filter(e => e.from === after);
+      const detour: JourneyEdge = { from: after, to: node.id, when, transition };
+      const onward = leaving.map(e => ({ ...e, from: node.id }));
+
+      // The detour goes first so it wins whenever its condition holds
+      const others = edges.filter(e => e.from !== after);
+      edges = [...others, detour, ...(when ? leaving : []), ...onward];
+    });
+
+    return new JourneyGraph({ ...this.manifest, scenes, edges });
+  }
+
+  /**
+   * Journey progress (0-1) derived from the longest remaining path
+   */
+  getProgress(sceneId: SceneId): number {
+    const total = this.getLongestRemainingPath(this.manifest.start);
+    if (total === 0) return 1;
+
+    const remaining = this.getLongestRemainingPath(sceneId);
+    return Math.min(Math.max(1 - remaining / total, 0), 1);
+  }
+}
+
+/**
+ * Built-in journey manifests
+ */
+export const JOURNEY_MANIFESTS: Record<string, JourneyManifest> = {
+  birthday: birthdayJourney as JourneyManifest,
+  anniversary: anniversaryJourney as JourneyManifest,
+  apology: apologyJourney as JourneyManifest,
+};
+
+export const DEFAULT_JOURNEY_ID = 'birthday';
+
+/**
+ * Helper: Build a graph for a built-in journey or a custom manifest
+ */
+export function createJourneyGraph(journey: string | JourneyManifest = DEFAULT_JOURNEY_ID): JourneyGraph {
+  if (typeof journey !== 'string') {
+    return new JourneyGraph(journey);
+  }
+
+  const manifest = JOURNEY_MANIFESTS[journey];
+  if (!manifest) {
+    console.warn(`[JourneyGraph] Unknown journey '${journey}', using '${DEFAULT_JOURNEY_ID}'`);
+    return new JourneyGraph(JOURNEY_MANIFESTS[DEFAULT_JOURNEY_ID]);
+  }
+
+  return new JourneyGraph(manifest);
+}
+
+export default JourneyGraph;
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The scene store pulls in the whole engine; the snapshot doesn't need it
+vi.mock('./SceneManager', () => ({ default: { getState: () => ({}), subscribe: () => () => {} } }));
+
+const STORAGE_KEY = 'loveverse-journey';
+const LEGACY_CRESCENDO_KEY = 'loveverse-crescendo';
+
+function memoryStorage(entries: Record<string, string>) {
+  const items = new Map(Object.entries(entries));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    has: (key: string) => items.has(key),
+  };
+}
+
+// Load the store fresh over what is saved (or over a storage kept from an earlier load)
+async function loadStore(entries: Record<string, string>, storage = memoryStorage(entries)) {
+  vi.stubGlobal('localStorage', storage);
+  vi.resetModules();
+  const { default: store } = await import('./JourneyPersistence');
+  return { store, state: store.getState(), storage };
+}
+
+const saved = (state: Record<string, unknown>, version: number) => JSON.stringify({ state, version });
+
+describe('JourneyPersistence migrations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('adopts the pre-versioning crescendo key as a full snapshot', async () => {
+    const { state, storage } = await loadStore({ [LEGACY_CRESCENDO_KEY]: '{"revealed":3}' });
+
+    expect(state.crescendo).toBe('{"revealed":3}');
+    expect(state.currentScene).toBeNull();
+    expect(state.firedMoments).toEqual([]);
+    expect(state.revealedContent).toEqual({});
+    expect(storage.has(LEGACY_CRESCENDO_KEY)).toBe(false);
+  });
+
+  it('keeps a saved journey when the legacy key is also there', async () => {
+    const { state } = await loadStore({
+      [LEGACY_CRESCENDO_KEY]: 'stale',
+      [STORAGE_KEY]: saved({ currentScene: 'galaxy', crescendo: 'current', firedMoments: [], revealedContent: {} }, 3),
+    });
+
+    expect(state.crescendo).toBe('current');
+    expect(state.currentScene).toBe('galaxy');
+  });
+
+  it('upgrades a v0 snapshot, dropping anything but the crescendo', async () => {
+    const { state } = await loadStore({ [STORAGE_KEY]: saved({ crescendo: 42, currentScene: 'garden' }, 0) });
+
+    expect(state.crescendo).toBeNull();
+    expect(state.currentScene).toBeNull();
+    expect(state.history).toEqual([]);
+  });
+
+  it('upgrades a v1 snapshot step by step, keeping the journey', async () => {
+    // v1 had no micro-moments or reveal tracking, so whatever is there starts over
+    const { state } = await loadStore({
+      [STORAGE_KEY]: saved({
+        journeyId: 'birthday',
+        currentScene: 'globe',
+        history: ['hero', 'galaxy'],
+        sceneProgress: { galaxy: [1] },
+        firedMoments: ['hero:0'],
+        revealedContent: { wishes: [1] },
+      }, 1),
+    });
+
+    expect(state.journeyId).toBe('birthday');
+    expect(state.currentScene).toBe('globe');
+    expect(state.history).toEqual(['hero', 'galaxy']);
+    expect(state.sceneProgress).toEqual({ galaxy: [1] });
+    expect(state.firedMoments).toEqual([]);
+    expect(state.revealedContent).toEqual({});
+  });
+
+  it('keeps fired moments from a v2 snapshot', async () => {
+    const { state } = await loadStore({
+      [STORAGE_KEY]: saved({ currentScene: 'hero', firedMoments: ['hero:0'], revealedContent: { wishes: [1] } }, 2),
+    });
+
+    expect(state.firedMoments).toEqual(['hero:0']);
+    expect(state.revealedContent).toEqual({});
+  });
+
+  it('leaves a current snapshot as it was', async () => {
+    const { state } = await loadStore({
+      [STORAGE_KEY]: saved({ currentScene: 'melody', firedMoments: ['melody:1'], revealedContent: { wishes: [1, 2] } }, 3),
+    });
+
+    expect(state.currentScene).toBe('melody');
+    expect(state.revealedContent).toEqual({ wishes: [1, 2] });
+  });
+});
+
+describe('JourneyPersistence snapshots', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('survives a reload', async () => {
+    const { store, storage } = await loadStore({});
+    const actions = store.getState();
+    actions.snapshotScene({
+      journeyId: 'birthday',
+      currentScene: 'garden',
+      history: ['hero', 'galaxy'],
+      visitedScenes: ['hero', 'galaxy', 'garden'],
+      journeyFlags: { lingered: true },
+    });
+    actions.setSceneProgress('galaxy', [1, 2, 3]);
+    actions.markMomentFired('garden:0');
+    actions.markRevealed('wishes', [1, 2]);
+    actions.setCrescendo('{"revealed":5}');
+
+    const { state } = await loadStore({}, storage);
+
+    expect(state.journeyId).toBe('birthday');
+    expect(state.currentScene).toBe('garden');
+    expect(state.history).toEqual(['hero', 'galaxy']);
+    expect(state.visitedScenes).toEqual(['hero', 'galaxy', 'garden']);
+    expect(state.journeyFlags).toEqual({ lingered: true });
+    expect(state.sceneProgress).toEqual({ galaxy: [1, 2, 3] });
+    expect(state.firedMoments).toEqual(['garden:0']);
+    expect(state.revealedContent).toEqual({ wishes: [1, 2] });
+    expect(state.crescendo).toBe('{"revealed":5}');
+    expect(state.savedAt).not.toBeNull();
+  });
+
+  it('records each moment and revealed item once', async () => {
+    const { store } = await loadStore({});
+    store.getState().markMomentFired('hero:0');
+    store.getState().markMomentFired('hero:0');
+    store.getState().markRevealed('wishes', [1, 2]);
+    store.getState().markRevealed('wishes', [2, 3]);
+
+    expect(store.getState().firedMoments).toEqual(['hero:0']);
+    expect(store.getState().revealedContent).toEqual({ wishes: [1, 2, 3] });
+  });
+
+  it('starts over on reset', async () => {
+    const { store, storage } = await loadStore({
+      [STORAGE_KEY]: saved({ currentScene: 'melody', sceneProgress: { melody: 2 }, crescendo: 'x' }, 3),
+    });
+    store.getState().reset();
+
+    const { state } = await loadStore({}, storage);
+
+    expect(state.currentScene).toBeNull();
+    expect(state.sceneProgress).toEqual({});
+    expect(state.crescendo).toBeNull();
+  });
+});
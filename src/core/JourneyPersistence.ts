@@ -0,0 +1,270 @@
+/**
+ * JourneyPersistence.ts — RESUME WHERE YOU LEFT OFF
+ *
+ * Versioned snapshot of the journey (scene, path, flags), per-scene
+ * progress, fired micro-moments, revealed content and the emotional
+ * crescendo, persisted to localStorage.
+ *
+ * Philosophy: A reload should feel like a blink, not a forgetting.
+ * What she has already opened stays open.
+ */
+
+import { useCallback, useRef } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import useSceneStore, { type SceneId } from './SceneManager';
+
+const STORAGE_KEY = 'loveverse-journey';
+const LEGACY_CRESCENDO_KEY = 'loveverse-crescendo';
+const SCHEMA_VERSION = 3;
+
+/**
+ * Persisted journey snapshot
+ */
+export interface JourneySnapshot {
+  journeyId: string | null;
+  currentScene: SceneId | null;
+  history: SceneId[];
+  visitedScenes: SceneId[];
+  journeyFlags: Record<string, boolean>;
+  sceneProgress: Record<string, unknown>; // sceneId → scene-owned JSON state
+  firedMoments: string[];                 // Micro-moment ids that have played
+  revealedContent: Record<string, (number | string)[]>; // Content kind → ids shown (ContentQuery.unrevealed)
+  crescendo: string | null;               // EmotionalCrescendoManager.serialize()
+  savedAt: number | null;
+}
+
+interface JourneyProgressStore extends JourneySnapshot {
+  // Actions
+  snapshotScene: (state: Pick<JourneySnapshot, 'journeyId' | 'currentScene' | 'history' | 'visitedScenes' | 'journeyFlags'>) => void;
+  setSceneProgress: (sceneId: SceneId, data: unknown) => void;
+  markMomentFired: (momentId: string) => void;
+  markRevealed: (kind: string, ids: (number | string)[]) => void;
+  setCrescendo: (serialized: string | null) => void;
+  reset: () => void;
+}
+
+const EMPTY_SNAPSHOT: JourneySnapshot = {
+  journeyId: null,
+  currentScene: null,
+  history: [],
+  visitedScenes: [],
+  journeyFlags: {},
+  sceneProgress: {},
+  firedMoments: [],
+  revealedContent: {},
+  crescendo: null,
+  savedAt: null,
+};
+
+/**
+ * Schema migrations, keyed by the version they upgrade *from*
+ */
+const MIGRATIONS: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {
+  // v0: only the crescendo was saved, under its own key
+  0: (state) => ({
+    ...EMPTY_SNAPSHOT,
+    crescendo: typeof state.crescendo === 'string' ? state.crescendo : null,
+  }),
+
+  // v1: before micro-moments
+  1: (state) => ({
+    ...state,
+    firedMoments: [],
+  }),
+
+  // v2: before revealed content was tracked
+  2: (state) => ({
+    ...state,
+    revealedContent: {},
+  }),
+};
+
+/**
+ * Fold the pre-versioning crescendo key into a v0 snapshot
+ */
+function adoptLegacyCrescendo(): void {
+  try {
+    const legacy = localStorage.getItem(LEGACY_CRESCENDO_KEY);
+    if (legacy && !localStorage.getItem(STORAGE_KEY)) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ state: { crescendo: legacy }, version: 0 }));
+    }
+    localStorage.removeItem(LEGACY_CRESCENDO_KEY);
+  } catch (error) {
+    console.warn('[JourneyPersistence] Legacy crescendo import failed:', error);
+  }
+}
+
+adoptLegacyCrescendo();
+
+const useJourneyProgressStore = create<JourneyProgressStore>()(
+  persist(
+    (set, get) => ({
+      ...EMPTY_SNAPSHOT,
+
+      snapshotScene: (state) => {
+        set({ ...state, savedAt: Date.now() });
+      },
+
+      setSceneProgress: (sceneId: SceneId, data: unknown) => {
+        set({
+          sceneProgress: { ...get().sceneProgress, [sceneId]: data },
+          savedAt: Date.now(),
+        });
+      },
+
+      markMomentFired: (momentId: string) => {
+        if (get().firedMoments.includes(momentId)) return;
+        set({ firedMoments: [...get().firedMoments, momentId], savedAt: Date.now() });
+      },
+
+      markRevealed: (kind: string, ids: (number | string)[]) => {
+        const revealed = get().revealedContent[kind] || [];
+        const added = ids.filter(id => !revealed.includes(id));
+        if (added.length === 0) return;
+
+        set({
+          revealedContent: { ...get().revealedContent, [kind]: [...revealed, ...added] },
+          savedAt: Date.now(),
+        });
+      },
+
+      setCrescendo: (serialized: string | null) => {
+        set({ crescendo: serialized, savedAt: Date.now() });
+      },
+
+      reset: () => {
+        set({ ...EMPTY_SNAPSHOT });
+        console.log('[JourneyPersistence] Journey cleared');
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      version: SCHEMA_VERSION,
+      migrate: (persisted, version) => {
+        let state = (persisted || {}) as Record<string, unknown>;
+        for (let v = version; v < SCHEMA_VERSION; v++) {
+          const migration = MIGRATIONS[v];
+          if (migration) {
+            state = migration(state);
+            console.log(`[JourneyPersistence] Migrated snapshot v${v} → v${v + 1}`);
+          }
+        }
+        return state as unknown as JourneyProgressStore;
+      },
+    }
+  )
+);
+
+/**
+ * Is there a journey worth resuming for the currently loaded manifest?
+ */
+export function hasResumableJourney(): boolean {
+  const { journeyId, currentScene } = useJourneyProgressStore.getState();
+  const { journey } = useSceneStore.getState();
+
+  if (!journey || !currentScene || journeyId !== journey.manifest.id) return false;
+  return currentScene !== journey.getStart() && !!journey.getNode(currentScene);
+}
+
+/**
+ * Restore the saved path and step back into the saved scene
+ */
+export function resumeSavedJourney(): void {
+  const { currentScene, history, visitedScenes, journeyFlags } = useJourneyProgressStore.getState();
+  if (!currentScene || !hasResumableJourney()) return;
+
+  useSceneStore.getState().restoreJourney({
+    currentScene,
+    history,
+    visitedScenes,
+    journeyFlags,
+  });
+}
+
+/**
+ * Forget everything and begin again
+ */
+export function clearSavedJourney(): void {
+  useJourneyProgressStore.getState().reset();
+  useSceneStore.getState().resetCrescendo();
+}
+
+/**
+ * Save the journey-wide crescendo (if the journey has one)
+ */
+function saveCrescendo(): void {
+  const { crescendo } = useSceneStore.getState();
+  if (crescendo) {
+    useJourneyProgressStore.getState().setCrescendo(crescendo.serialize());
+  }
+}
+
+/**
+ * Snapshot the scene store whenever the journey moves.
+ * Call after initializeScenes(); returns an unbind function.
+ */
+export function bindJourneyPersistence(): () => void {
+  // Pick the crescendo up where it was left
+  const savedCrescendo = useJourneyProgressStore.getState().crescendo;
+  if (savedCrescendo) {
+    useSceneStore.getState().restoreCrescendo(savedCrescendo);
+  }
+
+  const unsubscribe = useSceneStore.subscribe((state, prev) => {
+    if (
+      state.crescendoProgress !== prev.crescendoProgress ||
+      state.isFinaleUnlocked !== prev.isFinaleUnlocked ||
+      state.currentScene !== prev.currentScene
+    ) {
+      saveCrescendo();
+    }
+
+    if (
+      state.currentScene === prev.currentScene &&
+      state.journeyFlags === prev.journeyFlags
+    ) {
+      return;
+    }
+
+    useJourneyProgressStore.getState().snapshotScene({
+      journeyId: state.journey?.manifest.id ?? null,
+      currentScene: state.currentScene,
+      history: state.history,
+      visitedScenes: Array.from(state.visitedScenes),
+      journeyFlags: state.journeyFlags,
+    });
+  });
+
+  // Time spent keeps counting between progress steps; catch it on the way out
+  window.addEventListener('pagehide', saveCrescendo);
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener('pagehide', saveCrescendo);
+  };
+}
+
+/**
+ * React hook: scene-owned progress that survives reloads.
+ * Values must be JSON-serializable (use arrays rather than Sets).
+ */
+export function useSceneProgress<T>(
+  sceneId: SceneId,
+  initial: T
+): [T, (value: T | ((prev: T) => T)) => void] {
+  const initialRef = useRef(initial);
+  const saved = useJourneyProgressStore(s => s.sceneProgress[sceneId]) as T | undefined;
+  const value = saved ?? initialRef.current;
+
+  const setValue = useCallback((next: T | ((prev: T) => T)) => {
+    const store = useJourneyProgressStore.getState();
+    const prev = (store.sceneProgress[sceneId] as T | undefined) ?? initialRef.current;
+    const resolved = typeof next === 'function' ? (next as (prev: T) => T)(prev) : next;
+    store.setSceneProgress(sceneId, resolved);
+  }, [sceneId]);
+
+  return [value, setValue];
+}
+
+export default useJourneyProgressStore;
@@ -0,0 +1,394 @@
+/**
+ * KioskMode.ts — KIOSK / CINEMA AUTO-PLAY
+ *
+ * Hands-free playback for showing the Loveverse on a screen at events.
+ * Each scene hands its content to the kiosk (useKioskStaging), which
+ * reveals it on NarrativeStager / WaveStager pacing and moves the journey
+ * on once it has played out. The end of the journey loops back to hero.
+ *
+ * Turned on from SettingsManager (kiosk) or the URL:
+ * - ?kiosk            each item's own pacing
+ * - ?kiosk=20         aim for a 20 minute loop
+ * - &pacing=linger    pace every reveal with one PACING_PRESETS entry
+ *
+ * Philosophy: Some nights the room is full and nobody is holding the remote.
+ * The story should still know how to tell itself.
+ */
+
+import { useEffect, useRef } from 'react';
+import useSceneStore, { type SceneId } from './SceneManager';
+import useSettingsStore, { type KioskSettings } from './SettingsManager';
+import { clearSavedJourney } from './JourneyPersistence';
+import {
+  NarrativeStager,
+  WaveStager,
+  PACING_PRESETS,
+  estimateStagedDuration,
+  parsePacingMode,
+  scalePacing,
+  type PacingConfig,
+  type PacingMode,
+} from './NarrativeStaging';
+import type { EmotionalContent } from './ContentTypes';
+
+/**
+ * Content a scene hands to the kiosk
+ */
+export interface KioskStaging<T = unknown> {
+  items: T[];
+  onReveal: (item: T, index: number) => void; // Show the item as if she had chosen it
+  categories?: string[];                      // Reveal in category waves (WaveStager)
+}
+
+// Stager stand-in for one item of scene content
+type KioskBeat = EmotionalContent & { category?: string };
+
+// Where each loop begins again once the journey has played out
+const LOOP_SCENE: SceneId = 'hero';
+
+// A breath between a scene's last reveal fading and the journey moving on
+const SCENE_BREATH = 2000;
+
+// How far a target runtime may stretch or compress a preset
+const MIN_PACE_SCALE = 0.25;
+const MAX_PACE_SCALE = 4;
+
+/**
+ * Drives the journey while kiosk mode is on
+ */
+class KioskController {
+  private config: KioskSettings | null = null;
+  private stagings: Map<SceneId, KioskStaging> = new Map();
+  private stager: NarrativeStager<KioskBeat> | WaveStager<KioskBeat> | null = null;
+  private stagedScene: SceneId | null = null;
+  private timers: number[] = [];
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Begin auto-play from wherever the journey is
+   */
+  start(config: KioskSettings): void {
+    this.stop();
+    this.config = config;
+
+    this.unsubscribe = useSceneStore.subscribe((state, prev) => {
+      if (state.crescendo !== prev.crescendo || state.isFinaleUnlocked !== prev.isFinaleUnlocked) {
+        this.openGates();
+      }
+
+      // Play each scene once it has fully arrived
+      const settled = state.transitionPhase === 'idle';
+      if (settled && (prev.transitionPhase !== 'idle' || state.currentScene !== prev.currentScene)) {
+        this.playScene(state.currentScene);
+      }
+    });
+
+    this.openGates();
+
+    const { currentScene, isTransitioning } = useSceneStore.getState();
+    if (!isTransitioning) {
+      this.playScene(currentScene);
+    }
+
+    console.log('[KioskMode] Auto-play started', config);
+  }
+
+  /**
+   * Hand the journey back to her
+   */
+  stop(): void {
+    if (!this.config) return;
+
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.clearStage();
+    this.stagedScene = null;
+    this.config = null;
+
+    console.log('[KioskMode] Auto-play stopped');
+  }
+
+  /**
+   * Is auto-play running?
+   */
+  isActive(): boolean {
+    return this.config !== null;
+  }
+
+  /**
+   * Register a scene's content; returns an unregister function
+   */
+  registerStaging(sceneId: SceneId, staging: KioskStaging): () => void {
+    this.stagings.set(sceneId, staging);
+
+    // Content that arrives after the scene settled takes over from the idle hold
+    const { currentScene, transitionPhase } = useSceneStore.getState();
+    if (this.isActive() && sceneId === currentScene && transitionPhase === 'idle' && !this.stager) {
+      this.playScene(sceneId);
+    }
+
+    return () => {
+      if (this.stagings.get(sceneId) !== staging) return;
+
+      this.stagings.delete(sceneId);
+      if (this.stagedScene === sceneId) {
+        this.clearStage();
+      }
+    };
+  }
+
+  /**
+   * Nobody is there to earn the crescendo, so gated scenes stay open
+   */
+  private openGates(): void {
+    const { crescendo } = useSceneStore.getState();
+    if (crescendo && !crescendo.isFinaleUnlocked()) {
+      crescendo.forceUnlock();
+    }
+  }
+
+  /**
+   * Reveal a scene's content (or hold on it), then move on
+   */
+  private playScene(sceneId: SceneId): void {
+    this.clearStage();
+    this.stagedScene = sceneId;
+
+    const staging = this.stagings.get(sceneId);
+    if (!staging || staging.items.length === 0) {
+      // Nothing to reveal: hold for one paced beat
+      const pacing = this.fit(this.basePacing(), 1);
+      this.schedule(() => this.advance(sceneId), estimateStagedDuration(1, pacing));
+      return;
+    }
+
+    const beats = staging.items.map((item, index) => this.toBeat(sceneId, item, index));
+
+    if (staging.categories && staging.categories.length > 0) {
+      this.playWaves(sceneId, staging, beats);
+    } else {
+      this.playNarrative(sceneId, staging, beats);
+    }
+  }
+
+  /**
+   * One item after another on NarrativeStager pacing
+   */
+  private playNarrative(sceneId: SceneId, staging: KioskStaging, beats: KioskBeat[]): void {
+    const pacing = this.fit(this.basePacing(beats[0]), beats.length);
+    const stager = new NarrativeStager(beats, pacing);
+    let exited = 0;
+
+    stager.on('enter', (staged) => {
+      staging.onReveal(staging.items[staged.index], staged.index);
+    });
+
+    stager.on('exit', () => {
+      exited++;
+      if (exited === beats.length) {
+        this.schedule(() => this.advance(sceneId), pacing.transitionOut + SCENE_BREATH);
+      }
+    });
+
+    this.stager = stager;
+    stager.start();
+  }
+
+  /**
+   * Category by category on WaveStager pacing: each wave holds for the
+   * preset's dwell while its items cascade in at the preset's transition
+   */
+  private playWaves(sceneId: SceneId, staging: KioskStaging, beats: KioskBeat[]): void {
+    const categories = staging.categories!;
+    const waves = categories.filter(c => beats.some(b => (b.category || 'other') === c)).length;
+    const pacing = this.fit(this.basePacing(beats[0]), 1, waves);
+    const itemDelay = pacing.transitionIn / 4;
+
+    const stager = new WaveStager(beats, {
+      categories,
+      waveDelay: pacing.dwellTime,
+      itemDelay,
+    });
+
+    stager.on('wave-start', (items) => {
+      items.forEach((beat, i) => {
+        const index = beat.id as number;
+        this.schedule(() => staging.onReveal(staging.items[index], index), i * itemDelay);
+      });
+    });
+
+    stager.on('complete', () => {
+      this.schedule(() => this.advance(sceneId), pacing.transitionOut + SCENE_BREATH);
+    });
+
+    this.stager = stager;
+    stager.start();
+  }
+
+  /**
+   * Move to the next scene, or loop once the journey has played out
+   */
+  private advance(sceneId: SceneId): void {
+    const { currentScene, journey, visitedScenes, journeyFlags, nextScene, setScene } = useSceneStore.getState();
+    if (!this.isActive() || currentScene !== sceneId || !journey) return;
+
+    if (journey.getNext(currentScene, { visited: visitedScenes, flags: journeyFlags })) {
+      nextScene();
+      return;
+    }
+
+    // Every loop starts fresh: scenes forget what was revealed last time
+    const start = journey.getStart();
+    const loopTo = journey.getNode(LOOP_SCENE)
+      ? LOOP_SCENE
+      : journey.getNext(start, { visited: new Set([start]), flags: {} }) || start;
+
+    clearSavedJourney();
+    useSceneStore.setState({ history: [], visitedScenes: new Set([start]), journeyFlags: {} });
+
+    console.log(`[KioskMode] Journey complete — looping back to ${loopTo}`);
+    setScene(loopTo);
+  }
+
+  /**
+   * The preset reveals follow: the configured one, or the content's own timing
+   */
+  private basePacing(first?: KioskBeat): PacingConfig {
+    const mode = this.config?.pacing;
+    if (mode && mode !== 'auto') {
+      return PACING_PRESETS[mode];
+    }
+    return PACING_PRESETS[parsePacingMode(first?.timing)];
+  }
+
+  /**
+   * Scale a preset so the scene fills its share of the target runtime
+   */
+  private fit(pacing: PacingConfig, count: number, waves: number = 0): PacingConfig {
+    const targetRuntime = this.config?.targetRuntime || 0;
+    const { journey } = useSceneStore.getState();
+    if (targetRuntime <= 0 || !journey) return pacing;
+
+    // Every scene but the opening one plays in each loop
+    const share = (targetRuntime * 1000) / Math.max(1, journey.getNodes().length - 1);
+    const natural = waves > 0
+      ? waves * pacing.dwellTime + pacing.transitionOut + SCENE_BREATH
+      : estimateStagedDuration(count, pacing) + SCENE_BREATH;
+
+    const scale = Math.min(MAX_PACE_SCALE, Math.max(MIN_PACE_SCALE, share / natural));
+    return scalePacing(pacing, scale);
+  }
+
+  /**
+   * Wrap a scene's item so the stagers can pace it
+   */
+  private toBeat(sceneId: SceneId, item: unknown, index: number): KioskBeat {
+    const content = (typeof item === 'object' && item !== null ? item : {}) as Partial<KioskBeat>;
+    const scene = useSceneStore.getState().scenes.get(sceneId);
+
+    return {
+      id: index,
+      text: content.text || '',
+      emotion: content.emotion || scene?.emotion || 'serenity',
+      effect: content.effect || 'kiosk',
+      timing: content.timing,
+      category: content.category,
+    };
+  }
+
+  private schedule(callback: () => void, delay: number): void {
+    this.timers.push(window.setTimeout(callback, delay));
+  }
+
+  /**
+   * Stop the current scene's stager and pending steps
+   */
+  private clearStage(): void {
+    this.stager?.dispose();
+    this.stager = null;
+    this.timers.forEach(t => window.clearTimeout(t));
+    this.timers = [];
+  }
+}
+
+// Singleton instance
+const kioskController = new KioskController();
+
+/**
+ * Read ?kiosk[=minutes][&pacing=preset] (null when the flag is absent)
+ */
+function readKioskFlag(): KioskSettings | null {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has('kiosk')) return null;
+
+  const value = params.get('kiosk') || '';
+  const minutes = parseFloat(value);
+  const pacing = params.get('pacing') || '';
+
+  return {
+    enabled: value !== 'off',
+    targetRuntime: minutes > 0 ? minutes * 60 : 0,
+    pacing: pacing in PACING_PRESETS ? pacing as PacingMode : 'auto',
+  };
+}
+
+/**
+ * Follow the URL flag (which wins) or the kiosk setting.
+ * Call after initializeScenes(); returns an unbind function.
+ */
+export function bindKioskMode(): () => void {
+  const fromUrl = readKioskFlag();
+
+  const apply = () => {
+    const config = fromUrl || useSettingsStore.getState().kiosk;
+    if (config.enabled) {
+      kioskController.start(config);
+    } else {
+      kioskController.stop();
+    }
+  };
+
+  apply();
+
+  const unsubscribe = useSettingsStore.subscribe((state, prev) => {
+    if (!fromUrl && state.kiosk !== prev.kiosk) apply();
+  });
+
+  return () => {
+    unsubscribe();
+    kioskController.stop();
+  };
+}
+
+/**
+ * React hook: hand a scene's content to the kiosk. onReveal should do
+ * what her tap would (open the photo, release the wish, ...).
+ * Does nothing unless kiosk mode is on.
+ */
+export function useKioskStaging<T>(
+  sceneId: SceneId,
+  items: T[],
+  onReveal: (item: T, index: number) => void,
+  categories?: string[]
+): void {
+  const itemsRef = useRef(items);
+  const onRevealRef = useRef(onReveal);
+
+  useEffect(() => {
+    itemsRef.current = items;
+    onRevealRef.current = onReveal;
+  });
+
+  const categoryKey = categories?.join('|');
+
+  useEffect(() => {
+    return kioskController.registerStaging(sceneId, {
+      items: itemsRef.current,
+      categories: categoryKey ? categoryKey.split('|') : undefined,
+      onReveal: (_, index) => onRevealRef.current(itemsRef.current[index], index),
+    });
+  }, [sceneId, items.length, categoryKey]);
+}
+
+export { kioskController };
+export default kioskController;
@@ -0,0 +1,162 @@
+/**
+ * Localization.ts — LOCALES & STRINGS
+ *
+ * Which language the Loveverse speaks. Resolves the locale setting
+ * ('auto' follows the device), builds fallback chains (pt-BR → pt → en)
+ * for content files and UI copy, and serves component copy from the
+ * string catalogs in src/data/strings/. Right-to-left scripts get
+ * dir="rtl" wherever text is laid out.
+ *
+ * Philosophy: A love letter should arrive in the language
+ * she dreams in.
+ */
+
+import { useCallback } from 'react';
+import useSettingsStore from './SettingsManager';
+import { expandTokens, getProfileTokens } from './Personalization';
+import en from '../data/strings/en.json';
+import hi from '../data/strings/hi.json';
+import ur from '../data/strings/ur.json';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleInfo {
+  name: string; // In its own script, for the language picker
+  dir: TextDirection;
+}
+
+/**
+ * The locale every chain ends in; its catalog has every string
+ */
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * Locales with a string catalog
+ */
+export const LOCALES: Record<string, LocaleInfo> = {
+  en: { name: 'English', dir: 'ltr' },
+  hi: { name: 'हिन्दी', dir: 'ltr' },
+  ur: { name: 'اردو', dir: 'rtl' },
+};
+
+export type StringKey = keyof typeof en;
+
+type StringVars = Record<string, string | number>;
+
+const CATALOGS: Record<string, Partial<Record<StringKey, string>>> = { en, hi, ur };
+
+// Languages written right to left (for locales without a catalog)
+const RTL_LANGUAGES = ['ar', 'fa', 'he', 'ps', 'sd', 'ur', 'yi'];
+
+/**
+ * Most specific first, always ending in the default: 'pt-BR' → ['pt-BR', 'pt', 'en']
+ */
+export function localeChain(locale: string): string[] {
+  const subtags = locale.split('-');
+  const chain: string[] = [];
+
+  for (let i = subtags.length; i > 0; i--) {
+    chain.push(subtags.slice(0, i).join('-'));
+  }
+  if (!chain.includes(DEFAULT_LOCALE)) {
+    chain.push(DEFAULT_LOCALE);
+  }
+
+  return chain;
+}
+
+/**
+ * The locale a setting means: 'auto' picks the first device language we have a catalog for
+ */
+export function resolveLocale(setting: string): string {
+  if (setting !== 'auto') return setting;
+
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  const match = preferred.find(tag => tag && tag.split('-')[0].toLowerCase() in LOCALES);
+
+  return match || DEFAULT_LOCALE;
+}
+
+/**
+ * Which way a locale's text runs
+ */
+export function getTextDirection(locale: string): TextDirection {
+  const language = locale.split('-')[0].toLowerCase();
+  return LOCALES[language]?.dir ?? (RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr');
+}
+
+/**
+ * The locale in use right now
+ */
+export function getActiveLocale(): string {
+  return resolveLocale(useSettingsStore.getState().locale);
+}
+
+/**
+ * Look a string up along the locale's chain, fill in the profile's
+ * {{tokens}}, then {vars}
+ */
+export function translate(key: StringKey, locale: string, vars?: StringVars): string {
+  const text = localeChain(locale)
+    .map(l => CATALOGS[l]?.[key])
+    .find(value => value !== undefined) ?? key;
+  const personal = expandTokens(text, getProfileTokens(locale));
+
+  if (!vars) return personal;
+  return personal.replace(/\{(\w+)\}/g, (match, name: string) => (name in vars ? String(vars[name]) : match));
+}
+
+/**
+ * translate() in the active locale, for code outside React
+ */
+export function t(key: StringKey, vars?: StringVars): string {
+  return translate(key, getActiveLocale(), vars);
+}
+
+/**
+ * React hook: the active locale, its direction, t() bound to it, and the
+ * profile's tokens in it (tokens.recipient, tokens.author, ...).
+ * Components re-render when the locale setting changes.
+ */
+export function useLocale() {
+  const setting = useSettingsStore(state => state.locale);
+  const locale = resolveLocale(setting);
+
+  const translateKey = useCallback(
+    (key: StringKey, vars?: StringVars) => translate(key, locale, vars),
+    [locale]
+  );
+
+  return { locale, dir: getTextDirection(locale), t: translateKey, tokens: getProfileTokens(locale) };
+}
+
+/**
+ * Keep <html lang> in step with the locale (screen readers, hyphenation,
+ * font fallback). Returns an unbind function.
+ */
+export function bindLocale(): () => void {
+  const apply = () => {
+    document.documentElement.lang = getActiveLocale();
+  };
+
+  apply();
+
+  const unsubscribe = useSettingsStore.subscribe((state, prev) => {
+    if (state.locale !== prev.locale) apply();
+  });
+  window.addEventListener('languagechange', apply);
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener('languagechange', apply);
+  };
+}
+
+export default {
+  LOCALES,
+  localeChain,
+  resolveLocale,
+  getTextDirection,
+  translate,
+  t,
+};
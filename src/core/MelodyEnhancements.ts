@@ -11,6 +11,7 @@
 import { Howl } from 'howler';
 import { gsap } from 'gsap';
 import * as THREE from 'three';
+import { random } from './Random';
 
 /**
  * Song metadata with BPM and emotion markers
@@ -486,6 +487,7 @@ export class EmotionalPeakVFX {
     const geometry = new THREE.BufferGeometry();
     const positions = new Float32Array(particleCount * 3);
     const velocities: THREE.Vector3[] = [];
+    const rng = random('melody:bursts');
 
     for (let i = 0; i < particleCount; i++) {
       positions[i * 3] = position.x;
@@ -493,7 +495,7 @@ export class EmotionalPeakVFX {
       positions[i * 3 + 2] = position.z;
 
       const angle = (i / particleCount) * Math.PI * 2;
-      const phi = Math.acos(2 * Math.random() - 1);
+      const phi = Math.acos(2 * rng.next() - 1);
       const speed = 2 * peak.intensity;
 
       velocities.push(
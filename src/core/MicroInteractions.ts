@@ -10,6 +10,8 @@
 
 import * as THREE from 'three';
 import { gsap } from 'gsap';
+import journeyEvents from './JourneyEvents';
+import { random } from './Random';
 
 /**
  * Micro-interaction types
@@ -84,6 +86,7 @@ export interface DragDepthConfig {
 export class MicroInteractionManager {
   private activeInteractions: Map<string, any> = new Map();
   private scene: THREE.Scene | null = null;
+  private nextId = 0; // Interaction ids (unique, unlike a random draw)
 
   /**
    * Set the Three.js scene
@@ -99,6 +102,8 @@ export class MicroInteractionManager {
     target: HTMLElement | THREE.Object3D,
     config: Partial<HoverGlowConfig> = {}
   ): () => void {
+    journeyEvents.emit('micro:interaction', { effect: 'hover-glow' });
+
     const mergedConfig: HoverGlowConfig = {
       color: '#FFD4DC',
       intensity: 0.6,
@@ -108,7 +113,7 @@ export class MicroInteractionManager {
       ...config,
     };
 
-    const id = `hover-${Math.random()}`;
+    const id = `hover-${this.nextId++}`;
 
     // DOM element
     if (target instanceof HTMLElement) {
@@ -181,6 +186,8 @@ export class MicroInteractionManager {
     position: THREE.Vector3,
     config: Partial<TapSparkConfig> = {}
   ): void {
+    journeyEvents.emit('micro:interaction', { effect: 'tap-spark' });
+
     const mergedConfig: TapSparkConfig = {
       color: '#FFD700',
       particleCount: 12,
@@ -196,6 +203,7 @@ export class MicroInteractionManager {
     const geometry = new THREE.BufferGeometry();
     const positions = new Float32Array(mergedConfig.particleCount * 3);
     const velocities: THREE.Vector3[] = [];
+    const rng = random('micro-interactions');
 
     for (let i = 0; i < mergedConfig.particleCount; i++) {
       // Start at tap position
@@ -205,12 +213,12 @@ export class MicroInteractionManager {
 
       // Random velocity
       const angle = (i / mergedConfig.particleCount) * mergedConfig.spread;
-      const speed = mergedConfig.speed * (0.8 + Math.random() * 0.4);
+      const speed = mergedConfig.speed * rng.range(0.8, 1.2);
       velocities.push(
         new THREE.Vector3(
           Math.cos(angle) * speed,
           Math.sin(angle) * speed,
-          (Math.random() - 0.5) * speed * 0.3
+          rng.spread(speed * 0.3)
         )
       );
     }
@@ -270,6 +278,8 @@ export class MicroInteractionManager {
     position: THREE.Vector3,
     config: Partial<PetalBurstConfig> = {}
   ): void {
+    journeyEvents.emit('micro:interaction', { effect: 'tap-petal' });
+
     const mergedConfig: PetalBurstConfig = {
       color: '#FFB6D9',
       petalCount: 5,
@@ -297,13 +307,14 @@ export class MicroInteractionManager {
 
     const petals: THREE.Mesh[] = [];
     const velocities: THREE.Vector3[] = [];
+    const rng = random('micro-interactions');
 
     for (let i = 0; i < mergedConfig.petalCount; i++) {
       const petal = new THREE.Mesh(petalGeometry, petalMaterial.clone());
       petal.position.copy(position);
 
       const angle = (i / mergedConfig.petalCount) * Math.PI * 2;
-      const speed = mergedConfig.speed * (0.8 + Math.random() * 0.4);
+      const speed = mergedConfig.speed * rng.range(0.8, 1.2);
       velocities.push(
         new THREE.Vector3(
           Math.cos(angle) * speed,
@@ -357,6 +368,8 @@ export class MicroInteractionManager {
     target: HTMLElement | THREE.Vector3,
     config: Partial<LongPressHaloConfig> = {}
   ): () => void {
+    journeyEvents.emit('micro:interaction', { effect: 'longpress-halo' });
+
     const mergedConfig: LongPressHaloConfig = {
       color: '#FFE5B4',
       maxRadius: 100,
@@ -366,7 +379,7 @@ export class MicroInteractionManager {
       ...config,
     };
 
-    const id = `halo-${Math.random()}`;
+    const id = `halo-${this.nextId++}`;
 
     // DOM element
     if (target instanceof HTMLElement) {
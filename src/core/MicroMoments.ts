@@ -0,0 +1,175 @@
+/**
+ * MicroMoments.ts — MICRO-MOMENT TRIGGERS
+ *
+ * Fires the micro-moments registered with NarrativeBuffer (addMicroMoment,
+ * packs, ...) inside the scene they belong to: after some time in the
+ * scene, after a number of interactions there, or once the journey has
+ * come far enough. Each surfaces as a caption, glowing text or a particle
+ * burst (MicroMomentLayer), and fires at most once per journey: fired ids
+ * are kept with the persisted journey progress.
+ *
+ * Philosophy: The best surprises arrive when she has stopped expecting them,
+ * and never twice.
+ */
+
+import { create } from 'zustand';
+import narrativeBuffer, { type MicroMoment, type MicroMomentDisplay } from './NarrativeBuffer';
+import useSceneStore, { type SceneId } from './SceneManager';
+import useSettingsStore from './SettingsManager';
+import useJourneyProgressStore from './JourneyPersistence';
+import useCaptionStore, { createCaption } from './CaptionManager';
+import journeyEvents from './JourneyEvents';
+
+// Defaults for conditions that leave them out
+const DEFAULT_AFTER = 10; // Seconds
+const DEFAULT_COUNT = 3;
+const DEFAULT_PROGRESS = 0.5;
+
+// How long a moment stays up unless it says otherwise (ms)
+const DEFAULT_DURATION = 5000;
+
+// How often time triggers are checked (ms)
+const TICK_INTERVAL = 1000;
+
+/**
+ * The moment on screen (glow and burst; captions go through CaptionManager)
+ */
+export const useMicroMomentStore = create<{ active: (MicroMoment & { display: MicroMomentDisplay }) | null }>(() => ({
+  active: null,
+}));
+
+const momentKey = (moment: MicroMoment) => String(moment.id);
+
+/**
+ * Watches the journey and fires micro-moments when their conditions hold
+ */
+class MicroMomentEngine {
+  private sceneId: SceneId | null = null;
+  private enteredAt = 0;
+  private interactions: Map<string, number> = new Map();
+  private candidates: MicroMoment[] = [];
+  private showing = false;
+  private unsubscribers: (() => void)[] = [];
+  private ticker: number | undefined;
+  private hideTimer: number | undefined;
+
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.unsubscribers = [
+      journeyEvents.on('scene:enter', ({ payload }) => this.enterScene(payload.sceneId)),
+      journeyEvents.on('interaction', ({ payload }) => {
+        this.interactions.set(payload.kind, (this.interactions.get(payload.kind) || 0) + 1);
+        this.evaluate();
+      }),
+    ];
+    this.ticker = window.setInterval(() => this.evaluate(), TICK_INTERVAL);
+
+    // The first scene was entered before we were listening
+    this.enterScene(useSceneStore.getState().currentScene);
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    window.clearInterval(this.ticker);
+    window.clearTimeout(this.hideTimer);
+    this.candidates = [];
+    this.showing = false;
+    useMicroMomentStore.setState({ active: null });
+  }
+
+  /**
+   * Start counting for a scene and gather its unfired moments
+   */
+  private async enterScene(sceneId: SceneId): Promise<void> {
+    this.sceneId = sceneId;
+    this.enteredAt = Date.now();
+    this.interactions.clear();
+    this.candidates = [];
+
+    const moments = await narrativeBuffer.loadContent<MicroMoment>('micro-moments');
+    if (this.sceneId !== sceneId) return; // Moved on while loading
+
+    const fired = useJourneyProgressStore.getState().firedMoments;
+    this.candidates = moments.filter(moment => moment.sceneId === sceneId && !fired.includes(momentKey(moment)));
+    this.evaluate();
+  }
+
+  /**
+   * Does a moment's condition hold right now?
+   */
+  private isDue(moment: MicroMoment): boolean {
+    const condition = moment.condition || {};
+
+    switch (moment.trigger) {
+      case 'time':
+        return (Date.now() - this.enteredAt) / 1000 >= (condition.after ?? DEFAULT_AFTER);
+
+      case 'interaction': {
+        const count = condition.kind
+          ? this.interactions.get(condition.kind) || 0
+          : Array.from(this.interactions.values()).reduce((sum, n) => sum + n, 0);
+        return count >= (condition.count ?? DEFAULT_COUNT);
+      }
+
+      case 'progress':
+        return useSceneStore.getState().progress >= (condition.progress ?? DEFAULT_PROGRESS);
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Fire the first due moment (one at a time; the rest wait their turn)
+   */
+  private evaluate(): void {
+    if (this.showing || !this.sceneId) return;
+
+    const due = this.candidates.find(moment => this.isDue(moment));
+    if (due) this.fire(due);
+  }
+
+  private fire(moment: MicroMoment): void {
+    const sceneId = this.sceneId!;
+    const duration = moment.duration ?? DEFAULT_DURATION;
+
+    this.candidates = this.candidates.filter(candidate => candidate !== moment);
+    useJourneyProgressStore.getState().markMomentFired(momentKey(moment));
+
+    // Bursts become a glow for reduced motion
+    let display = moment.display || 'caption';
+    if (display === 'burst' && useSettingsStore.getState().accessibility.reducedMotion) {
+      display = 'glow';
+    }
+
+    this.showing = true;
+    if (display === 'caption') {
+      useCaptionStore.getState().showCaption(createCaption(`moment-${momentKey(moment)}`, moment.text, duration));
+    } else {
+      useMicroMomentStore.setState({ active: { ...moment, display } });
+    }
+
+    this.hideTimer = window.setTimeout(() => {
+      this.showing = false;
+      useMicroMomentStore.setState({ active: null });
+      this.evaluate();
+    }, duration);
+
+    journeyEvents.emit('micro:moment', { momentId: momentKey(moment), sceneId, trigger: moment.trigger });
+    console.log(`[MicroMoments] Fired ${momentKey(moment)} in ${sceneId} (${moment.trigger})`);
+  }
+}
+
+const microMomentEngine = new MicroMomentEngine();
+
+/**
+ * Start firing micro-moments. Call after initializeScenes(); returns an unbind function.
+ */
+export function bindMicroMoments(): () => void {
+  microMomentEngine.start();
+  return () => microMomentEngine.stop();
+}
+
+export default microMomentEngine;
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import narrativeBuffer, { type MergeStrategy } from './NarrativeBuffer';
+import type { EmotionalContent } from './ContentTypes';
+
+const item = (id: number | string, text: string): EmotionalContent => ({ id, text, emotion: 'joy', effect: 'glow' });
+
+let typeCount = 0;
+
+// A content type of its own per test, so the singleton's cache can't leak between them
+function contentType(strategy: MergeStrategy, sources: { id: string; priority: number; items: EmotionalContent[] }[]) {
+  const type = `merge-test-${typeCount++}`;
+  sources.forEach(({ id, priority, items }) => {
+    narrativeBuffer.registerSource(type, { id, type: 'inline', data: items, priority, enabled: true });
+  });
+  narrativeBuffer.setMergeStrategy(type, strategy);
+  return type;
+}
+
+const texts = (items: EmotionalContent[]) => items.map(entry => entry.text);
+
+describe('NarrativeBuffer merge strategies', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('override-by-id keeps each id from the highest-priority source', async () => {
+    const type = contentType('override-by-id', [
+      { id: 'core', priority: 100, items: [item(1, 'core one'), item(2, 'core two')] },
+      { id: 'pack', priority: 50, items: [item(2, 'pack two'), item(3, 'pack three')] },
+    ]);
+
+    expect(texts(await narrativeBuffer.loadContent(type))).toEqual(['core one', 'core two', 'pack three']);
+    expect(narrativeBuffer.getConflicts(type)).toEqual([
+      { contentType: type, strategy: 'override-by-id', id: 2, kept: 'core', dropped: ['pack'] },
+    ]);
+  });
+
+  it('ranks by priority, not by registration order', async () => {
+    const type = contentType('override-by-id', [
+      { id: 'low', priority: 10, items: [item(1, 'low')] },
+      { id: 'high', priority: 90, items: [item(1, 'high')] },
+    ]);
+
+    expect(texts(await narrativeBuffer.loadContent(type))).toEqual(['high']);
+  });
+
+  it('breaks priority ties by registration order', async () => {
+    const type = contentType('override-by-id', [
+      { id: 'first', priority: 50, items: [item(1, 'first')] },
+      { id: 'second', priority: 50, items: [item(1, 'second')] },
+    ]);
+
+    expect(texts(await narrativeBuffer.loadContent(type))).toEqual(['first']);
+  });
+
+  it('append keeps every item, duplicates included, and still reports them', async () => {
+    const type = contentType('append', [
+      { id: 'core', priority: 100, items: [item(1, 'core one')] },
+      { id: 'pack', priority: 50, items: [item(1, 'pack one'), item(2, 'pack two')] },
+    ]);
+
+    expect(texts(await narrativeBuffer.loadContent(type))).toEqual(['core one', 'pack one', 'pack two']);
+    expect(narrativeBuffer.getConflicts(type)).toHaveLength(1);
+  });
+
+  it('replace-all keeps only the highest-priority source', async () => {
+    const type = contentType('replace-all', [
+      { id: 'core', priority: 100, items: [item(1, 'core one')] },
+      { id: 'pack', priority: 50, items: [item(2, 'pack two')] },
+    ]);
+
+    expect(texts(await narrativeBuffer.loadContent(type))).toEqual(['core one']);
+    expect(narrativeBuffer.getConflicts(type)).toEqual([
+      { contentType: type, strategy: 'replace-all', id: null, kept: 'core', dropped: ['pack'] },
+    ]);
+  });
+
+  it('reports a duplicate within one source once', async () => {
+    const type = contentType('override-by-id', [
+      { id: 'core', priority: 100, items: [item(1, 'one'), item(1, 'again')] },
+      { id: 'pack', priority: 50, items: [item(1, 'pack')] },
+    ]);
+
+    expect(texts(await narrativeBuffer.loadContent(type))).toEqual(['one']);
+    expect(narrativeBuffer.getConflicts(type)).toEqual([
+      { contentType: type, strategy: 'override-by-id', id: 1, kept: 'core', dropped: ['core', 'pack'] },
+    ]);
+  });
+
+  it('merges again when the strategy changes', async () => {
+    const type = contentType('override-by-id', [
+      { id: 'core', priority: 100, items: [item(1, 'core')] },
+      { id: 'pack', priority: 50, items: [item(1, 'pack')] },
+    ]);
+    expect(texts(await narrativeBuffer.loadContent(type))).toEqual(['core']);
+
+    narrativeBuffer.setMergeStrategy(type, 'append');
+    expect(texts(await narrativeBuffer.loadContent(type))).toEqual(['core', 'pack']);
+  });
+});
@@ -8,8 +8,24 @@
  * Every addition should feel natural, not bolted on.
  */
 
-import { EmotionalContent } from './ContentTypes';
-import contentLoader from './ContentLoader';
+import type {
+  Wish,
+  Apology,
+  Promise as PromiseVow, // Not the global Promise
+  Song,
+  Word,
+  FinaleLine,
+  ContentLoadResult,
+  EmotionalContent,
+} from './ContentTypes';
+import contentLoader, { useContent, type LoadOptions } from './ContentLoader';
+import { CONTENT_SCHEMAS, type ContentKind } from './ContentSchema';
+import { fetchAPIContent, type APISourceOptions } from './APISource';
+import { scheduleContent } from './ContentSchedule';
+import { query, type ContentQuery } from './ContentQuery';
+import { getActiveLocale, useLocale } from './Localization';
+import { getProfileTokens, personalize } from './Personalization';
+import type { SceneRegistration } from './SceneRegistry';
 
 /**
  * Content pack metadata
@@ -20,6 +36,7 @@ export interface ContentPack {
   description: string;
   version: string;
   scenes: string[]; // Scene IDs this pack adds content to
+  bonusScenes?: SceneRegistration[]; // Whole scenes this pack adds to the journey
   author?: string;
   createdAt?: string;
 }
@@ -29,11 +46,81 @@ export interface ContentPack {
  */
 export interface ContentSource<T extends EmotionalContent> {
   id: string;
-  type: 'json' | 'api' | 'inline';
-  path?: string; // For JSON/API
+  type: 'json' | 'api' | 'inline' | 'bundle';
+  path?: string; // For JSON/API; the content kind for bundle (see ContentLoader)
   data?: T[]; // For inline
+  api?: APISourceOptions; // For API: timeout, retry, schema, snapshot
   priority: number; // Higher priority loads first
   enabled: boolean;
+  pack?: string; // Id of the content pack that added it
+}
+
+/**
+ * How a content type's sources combine:
+ * - append: every item from every source, highest priority first (duplicate ids kept)
+ * - override-by-id: one item per id, from the highest-priority source that has it
+ * - replace-all: only the highest-priority source that loaded
+ */
+export type MergeStrategy = 'append' | 'override-by-id' | 'replace-all';
+
+const DEFAULT_MERGE_STRATEGY: MergeStrategy = 'override-by-id';
+
+/**
+ * Content that more than one source (or one source twice) provided
+ */
+export interface MergeConflict {
+  contentType: string;
+  strategy: MergeStrategy;
+  id: number | string | null; // null when a whole source was set aside (replace-all)
+  kept: string; // Source whose item (or content) made it in
+  dropped: string[]; // Sources whose items didn't (for append: duplicates kept anyway)
+}
+
+interface SourceResult<T extends EmotionalContent> {
+  source: ContentSource<T>;
+  items: T[];
+}
+
+/**
+ * Merge loaded sources (highest priority first) by a strategy. Equal
+ * priorities resolve by registration order, so the result is the same
+ * on every load.
+ */
+function mergeSources<T extends EmotionalContent>(
+  contentType: string,
+  results: SourceResult<T>[],
+  strategy: MergeStrategy
+): { items: T[]; conflicts: MergeConflict[] } {
+  const conflicts: MergeConflict[] = [];
+
+  if (strategy === 'replace-all') {
+    const [top, ...rest] = results;
+    if (top && rest.length > 0) {
+      conflicts.push({ contentType, strategy, id: null, kept: top.source.id, dropped: rest.map(r => r.source.id) });
+    }
+    return { items: top ? [...top.items] : [], conflicts };
+  }
+
+  const items: T[] = [];
+  const owners: Map<number | string, MergeConflict> = new Map();
+
+  results.forEach(({ source, items: sourceItems }) => {
+    sourceItems.forEach(item => {
+      const owner = owners.get(item.id);
+
+      if (!owner) {
+        owners.set(item.id, { contentType, strategy, id: item.id, kept: source.id, dropped: [] });
+        items.push(item);
+        return;
+      }
+
+      owner.dropped.push(source.id);
+      if (owner.dropped.length === 1) conflicts.push(owner);
+      if (strategy === 'append') items.push(item);
+    });
+  });
+
+  return { items, conflicts };
 }
 
 /**
@@ -43,6 +130,10 @@ class NarrativeBufferRegistry {
   private sources: Map<string, ContentSource<any>[]> = new Map();
   private packs: Map<string, ContentPack> = new Map();
   private cache: Map<string, any[]> = new Map();
+  private strategies: Map<string, MergeStrategy> = new Map();
+  private conflicts: Map<string, MergeConflict[]> = new Map();
+  private version = 0; // Bumped whenever cached content is dropped; a merge begun before caches nothing
+  private listeners: Set<() => void> = new Set();
 
   /**
    * Register a content pack
@@ -52,6 +143,44 @@ class NarrativeBufferRegistry {
     console.log(`[NarrativeBuffer] Registered pack: ${pack.name} (v${pack.version})`);
   }
 
+  /**
+   * Remove a content pack and every source it added
+   */
+  unregisterPack(packId: string): void {
+    this.sources.forEach((sources, contentType) => {
+      this.sources.set(contentType, sources.filter(source => source.pack !== packId));
+    });
+    this.packs.delete(packId);
+
+    // Its content must not outlive it
+    this.clearCache();
+    console.log(`[NarrativeBuffer] Unregistered pack: ${packId}`);
+  }
+
+  /**
+   * Choose how a content type's sources merge (default: override-by-id)
+   */
+  setMergeStrategy(contentType: string, strategy: MergeStrategy): void {
+    this.strategies.set(contentType, strategy);
+    this.cache.delete(this.cacheKey(contentType));
+    console.log(`[NarrativeBuffer] Merge strategy for ${contentType}: ${strategy}`);
+  }
+
+  /**
+   * How a content type's sources merge
+   */
+  getMergeStrategy(contentType: string): MergeStrategy {
+    return this.strategies.get(contentType) ?? DEFAULT_MERGE_STRATEGY;
+  }
+
+  /**
+   * Conflicts found the last time a content type loaded (every type without one)
+   */
+  getConflicts(contentType?: string): MergeConflict[] {
+    if (contentType) return this.conflicts.get(contentType) || [];
+    return Array.from(this.conflicts.values()).flat();
+  }
+
   /**
    * Register a content source
    */
@@ -72,12 +201,48 @@ class NarrativeBufferRegistry {
   }
 
   /**
-   * Load content from all registered sources
+   * Load content from all registered sources. Items outside their
+   * availability window are left out (ContentSchedule) unless includeLocked is set.
+   */
+  async loadContent<T extends EmotionalContent>(
+    contentType: string,
+    options: LoadOptions = {}
+  ): Promise<T[]> {
+    return (await this.load<T>(contentType, options)).data;
+  }
+
+  /**
+   * loadContent() as ContentLoader reports a load: not loaded when no source
+   * could be (for useContent and the scene hooks)
+   */
+  async load<T extends EmotionalContent>(
+    contentType: string,
+    options: LoadOptions = {}
+  ): Promise<ContentLoadResult<T>> {
+    const result = await this.loadMerged<T>(contentType);
+    if (options.includeLocked || !result.loaded) return result;
+
+    const data = scheduleContent(result.data);
+    return { ...result, data, count: data.length };
+  }
+
+  /**
+   * A query over every source's content of a type, as loadContent() returns it
+   */
+  async query<T extends EmotionalContent>(contentType: string): Promise<ContentQuery<T>> {
+    return query(await this.loadContent<T>(contentType), contentType);
+  }
+
+  /**
+   * Every source's items merged, cached per locale (the date filter runs on
+   * every read, so cached content still opens on time)
    */
-  async loadContent<T extends EmotionalContent>(contentType: string): Promise<T[]> {
-    // Check cache
-    if (this.cache.has(contentType)) {
-      return this.cache.get(contentType)! as T[];
+  private async loadMerged<T extends EmotionalContent>(contentType: string): Promise<ContentLoadResult<T>> {
+    // Check cache (bundled content is per locale)
+    const cacheKey = this.cacheKey(contentType);
+    if (this.cache.has(cacheKey)) {
+      const cached = this.cache.get(cacheKey)! as T[];
+      return { data: cached, count: cached.length, loaded: true };
     }
 
     const sources = this.sources.get(contentType) || [];
@@ -85,19 +250,22 @@ class NarrativeBufferRegistry {
 
     if (enabledSources.length === 0) {
       console.warn(`[NarrativeBuffer] No enabled sources for ${contentType}`);
-      return [];
+      return { data: [], count: 0, loaded: false, error: `No enabled sources for ${contentType}` };
     }
 
+    const version = this.version;
+
     // Load from all sources in parallel
     const results = await Promise.allSettled(
       enabledSources.map(source => this.loadFromSource<T>(source))
     );
 
-    // Merge results
-    const merged: T[] = [];
+    // Inline and API content get their {{tokens}} filled too
+    const tokens = getProfileTokens(getActiveLocale());
+    const loaded: SourceResult<T>[] = [];
     results.forEach((result, index) => {
       if (result.status === 'fulfilled') {
-        merged.push(...result.value);
+        loaded.push({ source: enabledSources[index], items: personalize(result.value, tokens) });
       } else {
         console.error(
           `[NarrativeBuffer] Failed to load from ${enabledSources[index].id}:`,
@@ -106,12 +274,36 @@ class NarrativeBufferRegistry {
       }
     });
 
-    // Cache merged result
-    this.cache.set(contentType, merged);
+    // Nothing to merge; the next load tries again
+    if (loaded.length === 0) {
+      return { data: [], count: 0, loaded: false, error: `Every source for ${contentType} failed` };
+    }
+
+    // Merge results (sources are already in priority order)
+    const strategy = this.getMergeStrategy(contentType);
+    const { items: merged, conflicts } = mergeSources(contentType, loaded, strategy);
+    this.conflicts.set(contentType, conflicts);
+    this.reportConflicts(contentType, conflicts);
+
+    // Cache merged result, unless sources or content changed while it loaded
+    if (this.version === version) {
+      this.cache.set(cacheKey, merged);
+    }
 
     console.log(`[NarrativeBuffer] Loaded ${merged.length} items for ${contentType}`);
 
-    return merged;
+    return { data: merged, count: merged.length, loaded: true };
+  }
+
+  /**
+   * Print a conflict report in dev
+   */
+  private reportConflicts(contentType: string, conflicts: MergeConflict[]): void {
+    if (conflicts.length === 0 || !import.meta.env.DEV) return;
+
+    console.groupCollapsed(`[NarrativeBuffer] ${conflicts.length} merge conflict(s) in ${contentType} (${this.getMergeStrategy(contentType)})`);
+    console.table(conflicts.map(conflict => ({ ...conflict, dropped: conflict.dropped.join(', ') })));
+    console.groupEnd();
   }
 
   /**
@@ -124,6 +316,13 @@ class NarrativeBufferRegistry {
       case 'inline':
         return source.data || [];
 
+      case 'bundle': {
+        if (!source.path) throw new Error('Bundle source requires a content kind');
+        const result = await contentLoader.load<T>(source.path as ContentKind, { includeLocked: true });
+        if (!result.loaded) throw new Error(result.error || `Could not load ${source.path}`);
+        return result.data;
+      }
+
       case 'json':
         if (!source.path) throw new Error('JSON source requires path');
         const response = await fetch(source.path);
@@ -132,10 +331,7 @@ class NarrativeBufferRegistry {
 
       case 'api':
         if (!source.path) throw new Error('API source requires path');
-        const apiResponse = await fetch(source.path);
-        if (!apiResponse.ok) throw new Error(`HTTP ${apiResponse.status}`);
-        const data = await apiResponse.json();
-        return data.items || data.content || data;
+        return fetchAPIContent<T>(source.id, source.path, source.api);
 
       default:
         throw new Error(`Unknown source type: ${source.type}`);
@@ -172,65 +368,99 @@ class NarrativeBufferRegistry {
     return this.sources.get(contentType) || [];
   }
 
+  /**
+   * Cache key for a content type in the active locale
+   */
+  private cacheKey(contentType: string): string {
+    return `${contentType}@${getActiveLocale()}`;
+  }
+
   /**
    * Clear cache
    */
   clearCache(): void {
     this.cache.clear();
+    this.changed();
     console.log('[NarrativeBuffer] Cache cleared');
   }
 
   /**
-   * Hot reload a specific content type
+   * Hot reload a specific content type (every locale); hooks showing it refetch
    */
   async reloadContent<T extends EmotionalContent>(contentType: string): Promise<T[]> {
-    this.cache.delete(contentType);
+    Array.from(this.cache.keys())
+      .filter(key => key.startsWith(`${contentType}@`))
+      .forEach(key => this.cache.delete(key));
+    this.changed();
     return this.loadContent<T>(contentType);
   }
+
+  /**
+   * Listen for dropped content (for useSyncExternalStore); returns an unsubscribe
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getVersion = (): number => this.version;
+
+  private changed(): void {
+    this.version++;
+    this.listeners.forEach(listener => listener());
+  }
 }
 
 // Singleton instance
 const narrativeBuffer = new NarrativeBufferRegistry();
 
 /**
- * Register default sources (from existing JSON files)
+ * Register default sources (the bundled src/data/ files, via ContentLoader)
  */
 narrativeBuffer.registerSource('wishes', {
   id: 'core-wishes',
-  type: 'json',
-  path: '/src/data/wishes.json',
+  type: 'bundle',
+  path: 'wishes',
   priority: 100,
   enabled: true,
 });
 
 narrativeBuffer.registerSource('apologies', {
   id: 'core-apologies',
-  type: 'json',
-  path: '/src/data/apologies.json',
+  type: 'bundle',
+  path: 'apologies',
   priority: 100,
   enabled: true,
 });
 
 narrativeBuffer.registerSource('promises', {
   id: 'core-promises',
-  type: 'json',
-  path: '/src/data/promises.json',
+  type: 'bundle',
+  path: 'promises',
   priority: 100,
   enabled: true,
 });
 
 narrativeBuffer.registerSource('songs', {
   id: 'core-songs',
-  type: 'json',
-  path: '/src/data/songs.json',
+  type: 'bundle',
+  path: 'songs',
   priority: 100,
   enabled: true,
 });
 
 narrativeBuffer.registerSource('words', {
   id: 'core-words',
-  type: 'json',
-  path: '/src/data/words.json',
+  type: 'bundle',
+  path: 'words',
+  priority: 100,
+  enabled: true,
+});
+
+narrativeBuffer.registerSource('finale', {
+  id: 'core-finale',
+  type: 'bundle',
+  path: 'finale',
   priority: 100,
   enabled: true,
 });
@@ -253,17 +483,23 @@ export function addInlineContent<T extends EmotionalContent>(
 }
 
 /**
- * Helper: Add API-based content source
+ * Helper: Add API-based content source. Content types with a schema are
+ * validated against it unless options.schema says otherwise. The offline
+ * snapshot is kept per source id.
  */
 export function addAPISource(
   contentType: string,
   apiUrl: string,
-  sourceId?: string
+  sourceId?: string,
+  options: APISourceOptions = {}
 ): void {
+  const schema = contentType in CONTENT_SCHEMAS ? (contentType as ContentKind) : undefined;
+
   narrativeBuffer.registerSource(contentType, {
-    id: sourceId || `api-${Date.now()}`,
+    id: sourceId || `api-${contentType}:${apiUrl}`,
     type: 'api',
     path: apiUrl,
+    api: { schema, ...options },
     priority: 60,
     enabled: true,
   });
@@ -279,22 +515,58 @@ export async function loadBufferedContent<T extends EmotionalContent>(
 }
 
 /**
- * Example: Install a bonus content pack
+ * Hooks for each core content type, merged across every source (installed
+ * packs included); includeLocked for scenes that show sealed items
+ */
+export function useWishes(options?: LoadOptions) {
+  return useContent(() => narrativeBuffer.load<Wish>('wishes', options), narrativeBuffer);
+}
+
+export function useApologies(options?: LoadOptions) {
+  return useContent(() => narrativeBuffer.load<Apology>('apologies', options), narrativeBuffer);
+}
+
+export function usePromises(options?: LoadOptions) {
+  return useContent(() => narrativeBuffer.load<PromiseVow>('promises', options), narrativeBuffer);
+}
+
+export function useSongs(options?: LoadOptions) {
+  return useContent(() => narrativeBuffer.load<Song>('songs', options), narrativeBuffer);
+}
+
+export function useWords(options?: LoadOptions) {
+  return useContent(() => narrativeBuffer.load<Word>('words', options), narrativeBuffer);
+}
+
+export function useFinale(options?: LoadOptions) {
+  return useContent(() => narrativeBuffer.load<FinaleLine>('finale', options), narrativeBuffer);
+}
+
+/**
+ * How a micro-moment shows itself
  */
-export async function installContentPack(pack: ContentPack): Promise<void> {
-  narrativeBuffer.registerPack(pack);
+export type MicroMomentDisplay = 'caption' | 'glow' | 'burst';
 
-  // Future: Download and register pack's content sources
-  console.log(`[NarrativeBuffer] Installed pack: ${pack.name}`);
+/**
+ * When a micro-moment fires (read according to its trigger)
+ */
+export interface MicroMomentCondition {
+  after?: number; // time: seconds in the scene (default 10)
+  count?: number; // interaction: interactions in the scene (default 3)
+  kind?: string; // interaction: count only this kind ('tap', ...)
+  progress?: number; // progress: journey (crescendo) progress 0–1 (default 0.5)
 }
 
 /**
- * Example: Create a custom micro-moment
+ * A small surprise inside a scene; core/MicroMoments.ts fires each at most
+ * once per journey
  */
 export interface MicroMoment extends EmotionalContent {
   sceneId: string;
   trigger: 'time' | 'interaction' | 'progress';
-  condition?: any;
+  condition?: MicroMomentCondition;
+  display?: MicroMomentDisplay; // Default caption
+  duration?: number; // How long it stays up (ms)
 }
 
 export function addMicroMoment(moment: MicroMoment): void {
@@ -310,12 +582,15 @@ export default narrativeBuffer;
 /**
  * React hook for buffered content loading
  */
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useSyncExternalStore } from 'react';
 
 export function useBufferedContent<T extends EmotionalContent>(contentType: string) {
+  const { locale } = useLocale();
   const [data, setData] = useState<T[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const version = useSyncExternalStore(narrativeBuffer.subscribe, narrativeBuffer.getVersion);
+  const loadedVersion = useRef(version);
 
   useEffect(() => {
     let cancelled = false;
@@ -345,7 +620,23 @@ export function useBufferedContent<T extends EmotionalContent>(contentType: stri
     return () => {
       cancelled = true;
     };
-  }, [contentType]);
+  }, [contentType, locale]);
+
+  // Content edited while the app runs: swap it in without a loading state
+  useEffect(() => {
+    if (version === loadedVersion.current) return;
+    loadedVersion.current = version;
+
+    let cancelled = false;
+    narrativeBuffer.loadContent<T>(contentType).then(
+      content => !cancelled && setData(content),
+      err => !cancelled && setError(err instanceof Error ? err.message : 'Unknown error')
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contentType, version]);
 
   const reload = async () => {
     setIsLoading(true);
@@ -8,7 +8,7 @@
  * gently, purposefully, never rushed.
  */
 
-import { EmotionalContent } from './ContentTypes';
+import type { EmotionalContent } from './ContentTypes';
 
 /**
  * Pacing configuration based on timing metadata
@@ -102,6 +102,30 @@ export function parsePacingMode(timing: string | number | undefined): PacingMode
   return 'float'; // Default
 }
 
+/**
+ * How long a NarrativeStager takes to play `count` items out:
+ * reveals accumulate their stagger, then the last one enters, dwells and exits
+ */
+export function estimateStagedDuration(count: number, pacing: PacingConfig): number {
+  if (count === 0) return 0;
+
+  const lastReveal = pacing.baseDelay * pacing.staggerMultiplier * ((count - 1) * count) / 2;
+  return lastReveal + pacing.transitionIn + pacing.dwellTime + pacing.transitionOut;
+}
+
+/**
+ * Stretch (scale > 1) or compress (scale < 1) a pacing preset in time
+ */
+export function scalePacing(pacing: PacingConfig, scale: number): PacingConfig {
+  return {
+    ...pacing,
+    baseDelay: pacing.baseDelay * scale,
+    dwellTime: pacing.dwellTime * scale,
+    transitionIn: pacing.transitionIn * scale,
+    transitionOut: pacing.transitionOut * scale,
+  };
+}
+
 /**
  * Stage lifecycle phases
  */
@@ -449,5 +473,7 @@ export default {
   createStager,
   createWaveStager,
   parsePacingMode,
+  estimateStagedDuration,
+  scalePacing,
   PACING_PRESETS,
 };
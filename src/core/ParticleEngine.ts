@@ -15,6 +15,8 @@
  */
 
 import * as THREE from 'three';
+import { random, type RandomSource } from './Random';
+import audioManager, { MASTER_AUDIO } from './AudioManager';
 
 export interface ParticleConfig {
   count: number;
@@ -29,6 +31,7 @@ export interface ParticleConfig {
 
 export interface ParticleSystemOptions extends Partial<ParticleConfig> {
   type?: 'stars' | 'dust' | 'petals' | 'sparks';
+  stream?: string; // Seeded random stream (default particles:<type>)
 }
 
 /**
@@ -86,6 +89,8 @@ export class ParticleSystem {
   private velocities: Float32Array;
   private config: ParticleConfig;
   private startTime: number;
+  private random: RandomSource;
+  private stopAudioPulse: (() => void) | null = null;
 
   constructor(options: ParticleSystemOptions = {}) {
     // Default configuration with smarter defaults
@@ -101,6 +106,7 @@ export class ParticleSystem {
     };
 
     this.startTime = Date.now();
+    this.random = random(options.stream ?? `particles:${options.type || 'stars'}`);
 
     // Geometry setup
     this.geometry = new THREE.BufferGeometry();
@@ -149,16 +155,16 @@ export class ParticleSystem {
 
     for (let i = 0; i < this.config.count; i++) {
       // Assign random color from palette
-      const color = colorArray[Math.floor(Math.random() * colorArray.length)];
+      const color = this.random.pick(colorArray)!;
       colors[i * 3] = color.r;
       colors[i * 3 + 1] = color.g;
       colors[i * 3 + 2] = color.b;
 
       // Size variation
-      sizes[i] = this.config.size * (0.5 + Math.random() * 1.5);
+      sizes[i] = this.config.size * (0.5 + this.random.next() * 1.5);
 
       // Alpha variation
-      alphas[i] = this.config.opacity * (0.6 + Math.random() * 0.4);
+      alphas[i] = this.config.opacity * (0.6 + this.random.next() * 0.4);
     }
 
     this.geometry.setAttribute('customColor', new THREE.BufferAttribute(colors, 3));
@@ -188,9 +194,9 @@ export class ParticleSystem {
       switch (type) {
         case 'stars':
           // Spherical distribution (like a celestial dome)
-          const radius = this.config.spread * (0.5 + Math.random() * 0.5);
-          const theta = Math.random() * Math.PI * 2;
-          const phi = Math.acos(2 * Math.random() - 1);
+          const radius = this.config.spread * (0.5 + this.random.next() * 0.5);
+          const theta = this.random.next() * Math.PI * 2;
+          const phi = Math.acos(2 * this.random.next() - 1);
 
           this.positions[i3] = radius * Math.sin(phi) * Math.cos(theta);
           this.positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta);
@@ -199,32 +205,32 @@ export class ParticleSystem {
 
         case 'dust':
           // Random cloud distribution
-          this.positions[i3] = (Math.random() - 0.5) * this.config.spread;
-          this.positions[i3 + 1] = (Math.random() - 0.5) * this.config.spread;
-          this.positions[i3 + 2] = (Math.random() - 0.5) * this.config.spread;
+          this.positions[i3] = this.random.spread(this.config.spread);
+          this.positions[i3 + 1] = this.random.spread(this.config.spread);
+          this.positions[i3 + 2] = this.random.spread(this.config.spread);
           break;
 
         case 'petals':
           // Falling from above
-          this.positions[i3] = (Math.random() - 0.5) * this.config.spread;
-          this.positions[i3 + 1] = Math.random() * this.config.spread;
-          this.positions[i3 + 2] = (Math.random() - 0.5) * this.config.spread * 0.5;
+          this.positions[i3] = this.random.spread(this.config.spread);
+          this.positions[i3 + 1] = this.random.next() * this.config.spread;
+          this.positions[i3 + 2] = this.random.spread(this.config.spread * 0.5);
           break;
 
         case 'sparks':
           // Exploding from center
-          const angle = Math.random() * Math.PI * 2;
-          const distance = Math.random() * this.config.spread * 0.3;
+          const angle = this.random.next() * Math.PI * 2;
+          const distance = this.random.next() * this.config.spread * 0.3;
           this.positions[i3] = Math.cos(angle) * distance;
-          this.positions[i3 + 1] = (Math.random() - 0.5) * distance;
+          this.positions[i3 + 1] = this.random.spread(distance);
           this.positions[i3 + 2] = Math.sin(angle) * distance;
           break;
       }
 
       // Initialize velocities
-      this.velocities[i3] = (Math.random() - 0.5) * this.config.speed;
-      this.velocities[i3 + 1] = (Math.random() - 0.5) * this.config.speed;
-      this.velocities[i3 + 2] = (Math.random() - 0.5) * this.config.speed;
+      this.velocities[i3] = this.random.spread(this.config.speed);
+      this.velocities[i3 + 1] = this.random.spread(this.config.speed);
+      this.velocities[i3 + 2] = this.random.spread(this.config.speed);
     }
   }
 
@@ -292,8 +298,8 @@ export class ParticleSystem {
       };
       animate();
     } else {
-      // PointsMaterial: animate size property
-      const originalSize = material.size;
+      // PointsMaterial: animate size property (from the configured size, so pulses can overlap)
+      const originalSize = this.config.size;
       material.size = originalSize * intensity;
 
       const startTime = Date.now();
@@ -312,6 +318,24 @@ export class ParticleSystem {
     }
   }
 
+  /**
+   * Pulse on the beats of the music really playing: each onset in a track's
+   * (or the mix's) analysis pulses, harder the louder it lands
+   */
+  pulseWithAudio(target: string = MASTER_AUDIO, intensity: number = 1.5, duration: number = 0.3): void {
+    this.stopAudioPulse?.();
+    this.stopAudioPulse = audioManager.subscribeAnalysis(frame => {
+      if (frame.onset) {
+        this.pulse(1 + (intensity - 1) * Math.min(1, frame.rms * 4), duration);
+      }
+    }, target);
+  }
+
+  stopPulsingWithAudio(): void {
+    this.stopAudioPulse?.();
+    this.stopAudioPulse = null;
+  }
+
   /**
    * Change color gradually
    * Only works with PointsMaterial (ShaderMaterial uses vertex colors)
@@ -344,6 +368,7 @@ export class ParticleSystem {
    * Cleanup
    */
   dispose(): void {
+    this.stopPulsingWithAudio();
     this.geometry.dispose();
     this.material.dispose();
   }
@@ -0,0 +1,171 @@
+/**
+ * Personalization.ts — WHO THIS IS FOR
+ *
+ * The personalization profile (src/data/profile.json): who the Loveverse is
+ * for, who made it, their pronouns, nicknames and the dates that matter.
+ * Content and UI strings say {{recipient}}, {{author}}, {{they}} or
+ * {{date.anniversary}} instead of names, and are expanded here before
+ * anything reaches the screen. A token the profile can't fill is left out
+ * (and warned about), never shown raw.
+ *
+ * No DOM in here: vite.config.ts checks tokens at build time.
+ *
+ * Philosophy: The universe is rebuilt for every person it's given to;
+ * only the names change, never the feeling.
+ */
+
+import profileData from '../data/profile.json';
+
+export interface Pronouns {
+  subject: string; // {{they}}
+  object: string; // {{them}}
+  possessive: string; // {{their}}
+}
+
+/**
+ * Names as written in another locale's script
+ */
+export interface LocalizedNames {
+  recipient?: string;
+  author?: string;
+  nicknames?: string[];
+}
+
+export interface PersonalizationProfile {
+  recipient: string;
+  author: string;
+  pronouns: Pronouns;
+  nicknames: string[]; // {{nickname}} is the first; the recipient's name without any
+  dates: Record<string, string>; // Name → YYYY-MM-DD, as {{date.<name>}}
+  localized?: Record<string, LocalizedNames>; // Locale → names in its script
+}
+
+/**
+ * Token name → the text it expands to
+ */
+export type TokenValues = Record<string, string>;
+
+/**
+ * The bundled profile
+ */
+export const profile: PersonalizationProfile = profileData;
+
+// {{recipient}}, {{ date.birthday }}, {{They}}
+const TOKEN = /\{\{\s*([A-Za-z][\w.]*)\s*\}\}/g;
+
+const tokenCache: Map<string, TokenValues> = new Map();
+const warned: Set<string> = new Set();
+
+/**
+ * A date in the locale's long form (falls back to the date as written)
+ */
+function formatDate(date: string, locale: string): string {
+  try {
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeZone: 'UTC' })
+      .format(new Date(`${date}T00:00:00Z`));
+  } catch {
+    return date;
+  }
+}
+
+/**
+ * Every token a profile fills, in a locale (names in its script, dates in its format)
+ */
+export function profileTokens(source: PersonalizationProfile, locale: string = 'en'): TokenValues {
+  const names = source.localized?.[locale] ?? source.localized?.[locale.split('-')[0]] ?? {};
+  const recipient = names.recipient ?? source.recipient;
+  const nicknames = names.nicknames ?? source.nicknames;
+
+  const values: TokenValues = {
+    recipient,
+    author: names.author ?? source.author,
+    nickname: nicknames[0] ?? recipient,
+    they: source.pronouns.subject,
+    them: source.pronouns.object,
+    their: source.pronouns.possessive,
+  };
+
+  Object.entries(source.dates).forEach(([name, date]) => {
+    values[`date.${name}`] = formatDate(date, locale);
+  });
+
+  return values;
+}
+
+/**
+ * The bundled profile's tokens in a locale (cached)
+ */
+export function getProfileTokens(locale: string = 'en'): TokenValues {
+  if (!tokenCache.has(locale)) {
+    tokenCache.set(locale, profileTokens(profile, locale));
+  }
+  return tokenCache.get(locale)!;
+}
+
+/**
+ * A token's value; {{They}} is {{they}} capitalized
+ */
+function lookup(name: string, values: TokenValues): string | undefined {
+  if (name in values) return values[name];
+
+  const lower = name.charAt(0).toLowerCase() + name.slice(1);
+  if (lower !== name && lower in values) {
+    return values[lower].charAt(0).toUpperCase() + values[lower].slice(1);
+  }
+
+  return undefined;
+}
+
+/**
+ * Tokens in a text that the values can't fill, as written
+ */
+export function findUnknownTokens(text: string, values: TokenValues): string[] {
+  return Array.from(text.matchAll(TOKEN))
+    .filter(([, name]) => lookup(name, values) === undefined)
+    .map(([token]) => token);
+}
+
+/**
+ * Fill in a text's tokens. Unknown tokens are dropped so they never show.
+ */
+export function expandTokens(text: string, values: TokenValues): string {
+  if (!text.includes('{{')) return text;
+
+  return text.replace(TOKEN, (token, name: string) => {
+    const value = lookup(name, values);
+    if (value !== undefined) return value;
+
+    if (!warned.has(token)) {
+      warned.add(token);
+      console.warn(`[Personalization] No value for ${token}; left it out`);
+    }
+    return '';
+  });
+}
+
+/**
+ * Fill in the tokens of every string in a value (content items, lyrics, ...)
+ */
+export function personalize<T>(value: T, values: TokenValues): T {
+  if (typeof value === 'string') {
+    return expandTokens(value, values) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => personalize(entry, values)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, personalize(entry, values)])
+    ) as T;
+  }
+  return value;
+}
+
+export default {
+  profile,
+  profileTokens,
+  getProfileTokens,
+  findUnknownTokens,
+  expandTokens,
+  personalize,
+};
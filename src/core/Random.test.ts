@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRandom, freshRandom, getSeed, hashSeed, random, reseed } from './Random';
+
+const draws = (source: { next: () => number }, count: number) => Array.from({ length: count }, () => source.next());
+
+describe('hashSeed', () => {
+  it('is FNV-1a', () => {
+    expect(hashSeed('')).toBe(0x811c9dc5);
+    expect(hashSeed('a')).toBe(0xe40c292c);
+  });
+
+  it('tells close strings apart', () => {
+    expect(hashSeed('galaxy:stars')).not.toBe(hashSeed('galaxy:star'));
+  });
+});
+
+describe('createRandom', () => {
+  it('gives the same sequence for the same seed', () => {
+    expect(draws(createRandom('rose'), 20)).toEqual(draws(createRandom('rose'), 20));
+    expect(draws(createRandom(7), 20)).toEqual(draws(createRandom(7), 20));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(draws(createRandom('rose'), 5)).not.toEqual(draws(createRandom('lily'), 5));
+  });
+
+  it('takes a string seed as its hash', () => {
+    expect(draws(createRandom('rose'), 5)).toEqual(draws(createRandom(hashSeed('rose')), 5));
+  });
+
+  it('stays within its ranges', () => {
+    const rng = createRandom('bounds');
+    for (let i = 0; i < 1000; i++) {
+      const next = rng.next();
+      expect(next).toBeGreaterThanOrEqual(0);
+      expect(next).toBeLessThan(1);
+
+      const ranged = rng.range(-3, 5);
+      expect(ranged).toBeGreaterThanOrEqual(-3);
+      expect(ranged).toBeLessThan(5);
+
+      const spread = rng.spread(4);
+      expect(spread).toBeGreaterThanOrEqual(-2);
+      expect(spread).toBeLessThan(2);
+
+      const int = rng.int(6);
+      expect(Number.isInteger(int)).toBe(true);
+      expect(int).toBeGreaterThanOrEqual(0);
+      expect(int).toBeLessThan(6);
+    }
+  });
+
+  it('spreads its draws evenly', () => {
+    const rng = createRandom('even');
+    const buckets = new Array(10).fill(0);
+    for (let i = 0; i < 10000; i++) buckets[Math.floor(rng.next() * 10)]++;
+    buckets.forEach(count => expect(Math.abs(count - 1000)).toBeLessThan(150));
+  });
+
+  it('shuffles a copy, keeping every item', () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = createRandom('deck').shuffle(items);
+
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+    expect(shuffled).toEqual(createRandom('deck').shuffle(items));
+  });
+
+  it('picks nothing from nothing', () => {
+    expect(createRandom('empty').pick([])).toBeUndefined();
+  });
+});
+
+describe('seeded streams', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    reseed('replay');
+  });
+
+  it('replays the same draws after reseeding with the same seed', () => {
+    const first = draws(random('galaxy'), 5);
+    reseed('replay');
+    expect(draws(random('galaxy'), 5)).toEqual(first);
+  });
+
+  it('keeps streams independent of each other', () => {
+    const galaxy = draws(random('galaxy'), 5);
+    reseed('replay');
+    draws(random('garden'), 50);
+    expect(draws(random('galaxy'), 5)).toEqual(galaxy);
+  });
+
+  it('carries a named stream on, while a fresh one starts over', () => {
+    expect(random('galaxy').next()).not.toBe(random('galaxy').next());
+    expect(freshRandom('garden').next()).toBe(freshRandom('garden').next());
+  });
+
+  it('changes every stream with the seed', () => {
+    const replay = draws(freshRandom('galaxy'), 5);
+    reseed('another');
+    expect(getSeed()).toBe('another');
+    expect(draws(freshRandom('galaxy'), 5)).not.toEqual(replay);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Random.ts — SEEDED RANDOMNESS
+ *
+ * One seed for the whole universe. Content picks, particle fields, star
+ * layers and petals draw from named streams derived from it, so the same
+ * seed replays the same journey: for reviewing a build, or for visual tests
+ * that compare frames. The seed comes from ?seed=, then the Replay Seed
+ * setting, and otherwise is fresh each visit (and logged, so any visit can
+ * be replayed).
+ *
+ * Streams are independent: a scene drawing more numbers never shifts what
+ * another scene sees.
+ *
+ * Philosophy: Chance made it beautiful once.
+ * A seed lets it be beautiful the same way again.
+ */
+
+import useSettingsStore from './SettingsManager';
+
+/**
+ * A reproducible source of random numbers
+ */
+export interface RandomSource {
+  next: () => number; // [0, 1), like Math.random()
+  range: (min: number, max: number) => number; // [min, max)
+  int: (max: number) => number; // Integer in [0, max)
+  spread: (width: number) => number; // Centered on 0: [-width/2, width/2)
+  chance: (probability: number) => boolean;
+  pick: <T>(items: readonly T[]) => T | undefined;
+  shuffle: <T>(items: readonly T[]) => T[]; // A shuffled copy (unbiased)
+}
+
+let seed: string | null = null;
+const streams: Map<string, RandomSource> = new Map();
+
+/**
+ * Hash a string to a 32-bit seed (FNV-1a)
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * A generator for a seed (mulberry32: small, fast, good enough for visuals)
+ */
+export function createRandom(source: string | number): RandomSource {
+  let state = typeof source === 'number' ? source >>> 0 : hashSeed(source);
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (max) => Math.floor(next() * max),
+    spread: (width) => (next() - 0.5) * width,
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    shuffle: (items) => {
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    },
+  };
+}
+
+/**
+ * ?seed=… (null when absent or empty)
+ */
+function readSeedFlag(): string | null {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get('seed') || null;
+}
+
+/**
+ * The seed everything is drawn from: ?seed=, the setting, or a fresh one
+ */
+export function getSeed(): string {
+  if (seed === null) {
+    reseed(readSeedFlag() || useSettingsStore.getState().seed || null);
+  }
+  return seed!;
+}
+
+/**
+ * Start every stream over from a seed (a fresh one when none is given)
+ */
+export function reseed(next: string | null = null): void {
+  seed = next || Math.floor(Math.random() * 0xffffffff).toString(36);
+  streams.clear();
+  console.log(`[Random] Seed: ${seed} (replay with ?seed=${encodeURIComponent(seed)})`);
+}
+
+/**
+ * A named stream that carries on where its last draw left off
+ * (content picks, particle systems, gestures)
+ */
+export function random(stream: string): RandomSource {
+  const key = `${getSeed()}:${stream}`;
+  if (!streams.has(key)) {
+    streams.set(key, createRandom(key));
+  }
+  return streams.get(key)!;
+}
+
+/**
+ * A named stream from its beginning, every time (layouts built in render:
+ * the same seed gives the same star layers on every mount)
+ */
+export function freshRandom(stream: string): RandomSource {
+  return createRandom(`${getSeed()}:${stream}`);
+}
+
+/**
+ * Follow the Replay Seed setting (?seed= wins). Returns an unbind function.
+ */
+export function bindRandomSeed(): () => void {
+  getSeed();
+  if (readSeedFlag()) return () => {};
+
+  return useSettingsStore.subscribe((state, prev) => {
+    if (state.seed !== prev.seed) reseed(state.seed || null);
+  });
+}
+
+export default {
+  createRandom,
+  getSeed,
+  reseed,
+  random,
+  freshRandom,
+};
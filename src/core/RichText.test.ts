@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkMarkup,
+  highlightColor,
+  highlightEmotions,
+  parseRichText,
+  toPlainText,
+  toTextRanges,
+  HIGHLIGHT_COLORS,
+} from './RichText';
+
+const text = (value: string) => ({ type: 'text', value });
+
+describe('parseRichText', () => {
+  it('leaves plain text as one run', () => {
+    expect(parseRichText('just words')).toEqual([text('just words')]);
+  });
+
+  it('parses emphasis, strong and line breaks', () => {
+    expect(parseRichText('a *soft* and **strong**\nline')).toEqual([
+      text('a '),
+      { type: 'emphasis', children: [text('soft')] },
+      text(' and '),
+      { type: 'strong', children: [text('strong')] },
+      { type: 'break' },
+      text('line'),
+    ]);
+  });
+
+  it('counts \\r\\n as one break', () => {
+    expect(parseRichText('one\r\ntwo')).toEqual([text('one'), { type: 'break' }, text('two')]);
+  });
+
+  it('parses highlights with their emotion, lowercased', () => {
+    expect(parseRichText('[you glow]{Joy}')).toEqual([
+      { type: 'highlight', emotion: 'joy', children: [text('you glow')] },
+    ]);
+  });
+
+  it('nests markup', () => {
+    expect(parseRichText('[**always** you]{tenderness}')).toEqual([
+      {
+        type: 'highlight',
+        emotion: 'tenderness',
+        children: [{ type: 'strong', children: [text('always')] }, text(' you')],
+      },
+    ]);
+  });
+
+  it('keeps escaped markers literal', () => {
+    expect(parseRichText('5 \\* 3 \\[not\\]')).toEqual([text('5 * 3 [not]')]);
+  });
+
+  it('leaves unclosed markup as it was written', () => {
+    expect(parseRichText('an *open end')).toEqual([text('an *open end')]);
+    expect(parseRichText('a [bracket] alone')).toEqual([text('a [bracket] alone')]);
+    expect(parseRichText('**bold *and** more')).toEqual([
+      { type: 'strong', children: [text('bold *and')] },
+      text(' more'),
+    ]);
+  });
+
+  it('never turns content into HTML', () => {
+    expect(parseRichText('<img src=x onerror=alert(1)>')).toEqual([text('<img src=x onerror=alert(1)>')]);
+  });
+});
+
+describe('checkMarkup', () => {
+  it('finds nothing wrong with good markup', () => {
+    expect(checkMarkup('*a* **b** [c]{awe}')).toEqual([]);
+  });
+
+  it('names what did not close', () => {
+    expect(checkMarkup('*open')).toEqual(['unclosed *']);
+    expect(checkMarkup('**open')).toEqual(['unclosed **']);
+    expect(checkMarkup('[no emotion]')).toEqual(['[ without ]{emotion}']);
+  });
+});
+
+describe('flattening', () => {
+  it('gives the words alone', () => {
+    expect(toPlainText(parseRichText('*so* [bright]{joy}\nnow'))).toBe('so bright\nnow');
+  });
+
+  it('lists the emotions highlighted', () => {
+    expect(highlightEmotions(parseRichText('[a]{joy} *[b]{awe}*'))).toEqual(['joy', 'awe']);
+  });
+
+  it('colors highlights in 3D text ranges', () => {
+    expect(toTextRanges(parseRichText('hi [you]{joy} there'), '#FFFFFF')).toEqual({
+      text: 'hi you there',
+      colorRanges: { 0: '#FFFFFF', 3: HIGHLIGHT_COLORS.joy, 6: '#FFFFFF' },
+    });
+  });
+
+  it('gives unknown emotions the default color', () => {
+    expect(highlightColor('JOY')).toBe(HIGHLIGHT_COLORS.joy);
+    expect(highlightColor('mystery')).toBe('#FFB6C1');
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * RichText.ts — RICH-TEXT MARKUP
+ *
+ * A small inline markup for content strings, parsed into a typed tree:
+ *
+ *   *soft emphasis*   **strong**   [words that glow]{joy}   a line break (\n)
+ *
+ * Highlights name an emotion, which gives them their color. A backslash
+ * keeps a marker literal (\*). Markup that doesn't close is left as it was
+ * written. Nothing here ever becomes HTML: the tree is rendered as React
+ * elements (ui/RichText) or as colored ranges of 3D text (toTextRanges), so
+ * a content file can't inject markup into the page.
+ *
+ * No DOM and no React: the content schema checks markup with it at build time.
+ *
+ * Philosophy: Some words should be said a little softer,
+ * and some should shine.
+ */
+
+export type RichNode =
+  | { type: 'text'; value: string }
+  | { type: 'break' }
+  | { type: 'emphasis'; children: RichNode[] }
+  | { type: 'strong'; children: RichNode[] }
+  | { type: 'highlight'; emotion: string; children: RichNode[] };
+
+/**
+ * Highlight colors for the content emotions (the palette MelodyEnhancements
+ * peaks glow in)
+ */
+export const HIGHLIGHT_COLORS: Record<string, string> = {
+  joy: '#FFD700',
+  tenderness: '#FFB6D9',
+  serenity: '#75E6DA',
+  awe: '#957DAD',
+  nostalgia: '#A1887F',
+  wonder: '#4FC3F7',
+  elation: '#FFC107',
+  completion: '#9CCC65',
+  courage: '#FF7043',
+  warmth: '#FFA07A',
+};
+
+// Emotions without a color of their own
+const DEFAULT_HIGHLIGHT = '#FFB6C1';
+
+// Characters a backslash can escape
+const ESCAPABLE = new Set(['\\', '*', '[', ']', '{', '}']);
+
+// The {emotion} after a highlight's closing bracket
+const EMOTION_TAG = /^\{([a-z]+(?:-[a-z]+)*)\}/i;
+
+type Frame = {
+  kind: 'emphasis' | 'strong' | 'highlight';
+  marker: string; // As written, to restore it when the frame never closes
+  children: RichNode[];
+};
+
+export function highlightColor(emotion: string): string {
+  return HIGHLIGHT_COLORS[emotion.toLowerCase()] ?? DEFAULT_HIGHLIGHT;
+}
+
+function appendText(nodes: RichNode[], value: string): void {
+  if (!value) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.value += value;
+  } else {
+    nodes.push({ type: 'text', value });
+  }
+}
+
+function appendNodes(nodes: RichNode[], added: RichNode[]): void {
+  added.forEach(node => (node.type === 'text' ? appendText(nodes, node.value) : nodes.push(node)));
+}
+
+/**
+ * Parse markup, noting what didn't close
+ */
+function parse(source: string): { nodes: RichNode[]; problems: string[] } {
+  const root: RichNode[] = [];
+  const stack: Frame[] = [];
+  const problems: string[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].children : root);
+
+  // An unclosed frame becomes text again: its marker, then its children
+  const dissolve = (frame: Frame) => {
+    problems.push(frame.kind === 'highlight' ? '[ without ]{emotion}' : `unclosed ${frame.marker}`);
+    appendText(current(), frame.marker);
+    appendNodes(current(), frame.children);
+  };
+
+  // Close the innermost open frame of a kind; frames opened inside it never closed
+  const close = (kind: Frame['kind']): Frame | null => {
+    const at = stack.map(frame => frame.kind).lastIndexOf(kind);
+    if (at < 0) return null;
+
+    while (stack.length > at + 1) dissolve(stack.pop()!);
+    return stack.pop()!;
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\\' && ESCAPABLE.has(source[i + 1])) {
+      appendText(current(), source[i + 1]);
+      i += 2;
+    } else if (char === '\r' || char === '\n') {
+      current().push({ type: 'break' });
+      i += char === '\r' && source[i + 1] === '\n' ? 2 : 1;
+    } else if (char === '*') {
+      const kind = source[i + 1] === '*' ? 'strong' : 'emphasis';
+      const marker = kind === 'strong' ? '**' : '*';
+      const open = close(kind);
+      if (open) {
+        current().push({ type: kind, children: open.children });
+      } else {
+        stack.push({ kind, marker, children: [] });
+      }
+      i += marker.length;
+    } else if (char === '[') {
+      stack.push({ kind: 'highlight', marker: '[', children: [] });
+      i += 1;
+    } else if (char === ']' && stack.some(frame => frame.kind === 'highlight')) {
+      const tag = EMOTION_TAG.exec(source.slice(i + 1));
+      const open = close('highlight')!;
+      if (tag) {
+        current().push({ type: 'highlight', emotion: tag[1].toLowerCase(), children: open.children });
+        i += 1 + tag[0].length;
+      } else {
+        dissolve(open);
+        appendText(current(), ']');
+        i += 1;
+      }
+    } else {
+      appendText(current(), char);
+      i += 1;
+    }
+  }
+
+  while (stack.length > 0) dissolve(stack.pop()!);
+  return { nodes: root, problems };
+}
+
+/**
+ * Parse a content string into its rich-text tree
+ */
+export function parseRichText(source: string): RichNode[] {
+  return parse(source).nodes;
+}
+
+/**
+ * What is wrong with a string's markup (empty when nothing is)
+ */
+export function checkMarkup(source: string): string[] {
+  return parse(source).problems;
+}
+
+/**
+ * Every emotion a tree highlights with
+ */
+export function highlightEmotions(nodes: RichNode[]): string[] {
+  return nodes.flatMap(node => {
+    if (node.type === 'text' || node.type === 'break') return [];
+    const inner = highlightEmotions(node.children);
+    return node.type === 'highlight' ? [node.emotion, ...inner] : inner;
+  });
+}
+
+/**
+ * The words alone: for screen readers, sizing, and anything that can't style
+ */
+export function toPlainText(nodes: RichNode[]): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'break':
+          return '\n';
+        default:
+          return toPlainText(node.children);
+      }
+    })
+    .join('');
+}
+
+/**
+ * Plain text plus the color each run starts with, keyed by character index
+ * (troika's colorRanges, which drei Text passes through): highlights take
+ * their emotion's color, everything else the base color
+ */
+export function toTextRanges(nodes: RichNode[], baseColor: string): { text: string; colorRanges: Record<number, string> } {
+  let text = '';
+  let runColor: string | null = null;
+  const colorRanges: Record<number, string> = {};
+
+  const walk = (children: RichNode[], color: string) => {
+    children.forEach(node => {
+      if (node.type === 'text' || node.type === 'break') {
+        if (color !== runColor) colorRanges[text.length] = runColor = color;
+        text += node.type === 'text' ? node.value : '\n';
+      } else {
+        walk(node.children, node.type === 'highlight' ? highlightColor(node.emotion) : color);
+      }
+    });
+  };
+
+  walk(nodes, baseColor);
+  return { text, colorRanges };
+}
+
+export default {
+  parseRichText,
+  checkMarkup,
+  toPlainText,
+  toTextRanges,
+  highlightColor,
+};
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import assetLoader, { type Asset } from './AssetLoader';
+import { getSceneAssets, registerSceneAssets, unregisterSceneAssets } from './SceneLifecycle';
+
+vi.mock('./AssetLoader', () => ({ default: { evict: vi.fn(), preloadAssets: vi.fn() } }));
+
+const texture = (id: string): Asset => ({ type: 'texture', url: `/${id}.png`, id });
+
+describe('SceneLifecycle assets', () => {
+  beforeEach(() => {
+    vi.mocked(assetLoader.evict).mockClear();
+  });
+
+  it('drops a removed scene from the manifest and evicts what it loaded', () => {
+    registerSceneAssets({ lantern: { critical: [texture('lantern-sky')], preload: [texture('lantern-glow')], lazy: [] } });
+
+    unregisterSceneAssets('lantern');
+
+    expect(getSceneAssets('lantern')).toEqual({ critical: [], preload: [], lazy: [] });
+    expect(assetLoader.evict).toHaveBeenCalledWith(['lantern-sky', 'lantern-glow']);
+  });
+
+  it('keeps assets another scene still lists', () => {
+    registerSceneAssets({
+      harbor: { critical: [texture('shared-stars')], preload: [texture('harbor-water')], lazy: [] },
+      meadow: { critical: [], preload: [], lazy: [texture('shared-stars')] },
+    });
+
+    unregisterSceneAssets('harbor');
+
+    expect(assetLoader.evict).toHaveBeenCalledWith(['harbor-water']);
+    expect(getSceneAssets('meadow').lazy).toEqual([texture('shared-stars')]);
+  });
+
+  it('leaves the cache alone for a scene without assets', () => {
+    unregisterSceneAssets('nowhere');
+
+    expect(assetLoader.evict).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * SceneLifecycle.ts — SCENE LIFECYCLE CONTRACT
+ *
+ * Every scene may hook four moments of its life:
+ * - onPreload: fetch what it needs (fed by its AssetManifest entry)
+ * - onEnter:   once it is on screen
+ * - onExit:    before it leaves (awaited, so exit animations finish)
+ * - onDispose: when its SceneCleanupManager releases it
+ *
+ * Transitions wait on these promises instead of a fixed timer.
+ *
+ * Philosophy: A scene should arrive ready, and leave when it is done —
+ * not when a stopwatch says so.
+ */
+
+import { useEffect, useRef } from 'react';
+import assetLoader, { type AssetManifest } from './AssetLoader';
+import type { SceneCleanupManager } from './SceneCleanup';
+import type { SceneId } from './SceneManager';
+
+/**
+ * One scene's entry in the asset manifest
+ */
+export type SceneAssets = AssetManifest[string];
+
+/**
+ * What a lifecycle hook is told about the transition it runs in
+ */
+export interface SceneLifecycleContext {
+  sceneId: SceneId;              // Scene the hook belongs to
+  from: SceneId | null;          // Scene being left
+  to: SceneId;                   // Scene being entered
+  assets: SceneAssets;           // This scene's manifest entry
+  cleanup: SceneCleanupManager;  // This scene's cleanup manager
+}
+
+/**
+ * Lifecycle hooks for a scene (all optional)
+ */
+export interface SceneLifecycle {
+  onPreload?: (context: SceneLifecycleContext) => void | Promise<void>;
+  onEnter?: (context: SceneLifecycleContext) => void | Promise<void>;
+  onExit?: (context: SceneLifecycleContext) => void | Promise<void>;
+  onDispose?: (context: SceneLifecycleContext) => void;
+}
+
+type LifecyclePhase = 'onPreload' | 'onEnter' | 'onExit';
+
+// A hook that never settles must not strand the journey
+const HOOK_TIMEOUT = 10000;
+
+const EMPTY_ASSETS: SceneAssets = { critical: [], preload: [], lazy: [] };
+
+const lifecycles: Map<SceneId, Set<SceneLifecycle>> = new Map();
+const sceneAssets: AssetManifest = {};
+
+/**
+ * Register lifecycle hooks for a scene; returns an unregister function.
+ * Several registrations per scene are allowed and run side by side.
+ */
+export function registerSceneLifecycle(sceneId: SceneId, hooks: SceneLifecycle): () => void {
+  if (!lifecycles.has(sceneId)) {
+    lifecycles.set(sceneId, new Set());
+  }
+  lifecycles.get(sceneId)!.add(hooks);
+
+  return () => {
+    lifecycles.get(sceneId)?.delete(hooks);
+  };
+}
+
+/**
+ * Merge scene assets into the manifest onPreload is fed from
+ */
+export function registerSceneAssets(manifest: AssetManifest): void {
+  Object.entries(manifest).forEach(([sceneId, assets]) => {
+    const current = sceneAssets[sceneId] || EMPTY_ASSETS;
+    sceneAssets[sceneId] = {
+      critical: [...current.critical, ...assets.critical],
+      preload: [...current.preload, ...assets.preload],
+      lazy: [...current.lazy, ...assets.lazy],
+    };
+  });
+}
+
+/**
+ * Take a scene out of the asset manifest, evicting what it loaded unless
+ * another scene still lists it
+ */
+export function unregisterSceneAssets(sceneId: SceneId): void {
+  const assets = sceneAssets[sceneId];
+  if (!assets) return;
+  delete sceneAssets[sceneId];
+
+  const idsOf = (entry: SceneAssets) => [...entry.critical, ...entry.preload, ...entry.lazy].map(asset => asset.id);
+  const stillListed = new Set(Object.values(sceneAssets).flatMap(idsOf));
+  assetLoader.evict(idsOf(assets).filter(id => !stillListed.has(id)));
+}
+
+/**
+ * Get a scene's asset manifest entry
+ */
+export function getSceneAssets(sceneId: SceneId): SceneAssets {
+  return sceneAssets[sceneId] || EMPTY_ASSETS;
+}
+
+/**
+ * Settle after the promise or the timeout, whichever comes first
+ */
+function settle(promise: Promise<void>, label: string): Promise<void> {
+  return new Promise(resolve => {
+    const timeout = window.setTimeout(() => {
+      console.warn(`[SceneLifecycle] ${label} timed out after ${HOOK_TIMEOUT}ms, moving on`);
+      resolve();
+    }, HOOK_TIMEOUT);
+
+    promise
+      .catch(error => console.error(`[SceneLifecycle] ${label} failed:`, error))
+      .finally(() => {
+        clearTimeout(timeout);
+        resolve();
+      });
+  });
+}
+
+/**
+ * Run one phase of every hook registered for a scene
+ */
+async function runPhase(
+  phase: LifecyclePhase,
+  context: SceneLifecycleContext
+): Promise<void> {
+  const hooks = Array.from(lifecycles.get(context.sceneId) || []).filter(h => h[phase]);
+
+  await Promise.all(
+    hooks.map(h => settle(Promise.resolve().then(() => h[phase]!(context)), `${context.sceneId}.${phase}`))
+  );
+}
+
+/**
+ * Load a scene's critical assets, then run its onPreload hooks
+ */
+export async function preloadScene(context: SceneLifecycleContext): Promise<void> {
+  if (context.assets.critical.length > 0) {
+    await assetLoader.preloadAssets(context.assets.critical);
+  }
+  await runPhase('onPreload', context);
+}
+
+/**
+ * Run a scene's onExit hooks
+ */
+export async function exitScene(context: SceneLifecycleContext): Promise<void> {
+  await runPhase('onExit', context);
+}
+
+/**
+ * Run a scene's onEnter hooks and bind its onDispose hooks to its
+ * cleanup manager. Waits a tick first so the scene can mount and
+ * register hooks of its own.
+ */
+export async function enterScene(context: SceneLifecycleContext): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 0));
+
+  lifecycles.get(context.sceneId)?.forEach(hooks => {
+    if (hooks.onDispose) {
+      context.cleanup.registerCustomCleanup(() => hooks.onDispose!(context));
+    }
+  });
+
+  await runPhase('onEnter', context);
+
+  // Lazy assets can trail in once she is already looking
+  if (context.assets.lazy.length > 0) {
+    void assetLoader.preloadAssets(context.assets.lazy);
+  }
+}
+
+/**
+ * Warm up the assets of scenes that may come next
+ */
+export function prefetchScenes(sceneIds: SceneId[]): void {
+  const assets = sceneIds.flatMap(id => getSceneAssets(id).preload);
+  if (assets.length > 0) {
+    void assetLoader.preloadAssets(assets);
+  }
+}
+
+/**
+ * React hook: lifecycle hooks owned by a mounted scene component.
+ * A component mounts as its scene is entered, so onPreload must be
+ * registered statically with registerSceneLifecycle instead.
+ */
+export function useSceneLifecycle(sceneId: SceneId, hooks: SceneLifecycle): void {
+  const hooksRef = useRef(hooks);
+
+  useEffect(() => {
+    hooksRef.current = hooks;
+  });
+
+  useEffect(() => {
+    // Only register the phases the component actually hooks
+    const { onEnter, onExit, onDispose } = hooksRef.current;
+
+    return registerSceneLifecycle(sceneId, {
+      onEnter: onEnter && ((context) => hooksRef.current.onEnter?.(context)),
+      onExit: onExit && ((context) => hooksRef.current.onExit?.(context)),
+      onDispose: onDispose && ((context) => hooksRef.current.onDispose?.(context)),
+    });
+  }, [sceneId]);
+}
+
+export default registerSceneLifecycle;
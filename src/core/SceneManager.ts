@@ -16,8 +16,26 @@
 import { create } from 'zustand';
 import audioManager from './AudioManager';
 import { SceneCleanupManager } from './SceneCleanup';
+import {
+  JourneyGraph,
+  createJourneyGraph,
+  type JourneyManifest,
+  type JourneySceneAddition,
+} from './JourneyGraph';
+import { EmotionalCrescendoManager } from './EmotionalCrescendo';
+import { resolveTransition, sceneTransitionManager, type TransitionConfig } from './SceneTransitions';
+import useSettingsStore from './SettingsManager';
+import journeyEvents from './JourneyEvents';
+import {
+  enterScene,
+  exitScene,
+  getSceneAssets,
+  prefetchScenes,
+  preloadScene,
+  type SceneLifecycleContext,
+} from './SceneLifecycle';
 
-export type SceneId =
+export type BuiltInSceneId =
   | 'calibration'
   | 'hero'
   | 'galaxy'
@@ -28,6 +46,9 @@ export type SceneId =
   | 'melody'
   | 'finale';
 
+// Open to scenes registered at runtime, while keeping built-in completions
+export type SceneId = BuiltInSceneId | (string & {});
+
 export interface Scene {
   id: SceneId;
   name: string;
@@ -37,15 +58,31 @@ export interface Scene {
   emotion: string; // The core feeling this scene evokes
 }
 
+export type TransitionPhase = 'idle' | 'exiting' | 'entering';
+
 interface SceneState {
   currentScene: SceneId;
   previousScene: SceneId | null;
   isTransitioning: boolean;
+  transitionPhase: TransitionPhase; // exiting: old scene leaving; entering: new scene arriving
   progress: number; // Overall journey progress (0-1)
 
   // Scene registry
   scenes: Map<SceneId, Scene>;
 
+  // Journey graph and the path walked through it
+  journey: JourneyGraph | null;
+  history: SceneId[];
+  visitedScenes: Set<SceneId>;
+  journeyFlags: Record<string, boolean>;
+  sceneAdditions: JourneySceneAddition[]; // Runtime scenes slotted into every journey
+
+  // Emotional crescendo guarding the journey's gated scenes
+  crescendo: EmotionalCrescendoManager | null;
+  crescendoProgress: number; // 0-1, in whole-percent steps
+  isFinaleUnlocked: boolean;
+  lockedScene: SceneId | null; // Last gated scene that turned us away
+
   // Cleanup manager for current scene
   cleanupManager: SceneCleanupManager | null;
 
@@ -53,101 +90,180 @@ interface SceneState {
   setScene: (sceneId: SceneId) => void;
   nextScene: () => void;
   previousSceneAction: () => void;
-  initializeScenes: () => void;
+  initializeScenes: (journey?: string | JourneyManifest) => void;
+  addScene: (addition: JourneySceneAddition) => void;
+  removeScene: (sceneId: SceneId) => void;
+  setJourneyFlag: (flag: string, value?: boolean) => void;
+  restoreJourney: (saved: {
+    currentScene: SceneId;
+    history: SceneId[];
+    visitedScenes: SceneId[];
+    journeyFlags: Record<string, boolean>;
+  }) => void;
+  revealContent: () => void;
+  recordInteraction: (type?: string) => void;
+  restoreCrescendo: (serialized: string) => void;
+  resetCrescendo: () => void;
+  resolveSceneRequest: (sceneId: SceneId) => SceneId;
   registerCleanup: (cleanup: () => void) => void;
   getCleanupManager: () => SceneCleanupManager;
 }
 
-// Scene definitions with emotional intent
-const sceneDefinitions: Scene[] = [
-  {
-    id: 'calibration',
-    name: 'Calibration',
-    description: 'Tuning into her frequency',
-    ambientTrack: 'intro_theme',
-    whisperTrack: 'scene1_intro',
-    emotion: 'anticipation',
+// Scene definitions with emotional intent (from the default journey)
+const sceneDefinitions: Scene[] = createJourneyGraph().getNodes();
+
+const useSceneStore = create<SceneState>((set, get) => ({
+  currentScene: 'calibration',
+  previousScene: null,
+  isTransitioning: false,
+  transitionPhase: 'idle',
+  progress: 0,
+  scenes: new Map(),
+  journey: null,
+  history: [],
+  visitedScenes: new Set(),
+  journeyFlags: {},
+  sceneAdditions: [],
+  crescendo: null,
+  crescendoProgress: 0,
+  isFinaleUnlocked: false,
+  lockedScene: null,
+  cleanupManager: null,
+
+  initializeScenes: (journey?: string | JourneyManifest) => {
+    journeySource = journey;
+    const graph = buildJourney(get().sceneAdditions);
+    const sceneMap = toSceneMap(graph);
+
+    const start = graph.getStart();
+    get().crescendo?.dispose();
+    const crescendo = startCrescendo(graph);
+    const cleanupManager = new SceneCleanupManager();
+    sceneEnteredAt = Date.now();
+
+    set({
+      scenes: sceneMap,
+      journey: graph,
+      currentScene: start,
+      previousScene: null,
+      history: [],
+      visitedScenes: new Set([start]),
+      progress: graph.getProgress(start),
+      crescendo,
+      crescendoProgress: crescendo ? 0 : 1,
+      isFinaleUnlocked: !crescendo,
+      lockedScene: null,
+      cleanupManager,
+    });
+
+    console.log(`🗺️ Journey loaded: ${graph.manifest.name} (${sceneMap.size} scenes)`);
+    journeyEvents.emit('journey:start', { journeyId: graph.manifest.id, start });
+    journeyEvents.emit('scene:enter', { sceneId: start, from: null });
+
+    // The opening scene gets its lifecycle too
+    const context = lifecycleContext(start, null, start, cleanupManager);
+    void preloadScene(context)
+      .then(() => enterScene(context))
+      .then(() => prefetchScenes(graph.getSuccessors(start)));
   },
-  {
-    id: 'hero',
-    name: 'The Beginning',
-    description: 'Where everything converges',
-    ambientTrack: 'hero_bloom',
-    whisperTrack: 'scene2_hero',
-    emotion: 'awe',
+
+  addScene: (addition: JourneySceneAddition) => {
+    const sceneAdditions = [
+      ...get().sceneAdditions.filter(a => a.node.id !== addition.node.id),
+      addition,
+    ];
+    set({ sceneAdditions });
+    rebuildJourney();
   },
-  {
-    id: 'galaxy',
-    name: 'Galaxy of Wishes',
-    description: 'Every star holds a dream for her',
-    ambientTrack: 'galaxy_wonder',
-    whisperTrack: 'scene3_wishes',
-    emotion: 'joy',
+
+  removeScene: (sceneId: SceneId) => {
+    set({ sceneAdditions: get().sceneAdditions.filter(a => a.node.id !== sceneId) });
+
+    // She may be in it, or on her way: it has to be left before it goes
+    const { currentScene, isTransitioning } = get();
+    if (currentScene !== sceneId && !isTransitioning) {
+      rebuildJourney();
+      return;
+    }
+
+    void leaveScene(sceneId).then(rebuildJourney);
   },
-  {
-    id: 'globe',
-    name: 'Our World',
-    description: 'Every place we have touched, together',
-    ambientTrack: 'globe_nostalgia',
-    whisperTrack: 'scene4_globe',
-    emotion: 'nostalgia',
+
+  setJourneyFlag: (flag: string, value: boolean = true) => {
+    set({ journeyFlags: { ...get().journeyFlags, [flag]: value } });
   },
-  {
-    id: 'constellation',
-    name: 'Constellation of Words',
-    description: 'The language of us',
-    ambientTrack: 'constellation_ambient',
-    whisperTrack: 'scene5_words',
-    emotion: 'wonder',
+
+  restoreJourney: (saved) => {
+    set({
+      visitedScenes: new Set([...get().visitedScenes, ...saved.visitedScenes]),
+      journeyFlags: { ...saved.journeyFlags },
+    });
+
+    // A saved gated scene still has to be earned
+    const target = get().resolveSceneRequest(saved.currentScene);
+    if (target === get().currentScene) return;
+
+    void transitionTo(target, saved.history);
   },
-  {
-    id: 'garden',
-    name: 'Apology Garden',
-    description: 'Where sorrow becomes softness',
-    ambientTrack: 'rain_garden',
-    whisperTrack: 'scene6_apology',
-    emotion: 'tenderness',
+
+  revealContent: () => {
+    get().crescendo?.revealContent();
+    journeyEvents.emit('content:revealed', { sceneId: get().currentScene });
   },
-  {
-    id: 'sanctuary',
-    name: 'Sanctuary of Promises',
-    description: 'Vows written in light',
-    ambientTrack: 'promise_sanctuary',
-    whisperTrack: 'scene7_promises',
-    emotion: 'serenity',
+
+  recordInteraction: (type?: string) => {
+    get().crescendo?.recordInteraction(type);
+    journeyEvents.emit('interaction', { kind: type || 'unknown' });
   },
-  {
-    id: 'melody',
-    name: 'Melody Sphere',
-    description: 'The rhythm of us',
-    ambientTrack: 'melody_dance',
-    whisperTrack: 'scene8_melody',
-    emotion: 'elation',
+
+  restoreCrescendo: (serialized: string) => {
+    const { crescendo } = get();
+    if (!crescendo) return;
+
+    try {
+      crescendo.deserialize(serialized);
+      set({
+        isFinaleUnlocked: crescendo.isFinaleUnlocked(),
+        crescendoProgress: roundProgress(crescendo.getProgress()),
+      });
+    } catch (error) {
+      console.warn('[SceneManager] Failed to restore crescendo:', error);
+    }
   },
-  {
-    id: 'finale',
-    name: 'Supernova',
-    description: 'The eternal moment',
-    ambientTrack: 'finale_orchestra',
-    whisperTrack: 'finale_whisper',
-    emotion: 'completion',
+
+  resetCrescendo: () => {
+    const { crescendo } = get();
+    if (!crescendo) return;
+
+    crescendo.reset();
+    sceneEnteredAt = Date.now();
+    set({ isFinaleUnlocked: false, crescendoProgress: 0, lockedScene: null });
   },
-];
 
-const useSceneStore = create<SceneState>((set, get) => ({
-  currentScene: 'calibration',
-  previousScene: null,
-  isTransitioning: false,
-  progress: 0,
-  scenes: new Map(),
-  cleanupManager: null,
+  resolveSceneRequest: (sceneId: SceneId) => {
+    const { journey, crescendo } = get();
+    if (!journey || !crescendo || !journey.isGated(sceneId) || crescendo.isFinaleUnlocked()) {
+      return sceneId;
+    }
 
-  initializeScenes: () => {
-    const sceneMap = new Map<SceneId, Scene>();
-    sceneDefinitions.forEach(scene => {
-      sceneMap.set(scene.id, scene);
-    });
-    set({ scenes: sceneMap, cleanupManager: new SceneCleanupManager() });
+    // Locked: send her to what the crescendo still needs — an unvisited
+    // required scene, then any unvisited scene, then the way in
+    const visited = crescendo.getState().scenesVisited;
+    const start = journey.getStart();
+    const candidates = journey
+      .getNodes()
+      .map(node => node.id)
+      .filter(id => id !== start && !journey.isGated(id));
+
+    const required = crescendo.getRequirements().requiredScenes || [];
+    const redirect =
+      candidates.find(id => required.includes(id) && !visited.has(id)) ||
+      candidates.find(id => !visited.has(id)) ||
+      journey.getPredecessors(sceneId)[0] ||
+      start;
+
+    console.log(`🔒 ${sceneId} is locked — redirecting to ${redirect}`);
+    return redirect;
   },
 
   registerCleanup: (cleanup: () => void) => {
@@ -168,84 +284,308 @@ const useSceneStore = create<SceneState>((set, get) => ({
   },
 
   setScene: (sceneId: SceneId) => {
-    const { currentScene, scenes, isTransitioning, cleanupManager } = get();
+    const { currentScene, history, journey } = get();
 
-    // Prevent transition spam
-    if (isTransitioning) {
-      console.log('⏳ Already transitioning...');
-      return;
+    // Credit the current scene's emotion before the gate is checked
+    if (journey?.isGated(sceneId)) recordSceneDwell();
+
+    const target = get().resolveSceneRequest(sceneId);
+    if (target !== sceneId) showLockNotice(sceneId);
+    if (target === currentScene) return;
+
+    void transitionTo(target, [...history, currentScene]);
+  },
+
+  nextScene: () => {
+    const { currentScene, journey, visitedScenes, journeyFlags } = get();
+    if (!journey) return;
+
+    const next = journey.getNext(currentScene, { visited: visitedScenes, flags: journeyFlags });
+
+    if (next) {
+      get().setScene(next);
+    } else {
+      console.log('💫 Journey complete');
     }
+  },
 
-    const newScene = scenes.get(sceneId);
-    const oldScene = scenes.get(currentScene);
+  previousSceneAction: () => {
+    const { currentScene, journey, history } = get();
 
-    if (!newScene) {
-      console.error(`❌ Scene not found: ${sceneId}`);
+    if (history.length > 0) {
+      void transitionTo(history[history.length - 1], history.slice(0, -1));
       return;
     }
 
-    console.log(`🌌 Transitioning: ${oldScene?.name} → ${newScene.name}`);
+    // No recorded path (e.g. journey started mid-way): follow an incoming edge
+    const [prevScene] = journey?.getPredecessors(currentScene) || [];
+    if (prevScene) {
+      void transitionTo(prevScene, []);
+    }
+  },
+}));
 
-    set({ isTransitioning: true, previousScene: currentScene });
+// Journey the store was initialized with (runtime scenes are layered on top)
+let journeySource: string | JourneyManifest | undefined;
 
-    // CRITICAL: Cleanup old scene to prevent memory leaks
-    if (cleanupManager) {
-      console.log('🧹 Cleaning up previous scene...');
-      cleanupManager.cleanup();
-    }
+/**
+ * Build the active journey: the loaded manifest plus runtime scenes
+ */
+function buildJourney(additions: JourneySceneAddition[]): JourneyGraph {
+  const graph = createJourneyGraph(journeySource);
+  if (additions.length === 0) return graph;
 
-    // Create new cleanup manager for the incoming scene
-    const newCleanupManager = new SceneCleanupManager();
-    set({ cleanupManager: newCleanupManager });
+  try {
+    return graph.extend(additions);
+  } catch (error) {
+    console.error('[SceneManager] Failed to add scenes to the journey:', error);
+    return graph;
+  }
+}
 
-    // Audio crossfade between scenes
-    audioManager.crossfade(
-      oldScene?.ambientTrack || null,
-      newScene.ambientTrack,
-      3.5 // 3.5 seconds of emotional dissolution
-    );
+/**
+ * Scene registry keyed by id
+ */
+function toSceneMap(graph: JourneyGraph): Map<SceneId, Scene> {
+  const sceneMap = new Map<SceneId, Scene>();
+  graph.getNodes().forEach(scene => {
+    sceneMap.set(scene.id, scene);
+  });
+  return sceneMap;
+}
 
-    // Play whisper after a brief moment of silence
-    if (newScene.whisperTrack) {
-      audioManager.whisper(newScene.whisperTrack, { x: 0, y: 0, z: 0 }, 4.0);
-    }
+/**
+ * Re-layer runtime scenes onto a loaded journey without moving her
+ */
+function rebuildJourney(): void {
+  const { journey, sceneAdditions, currentScene } = useSceneStore.getState();
+  if (!journey) return;
 
-    // Update progress (0 at calibration, 1 at finale)
-    const sceneIndex = sceneDefinitions.findIndex(s => s.id === sceneId);
-    const progress = sceneIndex / (sceneDefinitions.length - 1);
+  const graph = buildJourney(sceneAdditions);
+  useSceneStore.setState({
+    journey: graph,
+    scenes: toSceneMap(graph),
+    history: useSceneStore.getState().history.filter(id => graph.getNode(id)), // Back can't lead to a removed scene
+    progress: graph.getNode(currentScene) ? graph.getProgress(currentScene) : useSceneStore.getState().progress,
+  });
 
-    // Actual scene transition after fade
-    setTimeout(() => {
-      set({
-        currentScene: sceneId,
-        isTransitioning: false,
-        progress,
+  console.log(`🗺️ Journey rebuilt with ${sceneAdditions.length} added scene(s)`);
+}
+
+/**
+ * Move her off a scene that is leaving the journey: on to where it leads,
+ * or back to the start (after any transition already under way)
+ */
+async function leaveScene(sceneId: SceneId): Promise<void> {
+  const { getState: get, subscribe } = useSceneStore;
+
+  if (get().isTransitioning) {
+    await new Promise<void>(resolve => {
+      const unsubscribe = subscribe(state => {
+        if (state.isTransitioning) return;
+        unsubscribe();
+        resolve();
       });
-    }, 1500); // Halfway through audio crossfade
-  },
+    });
+  }
 
-  nextScene: () => {
-    const { currentScene } = get();
-    const currentIndex = sceneDefinitions.findIndex(s => s.id === currentScene);
+  const { currentScene, journey, visitedScenes, journeyFlags, history } = get();
+  if (currentScene !== sceneId || !journey) return;
 
-    if (currentIndex < sceneDefinitions.length - 1) {
-      const nextScene = sceneDefinitions[currentIndex + 1];
-      get().setScene(nextScene.id);
-    } else {
-      console.log('💫 Journey complete');
-    }
-  },
+  const next = journey.getNext(sceneId, { visited: visitedScenes, flags: journeyFlags });
+  const resolved = next ? get().resolveSceneRequest(next) : null;
+  const target = resolved && resolved !== sceneId ? resolved : journey.getStart();
 
-  previousSceneAction: () => {
-    const { currentScene } = get();
-    const currentIndex = sceneDefinitions.findIndex(s => s.id === currentScene);
+  console.log(`🚪 ${sceneId} is leaving the journey — moving on to ${target}`);
+  await transitionTo(target, history.filter(id => id !== sceneId));
+}
 
-    if (currentIndex > 0) {
-      const prevScene = sceneDefinitions[currentIndex - 1];
-      get().setScene(prevScene.id);
-    }
-  },
-}));
+// When the current scene was entered (for emotion dwell time)
+let sceneEnteredAt = Date.now();
+
+// How long a "still locked" notice stays up
+const LOCK_NOTICE_DURATION = 6000;
+let lockNoticeTimer: number | undefined;
+
+/**
+ * Tell the UI a gated scene turned us away (clears itself)
+ */
+function showLockNotice(sceneId: SceneId): void {
+  useSceneStore.setState({ lockedScene: sceneId });
+
+  window.clearTimeout(lockNoticeTimer);
+  lockNoticeTimer = window.setTimeout(() => {
+    useSceneStore.setState({ lockedScene: null });
+  }, LOCK_NOTICE_DURATION);
+}
+
+/**
+ * Keep progress in whole-percent steps so the store isn't touched every tick
+ */
+function roundProgress(progress: number): number {
+  return Math.floor(progress * 100) / 100;
+}
+
+/**
+ * Create and start the crescendo for a journey (null when nothing is gated)
+ */
+function startCrescendo(graph: JourneyGraph): EmotionalCrescendoManager | null {
+  if (graph.getGatedScenes().length === 0) return null;
+
+  const crescendo = new EmotionalCrescendoManager(graph.getCrescendoRequirements());
+  crescendo.start({
+    onUnlock: () => {
+      useSceneStore.setState({ isFinaleUnlocked: true, crescendoProgress: 1, lockedScene: null });
+
+      const { scenesVisited, timeSpent } = crescendo.getState();
+      journeyEvents.emit('crescendo:unlocked', { scenesVisited: scenesVisited.size, timeSpent });
+    },
+    onProgress: (progress) => {
+      const rounded = roundProgress(progress);
+      if (rounded !== useSceneStore.getState().crescendoProgress) {
+        useSceneStore.setState({ crescendoProgress: rounded });
+        journeyEvents.emit('crescendo:progress', { progress: rounded });
+      }
+    },
+  });
+
+  return crescendo;
+}
+
+/**
+ * Credit time spent in the current scene to its emotion
+ */
+function recordSceneDwell(): void {
+  const { crescendo, scenes, currentScene } = useSceneStore.getState();
+  const scene = scenes.get(currentScene);
+  const now = Date.now();
+
+  if (crescendo && scene) {
+    crescendo.experienceEmotion(scene.emotion, (now - sceneEnteredAt) / 1000);
+  }
+  sceneEnteredAt = now;
+}
+
+/**
+ * Build the context a scene's lifecycle hooks run with
+ */
+function lifecycleContext(
+  sceneId: SceneId,
+  from: SceneId | null,
+  to: SceneId,
+  cleanup: SceneCleanupManager
+): SceneLifecycleContext {
+  return { sceneId, from, to, assets: getSceneAssets(sceneId), cleanup };
+}
+
+/**
+ * Pick the transition for a scene change (calmer when motion is reduced)
+ */
+function chooseTransition(from: Scene | undefined, to: Scene): TransitionConfig {
+  const { journey } = useSceneStore.getState();
+  const edge = from && journey ? journey.getEdge(from.id, to.id) : undefined;
+  const config = resolveTransition(from, to, edge?.transition);
+
+  if (useSettingsStore.getState().accessibility.reducedMotion) {
+    return { ...config, type: 'crossfade', duration: Math.min(config.duration, 1.5) };
+  }
+
+  return config;
+}
+
+/**
+ * Swap scenes: preload the new one while the old one exits and the veil
+ * covers it, release the old scene, then enter the new one as the veil
+ * lifts. Each step waits on the scenes' lifecycle hooks and the
+ * transition itself rather than a fixed timer.
+ */
+async function transitionTo(sceneId: SceneId, history: SceneId[]): Promise<void> {
+  const { getState: get, setState: set } = useSceneStore;
+  const { currentScene, scenes, journey, isTransitioning, cleanupManager } = get();
+
+  // Prevent transition spam
+  if (isTransitioning) {
+    console.log('⏳ Already transitioning...');
+    return;
+  }
+
+  const newScene = scenes.get(sceneId);
+  const oldScene = scenes.get(currentScene);
+
+  if (!newScene) {
+    console.error(`❌ Scene not found: ${sceneId}`);
+    return;
+  }
+
+  console.log(`🌌 Transitioning: ${oldScene?.name} → ${newScene.name}`);
+
+  journeyEvents.emit('scene:exit', {
+    sceneId: currentScene,
+    to: sceneId,
+    dwell: (Date.now() - sceneEnteredAt) / 1000,
+  });
+  recordSceneDwell();
+  set({ isTransitioning: true, transitionPhase: 'exiting', previousScene: currentScene });
+
+  // Audio crossfade between scenes
+  audioManager.crossfade(
+    oldScene?.ambientTrack || null,
+    newScene.ambientTrack,
+    3.5 // 3.5 seconds of emotional dissolution
+  );
+
+  // Play whisper after a brief moment of silence
+  if (newScene.whisperTrack) {
+    audioManager.whisper(newScene.whisperTrack, { x: 0, y: 0, z: 0 }, 4.0);
+  }
+
+  // Each half of the transition covers or reveals
+  const transition = chooseTransition(oldScene, newScene);
+  const half = { ...transition, duration: transition.duration / 2 };
+
+  // Preload the incoming scene while the outgoing one finishes its exit
+  const newCleanupManager = new SceneCleanupManager();
+  const outgoing = cleanupManager || new SceneCleanupManager();
+
+  await Promise.all([
+    preloadScene(lifecycleContext(sceneId, currentScene, sceneId, newCleanupManager)),
+    exitScene(lifecycleContext(currentScene, currentScene, sceneId, outgoing)),
+    sceneTransitionManager.transition(currentScene, sceneId, half, { stage: 'cover' }),
+  ]);
+
+  // CRITICAL: Cleanup old scene to prevent memory leaks
+  console.log('🧹 Cleaning up previous scene...');
+  outgoing.cleanup();
+
+  // Update progress from the longest path still ahead
+  const progress = journey ? journey.getProgress(sceneId) : 0;
+
+  set({
+    currentScene: sceneId,
+    transitionPhase: 'entering',
+    cleanupManager: newCleanupManager,
+    progress,
+    history,
+    visitedScenes: new Set([...get().visitedScenes, sceneId]),
+  });
+
+  sceneEnteredAt = Date.now();
+  journeyEvents.emit('scene:enter', { sceneId, from: currentScene });
+  if (sceneId !== journey?.getStart()) {
+    get().crescendo?.visitScene(sceneId);
+  }
+
+  await Promise.all([
+    enterScene(lifecycleContext(sceneId, currentScene, sceneId, newCleanupManager)),
+    sceneTransitionManager.transition(currentScene, sceneId, half, { stage: 'reveal' }),
+  ]);
+  set({ isTransitioning: false, transitionPhase: 'idle' });
+
+  // Warm up wherever the journey may go next
+  if (journey) {
+    prefetchScenes(journey.getSuccessors(sceneId));
+  }
+}
 
 export default useSceneStore;
 export { sceneDefinitions };
@@ -0,0 +1,120 @@
+/**
+ * SceneRegistry.ts — RUNTIME SCENES
+ *
+ * Maps the component keys journey manifests name to React components,
+ * and lets content packs add whole scenes at runtime: component, scene
+ * metadata, and where they slot into the journey. Added scenes get the
+ * same transitions, lifecycle and cleanup as the built-in ones.
+ *
+ * Philosophy: The story should grow, not be rebuilt.
+ * A new chapter should walk in through the same door as the first.
+ */
+
+import type { ComponentType } from 'react';
+import useSceneStore, { type Scene, type SceneId } from './SceneManager';
+import type { EdgeCondition } from './JourneyGraph';
+import {
+  registerSceneAssets,
+  registerSceneLifecycle,
+  unregisterSceneAssets,
+  type SceneAssets,
+  type SceneLifecycle,
+} from './SceneLifecycle';
+
+/**
+ * Everything a pack needs to contribute a scene
+ */
+export interface SceneRegistration {
+  id: SceneId;
+  component: ComponentType;
+  definition: Omit<Scene, 'id'>;  // name, description, ambient/whisper tracks, emotion
+  placement?: {
+    after: SceneId;               // Slot in right after this scene
+    when?: EdgeCondition;         // Only detour when this holds
+    transition?: string;          // Transition into the scene
+  };
+  lifecycle?: SceneLifecycle;
+  assets?: SceneAssets;
+}
+
+// Component key (as written in manifests) → component
+const components: Map<string, ComponentType> = new Map();
+
+// Scene id → teardown for everything its registration set up
+const registered: Map<SceneId, () => void> = new Map();
+
+/**
+ * Register component variants under the keys manifests use
+ */
+export function registerSceneComponents(variants: Record<string, ComponentType>): void {
+  Object.entries(variants).forEach(([key, component]) => {
+    components.set(key, component);
+  });
+}
+
+/**
+ * Look up the component for a manifest key
+ */
+export function getSceneComponent(key: string): ComponentType | undefined {
+  return components.get(key);
+}
+
+/**
+ * Register a runtime scene; returns an unregister function
+ */
+export function registerScene(registration: SceneRegistration): () => void {
+  const { id, component, definition, placement, lifecycle, assets } = registration;
+
+  if (components.has(id)) {
+    throw new Error(`[SceneRegistry] '${id}' is already registered`);
+  }
+
+  const { journey } = useSceneStore.getState();
+  if (journey?.getNode(id)) {
+    throw new Error(`[SceneRegistry] '${id}' is a journey scene and cannot be replaced`);
+  }
+
+  // Added scenes render under their own id
+  components.set(id, component);
+
+  if (assets) {
+    registerSceneAssets({ [id]: assets });
+  }
+  const unregisterLifecycle = lifecycle ? registerSceneLifecycle(id, lifecycle) : null;
+
+  useSceneStore.getState().addScene({
+    node: { ...definition, id, component: id },
+    after: placement?.after,
+    when: placement?.when,
+    transition: placement?.transition,
+  });
+
+  const unregister = () => {
+    components.delete(id);
+    unregisterLifecycle?.();
+    if (assets) unregisterSceneAssets(id);
+    registered.delete(id);
+    useSceneStore.getState().removeScene(id);
+    console.log(`[SceneRegistry] Unregistered scene: ${id}`);
+  };
+  registered.set(id, unregister);
+
+  console.log(`[SceneRegistry] Registered scene: ${definition.name} (${id})`);
+  return unregister;
+}
+
+/**
+ * Remove a runtime scene by id (if she is in it, she moves on first)
+ */
+export function unregisterScene(id: SceneId): void {
+  registered.get(id)?.();
+}
+
+/**
+ * Ids of every runtime scene
+ */
+export function getRegisteredScenes(): SceneId[] {
+  return Array.from(registered.keys());
+}
+
+export default registerScene;
@@ -0,0 +1,99 @@
+/**
+ * SceneRouter.ts — DEEP-LINKABLE SCENES
+ *
+ * Mirrors the current scene into the URL hash (#/galaxy) and wires the
+ * browser's back/forward buttons into the scene store, so a reload lands
+ * where you were and a designer can open a single scene directly.
+ *
+ * Philosophy: Every chapter deserves an address.
+ * But the ending is only reachable by those who walked the path.
+ */
+
+import useSceneStore, { type SceneId } from './SceneManager';
+import useJourneyProgressStore, { hasResumableJourney, resumeSavedJourney } from './JourneyPersistence';
+
+/**
+ * Read the scene id from the current URL hash (#/galaxy or #galaxy)
+ */
+export function parseSceneFromLocation(): SceneId | null {
+  const hash = window.location.hash.replace(/^#\/?/, '').trim();
+  return hash ? (decodeURIComponent(hash) as SceneId) : null;
+}
+
+/**
+ * Build the hash for a scene
+ */
+export function sceneToHash(sceneId: SceneId): string {
+  return `#/${encodeURIComponent(sceneId)}`;
+}
+
+/**
+ * Bind the scene store to browser history.
+ * Call after initializeScenes(); returns an unbind function.
+ */
+export function bindSceneHistory(): () => void {
+  const store = useSceneStore;
+
+  // Deep link on first load
+  const linked = parseSceneFromLocation();
+  const { currentScene, scenes } = store.getState();
+
+  if (linked && linked !== currentScene && scenes.has(linked)) {
+    const target = store.getState().resolveSceneRequest(linked);
+    window.history.replaceState({ scene: target }, '', sceneToHash(target));
+
+    // Reloading the saved scene restores the whole walked path
+    if (target === useJourneyProgressStore.getState().currentScene && hasResumableJourney()) {
+      resumeSavedJourney();
+    } else if (target !== currentScene) {
+      store.getState().setScene(target);
+    }
+  } else {
+    window.history.replaceState({ scene: currentScene }, '', sceneToHash(currentScene));
+  }
+
+  // Scene changes → new history entries
+  const unsubscribe = store.subscribe((state, prev) => {
+    if (state.currentScene === prev.currentScene) return;
+    if (parseSceneFromLocation() === state.currentScene) return;
+
+    window.history.pushState({ scene: state.currentScene }, '', sceneToHash(state.currentScene));
+  });
+
+  // Back/forward → scene changes
+  const handlePopState = () => {
+    const requested = parseSceneFromLocation();
+    const { currentScene, scenes, history, isTransitioning } = store.getState();
+
+    if (!requested || requested === currentScene) return;
+
+    // Mid-transition the request is dropped, so the address goes back to the scene she is on
+    if (isTransitioning || !scenes.has(requested)) {
+      window.history.replaceState({ scene: currentScene }, '', sceneToHash(currentScene));
+      return;
+    }
+
+    const target = store.getState().resolveSceneRequest(requested);
+    if (target !== requested) {
+      window.history.replaceState({ scene: target }, '', sceneToHash(target));
+    }
+
+    if (target === currentScene) return;
+
+    // Stepping back along the walked path keeps the journey history intact
+    if (history[history.length - 1] === target) {
+      store.getState().previousSceneAction();
+    } else {
+      store.getState().setScene(target);
+    }
+  };
+
+  window.addEventListener('popstate', handlePopState);
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener('popstate', handlePopState);
+  };
+}
+
+export default bindSceneHistory;
@@ -4,20 +4,42 @@
  * React hooks that implement narrative staging for each scene
  * Controls the flow: entry → dwell → exit
  *
+ * Each hook takes an optional selector (ContentQuery) to choose what it
+ * stages, and records what it reveals so unrevealed() can skip it later.
+ *
  * Philosophy: Each scene is a stage.
  * Content enters like actors, dwells like presence, exits like memory.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { Wish, Apology, Promise, Song, Word } from './ContentTypes';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { EmotionalContent, Wish, Apology, Promise, Song, Word } from './ContentTypes';
+import { markRevealed, query, type ContentSelector } from './ContentQuery';
 import { NarrativeStager, WaveStager, StagedItem, parsePacingMode, PACING_PRESETS } from './NarrativeStaging';
 import { getEmotionTransition } from './EmotionTransitions';
 
+/**
+ * The items a hook stages: all of them, or what its selector chooses.
+ * Selected once per content change, so an inline selector is fine.
+ */
+function useSelected<T extends EmotionalContent>(items: T[], kind: string, select?: ContentSelector<T>): T[] {
+  const selectRef = useRef(select);
+
+  useEffect(() => {
+    selectRef.current = select;
+  });
+
+  return useMemo(
+    () => (selectRef.current ? selectRef.current(query(items, kind)).toArray() : items),
+    [items, kind]
+  );
+}
+
 /**
  * Galaxy of Wishes Staging Hook
  * One wish at a time, with emotional pauses
  */
-export function useWishStaging(wishes: Wish[]) {
+export function useWishStaging(content: Wish[], select?: ContentSelector<Wish>) {
+  const wishes = useSelected(content, 'wishes', select);
   const [currentWish, setCurrentWish] = useState<Wish | null>(null);
   const [isRevealing, setIsRevealing] = useState(false);
   const [completedCount, setCompletedCount] = useState(0);
@@ -33,6 +55,7 @@ export function useWishStaging(wishes: Wish[]) {
     stager.on('enter', (staged) => {
       setCurrentWish(staged.item);
       setIsRevealing(true);
+      markRevealed('wishes', staged.item);
     });
 
     stager.on('dwell', (staged) => {
@@ -83,7 +106,8 @@ export function useWishStaging(wishes: Wish[]) {
  * Apology Garden Staging Hook
  * Soft petal fade entry before text appears
  */
-export function useApologyStaging(apologies: Apology[]) {
+export function useApologyStaging(content: Apology[], select?: ContentSelector<Apology>) {
+  const apologies = useSelected(content, 'apologies', select);
   const [currentApology, setCurrentApology] = useState<Apology | null>(null);
   const [petalCount, setPetalCount] = useState(0);
   const [rainIntensity, setRainIntensity] = useState(0);
@@ -104,6 +128,7 @@ export function useApologyStaging(apologies: Apology[]) {
     // Stage 2: Text reveal (after environment settles)
     const textTimer = setTimeout(() => {
       setIsTextVisible(true);
+      markRevealed('apologies', apology);
     }, 800);
 
     // Stage 3: Auto-advance after pause duration
@@ -137,7 +162,8 @@ export function useApologyStaging(apologies: Apology[]) {
  * Promises Chamber Staging Hook
  * Orb glow buildup before text reveal
  */
-export function usePromiseStaging(promises: Promise[]) {
+export function usePromiseStaging(content: Promise[], select?: ContentSelector<Promise>) {
+  const promises = useSelected(content, 'promises', select);
   const [visiblePromises, setVisiblePromises] = useState<Set<number>>(new Set());
   const [revealedPromises, setRevealedPromises] = useState<Set<number>>(new Set());
   const [glowingOrb, setGlowingOrb] = useState<number | null>(null);
@@ -164,6 +190,7 @@ export function usePromiseStaging(promises: Promise[]) {
     setTimeout(() => {
       setRevealedPromises(prev => new Set([...prev, index]));
       setGlowingOrb(null);
+      markRevealed('promises', promise);
     }, promise.reveal_delay || 1000);
   }, [promises]);
 
@@ -181,7 +208,8 @@ export function usePromiseStaging(promises: Promise[]) {
  * Melody Sphere Staging Hook
  * Song intro stages emotionally before lyrics begin
  */
-export function useSongStaging(songs: Song[]) {
+export function useSongStaging(content: Song[], select?: ContentSelector<Song>) {
+  const songs = useSelected(content, 'songs', select);
   const [activeSong, setActiveSong] = useState<Song | null>(null);
   const [currentLyric, setCurrentLyric] = useState<any>(null);
   const [isIntroPlaying, setIsIntroPlaying] = useState(false);
@@ -193,6 +221,7 @@ export function useSongStaging(songs: Song[]) {
     setActiveSong(song);
     setIsIntroPlaying(true);
     setCurrentLyric(null);
+    markRevealed('songs', song);
 
     const transition = getEmotionTransition(song.emotion);
 
@@ -253,7 +282,8 @@ export function useSongStaging(songs: Song[]) {
  * Word Constellation Staging Hook
  * Category waves with grouped reveal (emotional horizon effect)
  */
-export function useWordConstellationStaging(words: Word[], categories: string[]) {
+export function useWordConstellationStaging(content: Word[], categories: string[], select?: ContentSelector<Word>) {
+  const words = useSelected(content, 'words', select);
   const [visibleCategories, setVisibleCategories] = useState<Set<string>>(new Set());
   const [visibleWords, setVisibleWords] = useState<Set<number>>(new Set());
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
@@ -279,6 +309,7 @@ export function useWordConstellationStaging(words: Word[], categories: string[])
       items.forEach((word, index) => {
         setTimeout(() => {
           setVisibleWords(prev => new Set([...prev, word.id as number]));
+          markRevealed('words', word);
         }, index * 300);
       });
     });
@@ -312,14 +343,18 @@ export function useWordConstellationStaging(words: Word[], categories: string[])
  * Generic content stager hook
  * For custom scenes or future expansion
  */
-export function useContentStaging<T extends { id: number | string; timing?: string | number }>(
-  content: T[],
+export function useContentStaging<T extends EmotionalContent>(
+  items: T[],
   options?: {
     autoStart?: boolean;
+    kind?: string; // Content kind, to record reveals and query unrevealed()
+    select?: ContentSelector<T>;
     onEnter?: (item: T) => void;
     onExit?: (item: T) => void;
   }
 ) {
+  const kind = options?.kind;
+  const content = useSelected(items, kind ?? 'content', options?.select);
   const [currentItem, setCurrentItem] = useState<T | null>(null);
   const [visibleItems, setVisibleItems] = useState<T[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -328,12 +363,13 @@ export function useContentStaging<T extends { id: number | string; timing?: stri
   useEffect(() => {
     if (content.length === 0) return;
 
-    const stager = new NarrativeStager(content as any);
-    stagerRef.current = stager as any;
+    const stager = new NarrativeStager(content);
+    stagerRef.current = stager;
 
     stager.on('enter', (staged) => {
       setCurrentItem(staged.item);
       setVisibleItems(prev => [...prev, staged.item]);
+      if (kind) markRevealed(kind, staged.item);
       options?.onEnter?.(staged.item);
     });
 
@@ -350,7 +386,7 @@ export function useContentStaging<T extends { id: number | string; timing?: stri
     return () => {
       stager.dispose();
     };
-  }, [content, options]);
+  }, [content, options, kind]);
 
   const start = useCallback(() => {
     stagerRef.current?.start();
@@ -10,6 +10,7 @@
 
 import * as THREE from 'three';
 import { gsap } from 'gsap';
+import type { Scene } from './SceneManager';
 
 /**
  * Transition types
@@ -147,6 +148,40 @@ export interface TransitionConfig {
   };
 }
 
+/**
+ * Which half of a veiled scene change a run draws:
+ * cover hides the old scene, reveal uncovers the new one
+ */
+export type TransitionStage = 'cover' | 'reveal';
+
+/**
+ * One animation frame of a running transition (for renderers)
+ */
+export interface TransitionFrame {
+  from: string;
+  to: string;
+  config: TransitionConfig;
+  stage: TransitionStage;
+  progress: number; // 0-1 within the stage
+}
+
+/**
+ * Interpolate between two emotions' lighting (unknown emotions → serenity)
+ */
+export function interpolateLighting(fromEmotion: string, toEmotion: string, t: number): EmotionLighting {
+  const from = EMOTION_LIGHTING[fromEmotion] || EMOTION_LIGHTING.serenity;
+  const to = EMOTION_LIGHTING[toEmotion] || EMOTION_LIGHTING.serenity;
+  const lerpColor = (a: string, b: string) => `#${new THREE.Color(a).lerp(new THREE.Color(b), t).getHexString()}`;
+
+  return {
+    ambient: lerpColor(from.ambient, to.ambient),
+    directional: lerpColor(from.directional, to.directional),
+    intensity: THREE.MathUtils.lerp(from.intensity, to.intensity, t),
+    fogColor: lerpColor(from.fogColor, to.fogColor),
+    fogDensity: THREE.MathUtils.lerp(from.fogDensity, to.fogDensity, t),
+  };
+}
+
 /**
  * Scene transition orchestrator
  */
@@ -154,6 +189,17 @@ export class SceneTransitionManager {
   private currentScene: string | null = null;
   private isTransitioning: boolean = false;
   private onCompleteCallback: (() => void) | null = null;
+  private listeners: Set<(frame: TransitionFrame) => void> = new Set();
+
+  /**
+   * Receive every frame of every transition; returns an unsubscribe function
+   */
+  subscribe(listener: (frame: TransitionFrame) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
 
   /**
    * Execute a transition between scenes
@@ -166,6 +212,7 @@ export class SceneTransitionManager {
       scene?: THREE.Scene;
       camera?: THREE.Camera;
       onProgress?: (progress: number) => void;
+      stage?: TransitionStage;
     }
   ): Promise<void> {
     if (this.isTransitioning) {
@@ -178,35 +225,47 @@ export class SceneTransitionManager {
 
     console.log(`[SceneTransitions] ${fromScene} → ${toScene} (${config.type})`);
 
+    // Fan progress out to subscribers as well as the caller
+    const stage = options?.stage || 'cover';
+    const emit = (progress: number) => {
+      options?.onProgress?.(progress);
+      this.listeners.forEach(listener => listener({ from: fromScene, to: toScene, config, stage, progress }));
+    };
+    const run = { ...options, onProgress: emit };
+
     try {
+      emit(0);
+
       // Execute transition based on type
       switch (config.type) {
         case 'crossfade':
-          await this.executeCrossfade(config, options);
+          await this.executeCrossfade(config, run);
           break;
         case 'dissolve':
-          await this.executeDissolve(config, options);
+          await this.executeDissolve(config, run);
           break;
         case 'nebula-bloom':
-          await this.executeNebulaBloom(config, options);
+          await this.executeNebulaBloom(config, run);
           break;
         case 'ripple-wipe':
-          await this.executeRippleWipe(config, options);
+          await this.executeRippleWipe(config, run);
           break;
         case 'particle-morph':
-          await this.executeParticleMorph(config, options);
+          await this.executeParticleMorph(config, run);
           break;
         case 'light-shift':
-          await this.executeLightShift(config, options);
+          await this.executeLightShift(config, run);
           break;
         case 'curtain-fall':
-          await this.executeCurtainFall(config, options);
+          await this.executeCurtainFall(config, run);
           break;
         case 'heart-pulse':
-          await this.executeHeartPulse(config, options);
+          await this.executeHeartPulse(config, run);
           break;
       }
 
+      emit(1);
+
       // Apply lighting transition if specified
       if (config.lighting && options?.scene) {
         await this.transitionLighting(
@@ -391,8 +450,20 @@ export class SceneTransitionManager {
     config: TransitionConfig,
     options?: { scene?: THREE.Scene; onProgress?: (progress: number) => void }
   ): Promise<void> {
-    // Handled by transitionLighting method
-    return Promise.resolve();
+    // Colors are handled by transitionLighting; this only paces the shift
+    return new Promise((resolve) => {
+      const obj = { shift: 0 };
+
+      gsap.to(obj, {
+        shift: 1,
+        duration: config.duration,
+        ease: config.easing,
+        onUpdate: () => {
+          options?.onProgress?.(obj.shift);
+        },
+        onComplete: resolve,
+      });
+    });
   }
 
   /**
@@ -482,9 +553,6 @@ export class SceneTransitionManager {
     duration: number,
     scene: THREE.Scene
   ): Promise<void> {
-    const fromLighting = EMOTION_LIGHTING[fromEmotion] || EMOTION_LIGHTING.serenity;
-    const toLighting = EMOTION_LIGHTING[toEmotion] || EMOTION_LIGHTING.serenity;
-
     return new Promise((resolve) => {
       const obj = { t: 0 };
 
@@ -493,47 +561,23 @@ export class SceneTransitionManager {
         duration,
         ease: 'power1.inOut',
         onUpdate: () => {
-          // Lerp colors
-          const ambientColor = new THREE.Color(fromLighting.ambient).lerp(
-            new THREE.Color(toLighting.ambient),
-            obj.t
-          );
-          const directionalColor = new THREE.Color(fromLighting.directional).lerp(
-            new THREE.Color(toLighting.directional),
-            obj.t
-          );
-          const fogColor = new THREE.Color(fromLighting.fogColor).lerp(
-            new THREE.Color(toLighting.fogColor),
-            obj.t
-          );
+          const lighting = interpolateLighting(fromEmotion, toEmotion, obj.t);
 
           // Apply to scene lights
           scene.traverse((child) => {
             if (child instanceof THREE.AmbientLight) {
-              child.color.copy(ambientColor);
-              child.intensity = THREE.MathUtils.lerp(
-                fromLighting.intensity * 0.5,
-                toLighting.intensity * 0.5,
-                obj.t
-              );
+              child.color.set(lighting.ambient);
+              child.intensity = lighting.intensity * 0.5;
             } else if (child instanceof THREE.DirectionalLight) {
-              child.color.copy(directionalColor);
-              child.intensity = THREE.MathUtils.lerp(
-                fromLighting.intensity,
-                toLighting.intensity,
-                obj.t
-              );
+              child.color.set(lighting.directional);
+              child.intensity = lighting.intensity;
             }
           });
 
           // Apply fog
           if (scene.fog && scene.fog instanceof THREE.FogExp2) {
-            scene.fog.color.copy(fogColor);
-            scene.fog.density = THREE.MathUtils.lerp(
-              fromLighting.fogDensity,
-              toLighting.fogDensity,
-              obj.t
-            );
+            scene.fog.color.set(lighting.fogColor);
+            scene.fog.density = lighting.fogDensity;
           }
         },
         onComplete: resolve,
@@ -675,6 +719,64 @@ export const TRANSITION_PRESETS: Record<string, TransitionConfig> = {
   },
 };
 
+/**
+ * Natural length of each transition type (seconds)
+ */
+export const TRANSITION_DURATIONS: Record<TransitionType, number> = {
+  'crossfade': 2,
+  'dissolve': 3,
+  'nebula-bloom': 4,
+  'ripple-wipe': 2.5,
+  'particle-morph': 3.5,
+  'light-shift': 1.5,
+  'curtain-fall': 3,
+  'heart-pulse': 5,
+};
+
+/**
+ * Transition that suits arriving in each emotion
+ */
+export const EMOTION_TRANSITIONS: Record<string, TransitionType> = {
+  awe: 'nebula-bloom',
+  joy: 'ripple-wipe',
+  nostalgia: 'dissolve',
+  wonder: 'particle-morph',
+  tenderness: 'curtain-fall',
+  serenity: 'light-shift',
+  elation: 'ripple-wipe',
+  completion: 'heart-pulse',
+};
+
+/**
+ * Choose the transition between two scenes.
+ * `requested` may name a preset or a transition type (e.g. from a journey
+ * edge); otherwise the destination's emotion decides. Lighting always
+ * travels from one scene's emotion to the other's unless a preset says so.
+ */
+export function resolveTransition(from: Scene | undefined, to: Scene, requested?: string): TransitionConfig {
+  const lighting = { from: from?.emotion || to.emotion, to: to.emotion };
+
+  if (requested && TRANSITION_PRESETS[requested]) {
+    const preset = TRANSITION_PRESETS[requested];
+    return { ...preset, lighting: preset.lighting || lighting };
+  }
+
+  if (requested && !(requested in TRANSITION_DURATIONS)) {
+    console.warn(`[SceneTransitions] Unknown transition '${requested}', choosing by emotion`);
+  }
+
+  const type = requested && requested in TRANSITION_DURATIONS
+    ? requested as TransitionType
+    : EMOTION_TRANSITIONS[to.emotion] || 'crossfade';
+
+  return {
+    type,
+    duration: TRANSITION_DURATIONS[type],
+    easing: 'power1.inOut',
+    lighting,
+  };
+}
+
 // Singleton instance
 export const sceneTransitionManager = new SceneTransitionManager();
 
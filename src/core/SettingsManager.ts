@@ -9,6 +9,7 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { PacingMode } from './NarrativeStaging';
 
 export type QualityPreset = 'low' | 'medium' | 'high' | 'ultra';
 
@@ -46,6 +47,12 @@ export interface HapticSettings {
   intensity: number; // 0-1
 }
 
+export interface KioskSettings {
+  enabled: boolean;
+  targetRuntime: number; // Seconds for one loop of the journey (0 = content's own pacing)
+  pacing: PacingMode | 'auto'; // Preset reveals follow ('auto' = from each item's timing)
+}
+
 export type DeviceTier = 'low' | 'mid' | 'high' | 'ultra';
 
 interface SettingsStore {
@@ -61,6 +68,15 @@ interface SettingsStore {
   // Haptic settings (Phase 4)
   haptics: HapticSettings;
 
+  // Kiosk / cinema auto-play
+  kiosk: KioskSettings;
+
+  // Content and UI language: a BCP 47 tag, or 'auto' to follow the device
+  locale: string;
+
+  // Replay seed for everything random ('' for a fresh universe each visit)
+  seed: string;
+
   // Device detection
   isMobile: boolean;
   isLowEnd: boolean;
@@ -70,6 +86,9 @@ interface SettingsStore {
   setQuality: (preset: QualityPreset) => void;
   setAccessibility: (key: keyof AccessibilitySettings, value: boolean) => void;
   setHaptics: (settings: Partial<HapticSettings>) => void;
+  setKiosk: (settings: Partial<KioskSettings>) => void;
+  setLocale: (locale: string) => void;
+  setSeed: (seed: string) => void;
   detectDeviceCapabilities: () => void;
 }
 
@@ -222,6 +241,16 @@ const useSettingsStore = create<SettingsStore>()(
         intensity: 1.0,
       },
 
+      kiosk: {
+        enabled: false,
+        targetRuntime: 0,
+        pacing: 'auto',
+      },
+
+      locale: 'auto',
+
+      seed: '',
+
       isMobile: false,
       isLowEnd: false,
       deviceTier: 'high',
@@ -257,6 +286,29 @@ const useSettingsStore = create<SettingsStore>()(
         console.log(`[SettingsManager] Haptics updated:`, settings);
       },
 
+      setKiosk: (settings: Partial<KioskSettings>) => {
+        set({
+          kiosk: {
+            ...get().kiosk,
+            ...settings,
+          },
+        });
+
+        console.log(`[SettingsManager] Kiosk updated:`, settings);
+      },
+
+      setLocale: (locale: string) => {
+        set({ locale });
+
+        console.log(`[SettingsManager] Locale set to: ${locale}`);
+      },
+
+      setSeed: (seed: string) => {
+        set({ seed: seed.trim() });
+
+        console.log(`[SettingsManager] Replay seed set to: ${seed.trim() || '(fresh each visit)'}`);
+      },
+
       detectDeviceCapabilities: () => {
         const { isMobile, isLowEnd, deviceTier, recommendedQuality } = detectDevice();
 
@@ -9,6 +9,7 @@
  */
 
 import gsap from 'gsap';
+import { random } from './Random';
 
 export type EaseType = 'power' | 'sine' | 'expo' | 'circ' | 'back' | 'elastic';
 export type EaseDirection = 'in' | 'out' | 'inOut';
@@ -221,6 +222,7 @@ export function particleBurst(
   color: string = '#FFB6C1'
 ): void {
   const particles: HTMLElement[] = [];
+  const rng = random('transitions:burst');
 
   for (let i = 0; i < count; i++) {
     const particle = document.createElement('div');
@@ -237,7 +239,7 @@ export function particleBurst(
     particles.push(particle);
 
     const angle = (i / count) * Math.PI * 2;
-    const distance = 100 + Math.random() * 100;
+    const distance = rng.range(100, 200);
     const x = Math.cos(angle) * distance;
     const y = Math.sin(angle) * distance;
 
@@ -245,7 +247,7 @@ export function particleBurst(
       x,
       y,
       opacity: 0,
-      duration: 1 + Math.random(),
+      duration: rng.range(1, 2),
       ease: 'power2.out',
       onComplete: () => {
         particle.remove();
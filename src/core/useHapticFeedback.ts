@@ -9,6 +9,7 @@
  */
 
 import { useCallback, useEffect } from 'react';
+import journeyEvents from './JourneyEvents';
 
 /**
  * Haptic feedback patterns
@@ -103,6 +104,7 @@ export function useHapticFeedback(config?: Partial<HapticConfig>) {
       // Trigger vibration
       try {
         navigator.vibrate(duration);
+        journeyEvents.emit('haptic', { pattern });
       } catch (error) {
         console.warn('[Haptic] Vibration failed:', error);
       }
@@ -9,6 +9,7 @@
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react';
+import journeyEvents from './JourneyEvents';
 
 /**
  * Gesture types
@@ -174,6 +175,7 @@ export function useTouchGestures(
             };
 
             handlers.onLongPress!(event);
+            journeyEvents.emit('gesture', { gesture: 'long-press', duration: event.duration });
           }
         }, mergedConfig.longPressDelay);
 
@@ -295,6 +297,7 @@ export function useTouchGestures(
         };
 
         handlers.onDragEnd(event);
+        journeyEvents.emit('gesture', { gesture: 'drag', duration });
       } else if (
         distance > mergedConfig.swipeThreshold &&
         velocity > mergedConfig.swipeVelocityThreshold &&
@@ -314,6 +317,7 @@ export function useTouchGestures(
         };
 
         handlers.onSwipe(event);
+        journeyEvents.emit('gesture', { gesture: 'swipe', direction, duration });
       } else if (distance < mergedConfig.tapThreshold && handlers.onTap) {
         // Tap
         const event: GestureEvent = {
@@ -323,6 +327,7 @@ export function useTouchGestures(
         };
 
         handlers.onTap(event);
+        journeyEvents.emit('gesture', { gesture: 'tap', duration });
       }
 
       // Reset state
@@ -0,0 +1,81 @@
+/**
+ * CrescendoIndicator.tsx
+ *
+ * A quiet ring that fills as the journey deepens.
+ * The finale opens when it is whole.
+ */
+
+import { motion, AnimatePresence } from 'framer-motion';
+import useSceneStore from '../core/SceneManager';
+import { useLocale } from '../core/Localization';
+import './CrescendoIndicator.css';
+
+const RING_RADIUS = 18;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+const CrescendoIndicator: React.FC = () => {
+  const {
+    journey,
+    scenes,
+    currentScene,
+    crescendo,
+    crescendoProgress,
+    isFinaleUnlocked,
+    lockedScene,
+  } = useSceneStore();
+  const { t } = useLocale();
+
+  // Nothing to earn, or she's not on the path yet / already arrived
+  if (!journey || !crescendo) return null;
+  if (currentScene === journey.getStart() || journey.isGated(currentScene)) return null;
+
+  const percent = Math.round(crescendoProgress * 100);
+  const lockedName = lockedScene ? scenes.get(lockedScene)?.name : null;
+
+  return (
+    <div className={`crescendo-indicator ${isFinaleUnlocked ? 'unlocked' : ''}`}>
+      <AnimatePresence>
+        {lockedName && (
+          <motion.p
+            key={lockedScene}
+            className="crescendo-notice"
+            role="status"
+            initial={{ opacity: 0, x: -10 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            {t('crescendo.locked', { scene: lockedName })}
+          </motion.p>
+        )}
+      </AnimatePresence>
+
+      <div
+        className="crescendo-ring"
+        role="progressbar"
+        aria-label={t('crescendo.label')}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        title={isFinaleUnlocked ? t('crescendo.unlocked') : t('crescendo.progress', { percent })}
+      >
+        <svg width="48" height="48" viewBox="0 0 48 48">
+          <circle className="crescendo-ring-track" cx="24" cy="24" r={RING_RADIUS} />
+          <motion.circle
+            className="crescendo-ring-fill"
+            cx="24"
+            cy="24"
+            r={RING_RADIUS}
+            strokeDasharray={RING_CIRCUMFERENCE}
+            initial={false}
+            animate={{ strokeDashoffset: RING_CIRCUMFERENCE * (1 - crescendoProgress) }}
+            transition={{ duration: 1.2, ease: 'easeOut' }}
+          />
+        </svg>
+        <span className="crescendo-ring-label">{isFinaleUnlocked ? '♥' : `${percent}%`}</span>
+      </div>
+    </div>
+  );
+};
+
+export default CrescendoIndicator;
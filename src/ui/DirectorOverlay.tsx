@@ -0,0 +1,262 @@
+/**
+ * DirectorOverlay.tsx
+ *
+ * The director's chair: jump between scenes, watch the loaders and the
+ * frame rate, and open the finale without earning it.
+ * For building the Loveverse, not for her — opened with ?debug, then
+ * toggled with Ctrl+Shift+D (the shortcut also works in dev builds).
+ */
+
+import { Fragment, useEffect, useRef, useState } from 'react';
+import useSceneStore from '../core/SceneManager';
+import assetLoader from '../core/AssetLoader';
+import contentLoader from '../core/ContentLoader';
+import narrativeBuffer from '../core/NarrativeBuffer';
+import audioManager from '../core/AudioManager';
+import journeyEvents, { exportJourneyEvents } from '../core/JourneyEvents';
+import { getSeed } from '../core/Random';
+import './DirectorOverlay.css';
+
+// How often the loader stats refresh (ms)
+const STATS_INTERVAL = 500;
+
+// Latest journey events listed
+const RECENT_EVENTS = 8;
+
+// Frames kept for the frame-time graph
+const FRAME_SAMPLES = 120;
+
+// One frame at 60 FPS; bars well over it draw as dropped frames (ms)
+const FRAME_BUDGET = 1000 / 60;
+
+// Frame time at the top of the graph (ms)
+const GRAPH_MAX_MS = FRAME_BUDGET * 3;
+
+const GRAPH_WIDTH = 240;
+const GRAPH_HEIGHT = 60;
+
+/**
+ * Was the overlay asked for in the URL?
+ */
+function hasDebugFlag(): boolean {
+  return new URLSearchParams(window.location.search).has('debug');
+}
+
+/**
+ * Live FPS counter and frame-time graph (drawn straight to a canvas)
+ */
+const FrameGraph: React.FC = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const labelRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    const samples: number[] = [];
+    let last = performance.now();
+    let frame = 0;
+
+    const draw = (now: number) => {
+      samples.push(now - last);
+      last = now;
+      if (samples.length > FRAME_SAMPLES) samples.shift();
+
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) {
+        const barWidth = GRAPH_WIDTH / FRAME_SAMPLES;
+        ctx.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT);
+
+        // 60 FPS budget line
+        const budgetY = GRAPH_HEIGHT - (FRAME_BUDGET / GRAPH_MAX_MS) * GRAPH_HEIGHT;
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+        ctx.fillRect(0, budgetY, GRAPH_WIDTH, 1);
+
+        samples.forEach((ms, i) => {
+          const height = Math.min(GRAPH_HEIGHT, (ms / GRAPH_MAX_MS) * GRAPH_HEIGHT);
+          ctx.fillStyle = ms > FRAME_BUDGET * 1.5 ? '#FF6B8B' : '#80F5FF';
+          ctx.fillRect(i * barWidth, GRAPH_HEIGHT - height, Math.max(1, barWidth - 0.5), height);
+        });
+      }
+
+      if (labelRef.current) {
+        const average = samples.reduce((sum, ms) => sum + ms, 0) / samples.length;
+        labelRef.current.textContent = `${Math.round(1000 / average)} FPS · ${average.toFixed(1)} ms`;
+      }
+
+      frame = requestAnimationFrame(draw);
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <div className="director-frames">
+      <span ref={labelRef} className="director-frames-label" />
+      <canvas ref={canvasRef} width={GRAPH_WIDTH} height={GRAPH_HEIGHT} />
+    </div>
+  );
+};
+
+const DirectorOverlay: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(hasDebugFlag);
+  const [, setTick] = useState(0);
+  const {
+    scenes,
+    currentScene,
+    journey,
+    isTransitioning,
+    cleanupManager,
+    crescendo,
+    crescendoProgress,
+    isFinaleUnlocked,
+    setScene,
+  } = useSceneStore();
+
+  // Ctrl+Shift+D, only where the overlay is meant to be reachable
+  useEffect(() => {
+    if (!import.meta.env.DEV && !hasDebugFlag()) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        setIsOpen(prev => !prev);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Loader stats aren't reactive: poll them while open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const interval = window.setInterval(() => setTick(t => t + 1), STATS_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const cleanupStats = cleanupManager?.getStats();
+  const assetStats = assetLoader.getStats();
+  const contentStats = contentLoader.getCacheStats();
+  const mergeConflicts = narrativeBuffer.getConflicts();
+  const audioProgress = audioManager.getLoadProgress();
+  const crescendoState = crescendo?.getState();
+  const recentEvents = journeyEvents.getSink('memory')?.getEvents?.().slice(-RECENT_EVENTS).reverse() || [];
+
+  return (
+    <aside className="director-overlay" aria-label="Director debug overlay">
+      <header className="director-header">
+        <h2>Director</h2>
+        <button className="director-close" onClick={() => setIsOpen(false)} aria-label="Close director overlay">
+          ×
+        </button>
+      </header>
+
+      {/* Scenes */}
+      <section className="director-section">
+        <h3>Scenes {journey && <small>{journey.manifest.name}</small>}</h3>
+        <ul className="director-scenes">
+          {Array.from(scenes.values()).map(scene => (
+            <li key={scene.id}>
+              <button
+                className={`director-scene ${scene.id === currentScene ? 'current' : ''}`}
+                onClick={() => setScene(scene.id)}
+                disabled={isTransitioning || scene.id === currentScene}
+              >
+                <span>{scene.name}</span>
+                <small>
+                  {scene.id}
+                  {journey?.isGated(scene.id) && (isFinaleUnlocked ? ' · open' : ' · locked')}
+                </small>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {/* Crescendo */}
+      <section className="director-section">
+        <h3>Crescendo</h3>
+        {crescendo && crescendoState ? (
+          <>
+            <dl className="director-stats">
+              <dt>Progress</dt><dd>{Math.round(crescendoProgress * 100)}%</dd>
+              <dt>Scenes</dt><dd>{crescendoState.scenesVisited.size}</dd>
+              <dt>Revealed</dt><dd>{crescendoState.contentRevealed}</dd>
+              <dt>Interactions</dt><dd>{crescendoState.interactions}</dd>
+              <dt>Time</dt><dd>{Math.floor(crescendoState.timeSpent)}s</dd>
+            </dl>
+            <button
+              className="director-action"
+              onClick={() => crescendo.forceUnlock()}
+              disabled={isFinaleUnlocked}
+            >
+              {isFinaleUnlocked ? 'Finale unlocked' : 'Force unlock finale'}
+            </button>
+          </>
+        ) : (
+          <p className="director-empty">This journey has no gated scenes</p>
+        )}
+      </section>
+
+      {/* Loaders */}
+      <section className="director-section">
+        <h3>Resources</h3>
+        <dl className="director-stats">
+          <dt>Audio</dt><dd>{Math.round(audioProgress * 100)}% loaded</dd>
+          <dt>Assets</dt><dd>{assetStats.cached} cached · {assetStats.loading} loading</dd>
+          <dt>Content</dt>
+          <dd>{contentStats.size} cached{contentStats.cached.length > 0 && ` (${contentStats.cached.join(', ')})`}</dd>
+          {contentStats.loading.length > 0 && (
+            <><dt>Loading</dt><dd>{contentStats.loading.join(', ')}</dd></>
+          )}
+          <dt>Conflicts</dt>
+          <dd>{mergeConflicts.length}{mergeConflicts.length > 0 && ` (${Array.from(new Set(mergeConflicts.map(c => c.contentType))).join(', ')})`}</dd>
+          <dt>Seed</dt>
+          <dd>{getSeed()}</dd>
+        </dl>
+      </section>
+
+      {/* Current scene's cleanup registry */}
+      <section className="director-section">
+        <h3>Cleanup <small>{currentScene}</small></h3>
+        {cleanupStats ? (
+          <dl className="director-stats">
+            {Object.entries(cleanupStats).map(([kind, entries]) => (
+              <Fragment key={kind}>
+                <dt>{kind}</dt><dd>{entries.length}</dd>
+              </Fragment>
+            ))}
+          </dl>
+        ) : (
+          <p className="director-empty">No cleanup manager yet</p>
+        )}
+      </section>
+
+      {/* Journey events */}
+      <section className="director-section">
+        <h3>Events</h3>
+        <ol className="director-events">
+          {recentEvents.map(event => (
+            <li key={`${event.at}-${event.type}`}>
+              <span>{event.type}</span>
+              <small>{JSON.stringify(event.payload)}</small>
+            </li>
+          ))}
+        </ol>
+        <button className="director-action" onClick={() => exportJourneyEvents()}>
+          Download journal
+        </button>
+      </section>
+
+      {/* Frame rate */}
+      <section className="director-section">
+        <h3>Frames</h3>
+        <FrameGraph />
+      </section>
+    </aside>
+  );
+};
+
+export default DirectorOverlay;
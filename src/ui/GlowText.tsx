@@ -2,10 +2,12 @@
  * GlowText.tsx
  *
  * Text that radiates emotion.
- * Words become light.
+ * Words become light. String children may carry rich-text markup.
  */
 
 import { motion, type HTMLMotionProps } from 'framer-motion';
+import { useLocale } from '../core/Localization';
+import RichText from './RichText';
 import '../styles/GlowText.css';
 
 interface GlowTextProps extends Omit<HTMLMotionProps<'p'>, 'children'> {
@@ -22,6 +24,9 @@ const GlowText: React.FC<GlowTextProps> = ({
   animated = false,
   ...props
 }) => {
+  // Follows the locale; a dir prop still wins
+  const { dir } = useLocale();
+
   const getGlowIntensity = () => {
     switch (intensity) {
       case 'soft':
@@ -43,6 +48,7 @@ const GlowText: React.FC<GlowTextProps> = ({
   return (
     <motion.p
       className="glow-text"
+      dir={dir}
       style={glowStyle}
       animate={
         animated
@@ -66,7 +72,7 @@ const GlowText: React.FC<GlowTextProps> = ({
       }
       {...props}
     >
-      {children}
+      {typeof children === 'string' ? <RichText text={children} /> : children}
     </motion.p>
   );
 };
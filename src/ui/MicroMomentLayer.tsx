@@ -0,0 +1,48 @@
+/**
+ * MicroMomentLayer.tsx
+ *
+ * Where micro-moments appear over the scene: glowing words,
+ * or a burst of light with the words at its heart.
+ */
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { useMicroMomentStore } from '../core/MicroMoments';
+import GlowText from './GlowText';
+import './MicroMomentLayer.css';
+
+// Sparks in a burst
+const BURST_SPARKS = 16;
+
+const MicroMomentLayer: React.FC = () => {
+  const active = useMicroMomentStore(state => state.active);
+
+  return (
+    <div className="micro-moment-layer" role="status" aria-live="polite">
+      <AnimatePresence>
+        {active && (
+          <motion.div
+            key={active.id}
+            className={`micro-moment ${active.display}`}
+            initial={{ opacity: 0, scale: 0.92 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, y: -12 }}
+            transition={{ duration: 1.2, ease: 'easeOut' }}
+          >
+            {active.display === 'burst' && (
+              <div className="micro-moment-burst" aria-hidden="true">
+                {Array.from({ length: BURST_SPARKS }, (_, i) => (
+                  <span key={i} style={{ '--spark-angle': `${(360 / BURST_SPARKS) * i}deg` } as React.CSSProperties} />
+                ))}
+              </div>
+            )}
+            <GlowText intensity="strong" animated>
+              {active.text}
+            </GlowText>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default MicroMomentLayer;
@@ -0,0 +1,47 @@
+/**
+ * RichText.tsx
+ *
+ * Content text with its markup brought to life: softer words,
+ * stronger words, and words that glow in the color of a feeling.
+ * Rendered as React elements only, never as HTML.
+ */
+
+import { useMemo } from 'react';
+import { highlightColor, parseRichText, type RichNode } from '../core/RichText';
+import './RichText.css';
+
+interface RichTextProps {
+  text: string;
+}
+
+const renderNodes = (nodes: RichNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'break':
+        return <br key={index} />;
+      case 'emphasis':
+        return <em key={index} className="rich-emphasis">{renderNodes(node.children)}</em>;
+      case 'strong':
+        return <strong key={index} className="rich-strong">{renderNodes(node.children)}</strong>;
+      case 'highlight':
+        return (
+          <span
+            key={index}
+            className="rich-highlight"
+            data-emotion={node.emotion}
+            style={{ '--highlight-color': highlightColor(node.emotion) } as React.CSSProperties}
+          >
+            {renderNodes(node.children)}
+          </span>
+        );
+    }
+  });
+
+const RichText: React.FC<RichTextProps> = ({ text }) => {
+  const nodes = useMemo(() => parseRichText(text), [text]);
+  return <>{renderNodes(nodes)}</>;
+};
+
+export default RichText;
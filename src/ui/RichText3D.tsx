@@ -0,0 +1,31 @@
+/**
+ * RichText3D.tsx
+ *
+ * Content text with its markup, floating in a 3D scene: highlighted
+ * words take their feeling's color. Emphasis reads as plain text here;
+ * one drei Text has a single font style.
+ */
+
+import { useMemo } from 'react';
+import { Text, type TextProps } from '@react-three/drei';
+import type { Mesh } from 'three';
+import { parseRichText, toTextRanges } from '../core/RichText';
+
+type RichText3DProps = Omit<TextProps, 'children' | 'color'> & {
+  text: string;
+  color?: string;
+  ref?: React.Ref<Mesh>;
+};
+
+const RichText3D: React.FC<RichText3DProps> = ({ text, color = '#FFFFFF', ref, ...props }) => {
+  const { text: plain, colorRanges } = useMemo(() => toTextRanges(parseRichText(text), color), [text, color]);
+
+  // colorRanges is troika's; drei Text passes it through without typing it
+  return (
+    <Text ref={ref} color={color} {...props} {...{ colorRanges }}>
+      {plain}
+    </Text>
+  );
+};
+
+export default RichText3D;
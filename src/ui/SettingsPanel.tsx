@@ -12,6 +12,8 @@ import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import useSettingsStore, { QualityPreset } from '../core/SettingsManager';
 import audioManager from '../core/AudioManager';
+import { LOCALES, useLocale } from '../core/Localization';
+import { getSeed } from '../core/Random';
 import './SettingsPanel.css';
 
 interface SettingsPanelProps {
@@ -27,10 +29,17 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
     setAccessibility,
     haptics,
     setHaptics,
+    kiosk,
+    setKiosk,
+    locale,
+    setLocale,
+    seed,
+    setSeed,
     isMobile,
     isLowEnd,
     deviceTier,
   } = useSettingsStore();
+  const { t } = useLocale();
 
   const [localVolume, setLocalVolume] = useState(1.0);
 
@@ -144,6 +153,28 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
                 </div>
               </section>
 
+              {/* Language Section */}
+              <section className="settings-section">
+                <h3 className="settings-section-title">{t('settings.language')}</h3>
+
+                <div className="settings-group">
+                  <select
+                    id="locale-select"
+                    className="settings-select"
+                    value={locale}
+                    onChange={(e) => setLocale(e.target.value)}
+                    aria-label={t('settings.language')}
+                  >
+                    <option value="auto">{t('settings.language.auto')}</option>
+                    {Object.entries(LOCALES).map(([code, info]) => (
+                      <option key={code} value={code} lang={code} dir={info.dir}>
+                        {info.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </section>
+
               {/* Accessibility Section */}
               <section className="settings-section">
                 <h3 className="settings-section-title">Accessibility</h3>
@@ -285,6 +316,70 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
                 </section>
               )}
 
+              {/* Kiosk Section */}
+              <section className="settings-section">
+                <h3 className="settings-section-title">Kiosk Mode</h3>
+
+                <div className="settings-group">
+                  <label className="settings-toggle">
+                    <input
+                      type="checkbox"
+                      checked={kiosk.enabled}
+                      onChange={(e) => setKiosk({ enabled: e.target.checked })}
+                    />
+                    <span className="settings-toggle-slider" />
+                    <span className="settings-toggle-label">
+                      Auto-Play
+                      <small>Reveal every scene hands-free and loop after the finale</small>
+                    </span>
+                  </label>
+                </div>
+
+                {kiosk.enabled && (
+                  <div className="settings-group">
+                    <label htmlFor="kiosk-runtime-slider" className="settings-label">
+                      Loop Length: {kiosk.targetRuntime > 0 ? `${Math.round(kiosk.targetRuntime / 60)} min` : 'Natural'}
+                    </label>
+                    <input
+                      id="kiosk-runtime-slider"
+                      type="range"
+                      min="0"
+                      max="60"
+                      step="5"
+                      value={kiosk.targetRuntime / 60}
+                      onChange={(e) => setKiosk({ targetRuntime: parseInt(e.target.value, 10) * 60 })}
+                      className="settings-slider"
+                      aria-label="Kiosk loop length in minutes"
+                    />
+                  </div>
+                )}
+              </section>
+
+              {/* Replay Section */}
+              <section className="settings-section">
+                <h3 className="settings-section-title">Replay</h3>
+
+                <div className="settings-group">
+                  <label htmlFor="seed-input" className="settings-label">
+                    Replay Seed
+                  </label>
+                  <input
+                    key={seed}
+                    id="seed-input"
+                    type="text"
+                    className="settings-input"
+                    defaultValue={seed}
+                    placeholder={getSeed()}
+                    spellCheck={false}
+                    onBlur={(e) => setSeed(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  />
+                  <p className="settings-help">
+                    The same seed replays the same stars, petals and picks. Leave empty for a fresh universe each visit.
+                  </p>
+                </div>
+              </section>
+
               {/* Keyboard Shortcuts */}
               <section className="settings-section">
                 <h3 className="settings-section-title">Keyboard Shortcuts</h3>
@@ -320,7 +415,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
             {/* Footer */}
             <footer className="settings-footer">
               <p className="settings-footer-text">
-                Made with love for Thanishka
+                {t('settings.footer')}
               </p>
             </footer>
           </motion.div>
@@ -0,0 +1,101 @@
+/**
+ * TransitionVeil.tsx
+ *
+ * The veil drawn between scenes.
+ * Shape follows the transition type; color travels from one emotion's
+ * light to the next.
+ */
+
+import { useEffect, useRef } from 'react';
+import sceneTransitionManager, {
+  interpolateLighting,
+  type TransitionFrame,
+  type TransitionType,
+} from '../core/SceneTransitions';
+import './TransitionVeil.css';
+
+/**
+ * How each transition type hides the screen at a given coverage (0-1)
+ */
+function veilShape(type: TransitionType, coverage: number, revealing: boolean): Partial<CSSStyleDeclaration> {
+  switch (type) {
+    case 'dissolve':
+      return { opacity: `${coverage}`, backdropFilter: `blur(${coverage * 12}px)` };
+    case 'nebula-bloom':
+      return { opacity: `${coverage}`, transform: `scale(${1.6 - 0.6 * coverage})` };
+    case 'ripple-wipe':
+      return { clipPath: `circle(${coverage * 75}% at 50% 50%)` };
+    case 'particle-morph':
+      return { opacity: `${coverage}`, backdropFilter: `blur(${coverage * 6}px) saturate(${1 + coverage})` };
+    case 'curtain-fall':
+      // Falls from the top, then keeps falling to uncover
+      return {
+        clipPath: revealing
+          ? `inset(${(1 - coverage) * 100}% 0 0 0)`
+          : `inset(0 0 ${(1 - coverage) * 100}% 0)`,
+      };
+    case 'heart-pulse':
+      return { clipPath: `circle(${coverage * 75}% at 50% 50%)` };
+    case 'crossfade':
+    case 'light-shift':
+    default:
+      return { opacity: `${coverage}` };
+  }
+}
+
+const TransitionVeil: React.FC = () => {
+  const veilRef = useRef<HTMLDivElement>(null);
+  const heartRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    // Drawn straight onto the DOM: no React render per frame
+    return sceneTransitionManager.subscribe((frame: TransitionFrame) => {
+      const veil = veilRef.current;
+      if (!veil) return;
+
+      const { config, stage, progress } = frame;
+      const revealing = stage === 'reveal';
+      const coverage = revealing ? 1 - progress : progress;
+
+      if (revealing && progress >= 1) {
+        veil.style.display = 'none';
+        return;
+      }
+
+      // Lighting travels across the whole transition, not each half
+      const t = revealing ? 0.5 + progress * 0.5 : progress * 0.5;
+      const lighting = interpolateLighting(
+        config.lighting?.from || 'serenity',
+        config.lighting?.to || 'serenity',
+        t
+      );
+
+      veil.style.display = 'block';
+      veil.dataset.type = config.type;
+      veil.style.setProperty('--veil-ambient', lighting.ambient);
+      veil.style.setProperty('--veil-directional', lighting.directional);
+      veil.style.setProperty('--veil-intensity', `${lighting.intensity}`);
+
+      Object.assign(veil.style, {
+        opacity: '1',
+        transform: 'none',
+        clipPath: 'none',
+        backdropFilter: 'none',
+        ...veilShape(config.type, coverage, revealing),
+      });
+
+      if (heartRef.current) {
+        heartRef.current.style.transform = `translate(-50%, -50%) scale(${0.5 + coverage * 5})`;
+        heartRef.current.style.opacity = `${coverage}`;
+      }
+    });
+  }, []);
+
+  return (
+    <div ref={veilRef} className="transition-veil" aria-hidden="true">
+      <span ref={heartRef} className="transition-veil-heart">♥</span>
+    </div>
+  );
+};
+
+export default TransitionVeil;
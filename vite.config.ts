@@ -1,10 +1,296 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import fs from 'node:fs'
+import path from 'node:path'
+import { createHash } from 'node:crypto'
+import { fileURLToPath } from 'node:url'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import {
+  formatContentReport,
+  parseContentFile,
+  validateContent,
+  validateProfile,
+  validateStrings,
+  type ContentReport,
+} from './src/core/ContentSchema'
+import {
+  CONTENT_DIR,
+  CONTENT_MANIFEST_PATH,
+  CONTENT_UPDATE_EVENT,
+  type ContentManifest,
+  type ContentUpdate,
+} from './src/core/ContentTypes'
+import {
+  getProfileTokens,
+  profileTokens,
+  type PersonalizationProfile,
+  type TokenValues,
+} from './src/core/Personalization'
+
+const ROOT = fileURLToPath(new URL('.', import.meta.url))
+const DATA_DIR = path.join(ROOT, 'src/data')
+const STRINGS_DIR = path.join(DATA_DIR, 'strings')
+const PROFILE_FILE = path.join(DATA_DIR, 'profile.json')
+
+const PLUGIN_NAME = 'loveverse-content'
+const MOCK_API_PATH = '/__mock-api'
+
+interface LoadedContent {
+  key: string // Manifest key: the file name without .json (wishes, wishes.hi)
+  report: ContentReport
+  data: unknown
+}
+
+const contentHash = (source: string) => createHash('sha256').update(source).digest('hex').slice(0, 8)
+
+const readJSON = (file: string): unknown => JSON.parse(fs.readFileSync(file, 'utf-8'))
+
+// A report for a file that isn't valid JSON
+function unreadable(name: string, kind: ContentReport['kind'], error: unknown): ContentReport {
+  const actual = error instanceof Error ? error.message : String(error)
+  return {
+    file: name,
+    kind,
+    count: 0,
+    issues: [{ file: name, itemId: null, index: -1, field: '(file)', expected: 'valid JSON', actual }],
+    valid: false,
+  }
+}
+
+// The profile as it is on disk (the bundled import goes stale while the dev
+// server runs), and the tokens it fills
+function loadProfile(): { report: ContentReport; tokens: TokenValues } {
+  const name = path.relative(ROOT, PROFILE_FILE)
+  try {
+    const data = readJSON(PROFILE_FILE)
+    const report = validateProfile(data, name)
+    return { report, tokens: report.valid ? profileTokens(data as PersonalizationProfile) : getProfileTokens() }
+  } catch (error) {
+    return { report: unreadable(name, 'profile', error), tokens: getProfileTokens() }
+  }
+}
+
+// Read and check one content file (null for files without a schema).
+// Translations are checked against their base file.
+function loadContentFile(file: string, tokens: TokenValues): LoadedContent | null {
+  const parsed = parseContentFile(file)
+  if (!parsed) return null
+
+  const { kind, locale } = parsed
+  const key = path.basename(file, '.json')
+  const name = path.relative(ROOT, file)
+  try {
+    const data = readJSON(file)
+
+    // A translation may only translate items its base file has
+    const base = locale ? readJSON(path.join(DATA_DIR, `${kind}.json`)) : undefined
+    const translationOf = locale ? (Array.isArray(base) ? base : []) : undefined
+
+    return { key, report: validateContent(kind, data, name, { translationOf, tokens }), data }
+  } catch (error) {
+    return { key, report: unreadable(name, kind, error), data: null }
+  }
+}
+
+function loadAllContent(tokens: TokenValues = loadProfile().tokens): LoadedContent[] {
+  return fs.readdirSync(DATA_DIR)
+    .map(file => loadContentFile(path.join(DATA_DIR, file), tokens))
+    .filter((loaded): loaded is LoadedContent => loaded !== null)
+}
+
+// Check the UI string catalogs' tokens
+function checkStrings(tokens: TokenValues): ContentReport[] {
+  return fs.readdirSync(STRINGS_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => {
+      const name = path.relative(ROOT, path.join(STRINGS_DIR, file))
+      try {
+        return validateStrings(readJSON(path.join(STRINGS_DIR, file)), name, tokens)
+      } catch (error) {
+        return unreadable(name, 'strings', error)
+      }
+    })
+}
+
+// Every report that failed: profile, content and string catalogs
+function findProblems(): ContentReport[] {
+  const profile = loadProfile()
+  return [
+    profile.report,
+    ...loadAllContent(profile.tokens).map(loaded => loaded.report),
+    ...checkStrings(profile.tokens),
+  ].filter(report => !report.valid)
+}
+
+// Content pipeline for src/data/*.json, so ContentLoader behaves the same
+// in dev and in a build:
+// - every file is checked against ContentSchema, and content and string
+//   catalogs for {{tokens}} the profile can't fill; problems fail the build,
+//   and show the error overlay while developing
+// - while developing, an edited content file reloads in place: the app drops
+//   its cached copy and refetches (core/ContentHotReload.ts), and components
+//   importing it refresh through React Fast Refresh, keeping scene state
+// - builds emit each file (translations too) minified and content-hashed
+//   into content/, plus content/manifest.json listing where each one went
+// - the dev server answers the same manifest, pointing at live copies
+function contentPipeline(): Plugin {
+  let isBuild = false
+  let base = '/'
+
+  return {
+    name: PLUGIN_NAME,
+
+    configResolved(config) {
+      isBuild = config.command === 'build'
+      base = config.base
+    },
+
+    buildStart() {
+      const failed = findProblems()
+      if (failed.length === 0) return
+
+      const message = `Content validation failed\n\n${failed.map(formatContentReport).join('\n\n')}`
+      if (isBuild) {
+        this.error(message)
+      } else {
+        this.warn(message)
+      }
+    },
+
+    configureServer(server) {
+      const prefix = `${base}${CONTENT_DIR}/`
+
+      server.middlewares.use((req, res, next) => {
+        const url = (req.url || '').split('?')[0]
+        if (!url.startsWith(prefix)) return next()
+
+        const name = url.slice(prefix.length)
+        let body: string
+
+        if (`${CONTENT_DIR}/${name}` === CONTENT_MANIFEST_PATH) {
+          const manifest: ContentManifest = { version: 1, content: {} }
+          loadAllContent().forEach(({ key, report }) => {
+            const source = fs.readFileSync(path.join(ROOT, report.file), 'utf-8')
+            manifest.content[key] = {
+              url: `${CONTENT_DIR}/${key}.json`,
+              hash: contentHash(source),
+              count: report.count,
+            }
+          })
+          body = JSON.stringify(manifest, null, 2)
+        } else {
+          if (!parseContentFile(name) || !fs.existsSync(path.join(DATA_DIR, name))) return next()
+          body = fs.readFileSync(path.join(DATA_DIR, name), 'utf-8')
+        }
+
+        res.setHeader('Content-Type', 'application/json')
+        res.setHeader('Cache-Control', 'no-cache')
+        res.end(body)
+      })
+    },
+
+    generateBundle() {
+      const manifest: ContentManifest = { version: 1, content: {} }
+
+      loadAllContent().forEach(({ key, report, data }) => {
+        const source = JSON.stringify(data)
+        const hash = contentHash(source)
+        const fileName = `${CONTENT_DIR}/${key}.${hash}.json`
+
+        this.emitFile({ type: 'asset', fileName, source })
+        manifest.content[key] = { url: fileName, hash, count: report.count }
+      })
+
+      this.emitFile({ type: 'asset', fileName: CONTENT_MANIFEST_PATH, source: JSON.stringify(manifest, null, 2) })
+    },
+
+    // A profile edit can break tokens anywhere, so check everything
+    handleHotUpdate({ file, server }) {
+      if (!file.startsWith(DATA_DIR)) return
+
+      const failed = findProblems()
+      if (failed.length > 0) {
+        const message = failed.map(formatContentReport).join('\n\n')
+        server.config.logger.error(message)
+        server.ws.send({
+          type: 'error',
+          err: { message, stack: '', id: file, plugin: PLUGIN_NAME },
+        })
+      }
+
+      const parsed = parseContentFile(file)
+      if (!parsed) return
+
+      // An invalid edit leaves the last good content on screen
+      if (failed.some(report => path.join(ROOT, report.file) === file)) return []
+
+      const update: ContentUpdate = { key: path.basename(file, '.json'), ...parsed }
+      server.ws.send({ type: 'custom', event: CONTENT_UPDATE_EVENT, data: update })
+      server.config.logger.info(`content reloaded: ${update.key}`, { timestamp: true })
+    },
+  }
+}
+
+// Dev-only mock of a content API, for trying NarrativeBuffer's 'api' sources:
+// GET /__mock-api/<kind> answers { items } from src/data/<kind>.json with an
+// ETag (304 on If-None-Match). Query options misbehave on purpose:
+// ?delay=<ms>, ?status=<code>, ?fail=<n> (the first n requests answer 503)
+function mockContentAPI(): Plugin {
+  const requests = new Map<string, number>()
+
+  return {
+    name: 'loveverse-mock-api',
+    apply: 'serve',
+
+    configureServer(server) {
+      server.middlewares.use(MOCK_API_PATH, (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost')
+        const kind = url.pathname.replace(/^\/+/, '')
+        const file = path.join(DATA_DIR, `${kind}.json`)
+        const count = (requests.get(req.url || '') || 0) + 1
+        requests.set(req.url || '', count)
+
+        const respond = () => {
+          const status = Number(url.searchParams.get('status')) || 0
+          const failures = Number(url.searchParams.get('fail')) || 0
+
+          if (status || count <= failures) {
+            res.statusCode = status || 503
+            return res.end()
+          }
+          if (!parseContentFile(`${kind}.json`) || !fs.existsSync(file)) {
+            res.statusCode = 404
+            return res.end()
+          }
+
+          const body = JSON.stringify({ items: readJSON(file) })
+          const etag = `"${contentHash(body)}"`
+          res.setHeader('ETag', etag)
+          res.setHeader('Cache-Control', 'no-cache')
+
+          if (req.headers['if-none-match'] === etag) {
+            res.statusCode = 304
+            return res.end()
+          }
+
+          res.setHeader('Content-Type', 'application/json')
+          res.end(body)
+        }
+
+        setTimeout(respond, Number(url.searchParams.get('delay')) || 0)
+      })
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), contentPipeline(), mockContentAPI()],
   server: {
     allowedHosts: ['.serveo.net', '.loca.lt']
-  }
+  },
+  // Unit tests run against a browser-like DOM, as the app does
+  test: {
+    environment: 'happy-dom',
+  },
 })